@@ -6,6 +6,7 @@ import "./styles/responsive.css";
 import { initIdentity } from "./util";
 import { ModernCredentialsManager } from "./components/ModernCredentialsManager";
 import { VerificationCallback } from "./components/VerificationCallback";
+import { TestWallet } from "./components/TestWallet";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 
 function App() {
@@ -43,6 +44,7 @@ function App() {
               />
 
               <Route path="/verification/callback" element={<VerificationCallback />} />
+              <Route path="/wallet" element={<TestWallet />} />
             </Routes>
           </ErrorBoundary>
         </Container>
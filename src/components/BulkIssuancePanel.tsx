@@ -0,0 +1,360 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Card, Flex, Heading, Text, Button, Select, Badge, Grid, Progress, ScrollArea, Table, Callout } from '@radix-ui/themes';
+import { DownloadIcon, InfoCircledIcon, UploadIcon } from '@radix-ui/react-icons';
+import {
+    DEFAULT_CONCURRENCY,
+    MAX_CONCURRENCY,
+    TYPE_COLUMN,
+    describeHolder,
+    issueBatch,
+    parseBulkFile,
+    prepareRows,
+    renderQrSheet,
+    resultsToCsv,
+    resultsToJson,
+    resultsToPinCsv,
+    suggestColumnMapping,
+    type BulkRowResult,
+    type BulkRowStatus,
+    type BulkSource,
+    type ColumnMapping,
+    type ColumnTarget,
+} from '../services/unicore/bulkIssuance';
+import { CREDENTIAL_TYPES, SUBJECT_FIELDS } from '../services/unicore/credentialSubject';
+import { downloadFile } from '../utils/download';
+import { generateQRDataURL } from './QRCodeGenerator';
+
+interface BulkIssuancePanelProps {
+    disabled?: boolean;
+    onIssued: (result: BulkRowResult) => void;
+}
+
+// Radix Select items cannot have an empty value.
+const IGNORE = '__ignore__';
+
+const STATUS_COLORS: Record<BulkRowStatus, 'gray' | 'blue' | 'green' | 'red' | 'orange'> = {
+    pending: 'gray',
+    issuing: 'blue',
+    issued: 'green',
+    failed: 'red',
+    skipped: 'orange',
+    cancelled: 'gray',
+};
+
+const timestampedName = (extension: string, prefix = 'credential-offers') =>
+    `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+
+export const BulkIssuancePanel: React.FC<BulkIssuancePanelProps> = ({ disabled, onIssued }) => {
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [source, setSource] = useState<BulkSource | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [defaultType, setDefaultType] = useState<string>('TravelDocument');
+    const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [results, setResults] = useState<BulkRowResult[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const rows = useMemo(
+        () => (source ? prepareRows(source, mapping, defaultType) : []),
+        [source, mapping, defaultType]
+    );
+    const invalidRows = rows.filter(row => row.errors.length > 0);
+    const hasTypeColumn = Object.values(mapping).includes(TYPE_COLUMN);
+
+    const finished = results.filter(result => result.status !== 'pending' && result.status !== 'issuing').length;
+    const issued = results.filter(result => result.status === 'issued');
+    const hasPins = issued.some(result => result.txCode);
+    const failed = results.filter(result => result.status === 'failed').length;
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setResults([]);
+        setParseError(null);
+        try {
+            const parsed = parseBulkFile(file.name, await file.text());
+            setFileName(file.name);
+            setSource(parsed);
+            setMapping(suggestColumnMapping(parsed.columns));
+        } catch (error) {
+            setFileName(null);
+            setSource(null);
+            setParseError(error instanceof Error ? error.message : 'Failed to read file');
+        }
+    };
+
+    const handleMappingChange = (column: string, target: string) => {
+        setMapping(prev => ({ ...prev, [column]: (target === IGNORE ? '' : target) as ColumnTarget }));
+    };
+
+    const startIssuance = async () => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        setResults(rows.map(row => ({
+            index: row.index,
+            type: row.type,
+            holder: describeHolder(row.values),
+            status: 'pending',
+        })));
+
+        try {
+            await issueBatch(rows, {
+                concurrency,
+                signal: controller.signal,
+                onProgress: (result) => {
+                    setResults(prev => prev.map(item => item.index === result.index ? result : item));
+                    if (result.status === 'issued') onIssued(result);
+                },
+            });
+        } finally {
+            controllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const downloadTemplate = () => {
+        const header = [TYPE_COLUMN, ...SUBJECT_FIELDS.map(field => field.key)].join(',');
+        downloadFile('bulk-issuance-template.csv', `${header}\r\n`, 'text/csv');
+    };
+
+    const exportQrSheet = async () => {
+        const qrCodes = new Map<string, string>();
+        for (const result of issued) {
+            qrCodes.set(result.offerUrl!, await generateQRDataURL(result.offerUrl!, 220));
+        }
+        downloadFile(timestampedName('html'), renderQrSheet(results, qrCodes), 'text/html');
+    };
+
+    return (
+        <Card size="3" style={{ marginTop: '1rem' }}>
+            <Flex direction="column" gap="4">
+                <Flex justify="between" align="center">
+                    <Heading size="4">Bulk Issuance</Heading>
+                    <Button size="2" variant="soft" onClick={downloadTemplate}>
+                        <DownloadIcon />
+                        CSV Template
+                    </Button>
+                </Flex>
+
+                <Text size="2" color="gray">
+                    Upload a CSV file or a JSON array with one holder per row. Columns are matched to credential
+                    fields by name and can be remapped below; a "type" column selects the credential type per row.
+                </Text>
+
+                <Flex gap="3" align="center">
+                    <Button asChild size="2" variant="outline" disabled={isRunning}>
+                        <label style={{ cursor: 'pointer' }}>
+                            <UploadIcon />
+                            Choose File
+                            <input
+                                type="file"
+                                accept=".csv,.json,text/csv,application/json"
+                                onChange={handleFile}
+                                disabled={isRunning}
+                                style={{ display: 'none' }}
+                            />
+                        </label>
+                    </Button>
+                    {fileName && source && (
+                        <Text size="2">{fileName} · {source.rows.length} rows</Text>
+                    )}
+                </Flex>
+
+                {parseError && (
+                    <Callout.Root color="red">
+                        <Callout.Icon>
+                            <InfoCircledIcon />
+                        </Callout.Icon>
+                        <Callout.Text>{parseError}</Callout.Text>
+                    </Callout.Root>
+                )}
+
+                {source && (
+                    <>
+                        <Box>
+                            <Text size="3" weight="bold" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                Column Mapping
+                            </Text>
+                            <Grid columns="2" gap="2" align="center">
+                                {source.columns.map(column => (
+                                    <React.Fragment key={column}>
+                                        <Text size="2" weight="medium">{column}</Text>
+                                        <Select.Root
+                                            value={mapping[column] || IGNORE}
+                                            onValueChange={(value) => handleMappingChange(column, value)}
+                                            disabled={isRunning}
+                                        >
+                                            <Select.Trigger />
+                                            <Select.Content>
+                                                <Select.Item value={IGNORE}>Ignore</Select.Item>
+                                                <Select.Item value={TYPE_COLUMN}>Credential Type</Select.Item>
+                                                {SUBJECT_FIELDS.map(field => (
+                                                    <Select.Item key={field.key} value={field.key}>
+                                                        {field.label}
+                                                    </Select.Item>
+                                                ))}
+                                            </Select.Content>
+                                        </Select.Root>
+                                    </React.Fragment>
+                                ))}
+                            </Grid>
+                        </Box>
+
+                        <Flex gap="4" wrap="wrap">
+                            {!hasTypeColumn && (
+                                <Box>
+                                    <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                        Credential Type
+                                    </Text>
+                                    <Select.Root value={defaultType} onValueChange={setDefaultType} disabled={isRunning}>
+                                        <Select.Trigger />
+                                        <Select.Content>
+                                            {CREDENTIAL_TYPES.map(type => (
+                                                <Select.Item key={type} value={type}>{type}</Select.Item>
+                                            ))}
+                                        </Select.Content>
+                                    </Select.Root>
+                                </Box>
+                            )}
+                            <Box>
+                                <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                    Parallel Requests
+                                </Text>
+                                <Select.Root
+                                    value={String(concurrency)}
+                                    onValueChange={(value) => setConcurrency(Number(value))}
+                                    disabled={isRunning}
+                                >
+                                    <Select.Trigger />
+                                    <Select.Content>
+                                        {Array.from({ length: MAX_CONCURRENCY }, (_, i) => (
+                                            <Select.Item key={i + 1} value={String(i + 1)}>{i + 1}</Select.Item>
+                                        ))}
+                                    </Select.Content>
+                                </Select.Root>
+                            </Box>
+                        </Flex>
+
+                        <Text size="2">
+                            {rows.length - invalidRows.length} of {rows.length} rows are valid
+                            {invalidRows.length > 0 && '; invalid rows are skipped'}
+                        </Text>
+
+                        {invalidRows.length > 0 && (
+                            <ScrollArea style={{ maxHeight: '160px' }}>
+                                <Flex direction="column" gap="1">
+                                    {invalidRows.map(row => (
+                                        <Text key={row.index} size="1" color="orange">
+                                            Row {row.index}: {row.errors.join('; ')}
+                                        </Text>
+                                    ))}
+                                </Flex>
+                            </ScrollArea>
+                        )}
+
+                        <Flex gap="2">
+                            <Button
+                                size="3"
+                                onClick={startIssuance}
+                                disabled={disabled || isRunning || rows.length === invalidRows.length}
+                            >
+                                {isRunning ? 'Issuing...' : `Issue ${rows.length - invalidRows.length} Credentials`}
+                            </Button>
+                            {isRunning && (
+                                <Button size="3" variant="soft" color="red" onClick={() => controllerRef.current?.abort()}>
+                                    Cancel
+                                </Button>
+                            )}
+                        </Flex>
+                    </>
+                )}
+
+                {results.length > 0 && (
+                    <>
+                        <Box>
+                            <Flex justify="between" style={{ marginBottom: '0.5rem' }}>
+                                <Text size="2">{finished} / {results.length} processed</Text>
+                                <Text size="2" color="gray">{issued.length} issued · {failed} failed</Text>
+                            </Flex>
+                            <Progress value={(finished / results.length) * 100} />
+                        </Box>
+
+                        <ScrollArea style={{ maxHeight: '320px' }}>
+                            <Table.Root size="1">
+                                <Table.Header>
+                                    <Table.Row>
+                                        <Table.ColumnHeaderCell>Row</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Holder</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Type</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Status</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Details</Table.ColumnHeaderCell>
+                                    </Table.Row>
+                                </Table.Header>
+                                <Table.Body>
+                                    {results.map(result => (
+                                        <Table.Row key={result.index}>
+                                            <Table.Cell>{result.index}</Table.Cell>
+                                            <Table.Cell>{result.holder || '—'}</Table.Cell>
+                                            <Table.Cell>{result.type}</Table.Cell>
+                                            <Table.Cell>
+                                                <Badge color={STATUS_COLORS[result.status]}>{result.status}</Badge>
+                                            </Table.Cell>
+                                            <Table.Cell>
+                                                <Text size="1" color={result.error ? 'red' : 'gray'}>
+                                                    {result.error ?? result.offerId ?? ''}
+                                                    {result.txCode && ` · PIN ${result.txCode}`}
+                                                </Text>
+                                            </Table.Cell>
+                                        </Table.Row>
+                                    ))}
+                                </Table.Body>
+                            </Table.Root>
+                        </ScrollArea>
+
+                        {!isRunning && (
+                            <Flex gap="2" wrap="wrap">
+                                <Button
+                                    size="2"
+                                    variant="soft"
+                                    onClick={() => downloadFile(timestampedName('csv'), resultsToCsv(results), 'text/csv')}
+                                >
+                                    <DownloadIcon />
+                                    Export CSV
+                                </Button>
+                                <Button
+                                    size="2"
+                                    variant="soft"
+                                    onClick={() => downloadFile(timestampedName('json'), resultsToJson(results), 'application/json')}
+                                >
+                                    <DownloadIcon />
+                                    Export JSON
+                                </Button>
+                                <Button size="2" variant="soft" onClick={exportQrSheet} disabled={issued.length === 0}>
+                                    <DownloadIcon />
+                                    QR Code Sheet
+                                </Button>
+                                {hasPins && (
+                                    <Button
+                                        size="2"
+                                        variant="soft"
+                                        color="amber"
+                                        onClick={() => downloadFile(timestampedName('csv', 'offer-pins'), resultsToPinCsv(results), 'text/csv')}
+                                    >
+                                        <DownloadIcon />
+                                        Export PINs (separately)
+                                    </Button>
+                                )}
+                            </Flex>
+                        )}
+                    </>
+                )}
+            </Flex>
+        </Card>
+    );
+};
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { Badge, Box, Button, Callout, Card, Code, Flex, Heading, Table, Text } from '@radix-ui/themes';
+import { CheckIcon, CrossCircledIcon, ReloadIcon } from '@radix-ui/react-icons';
+import { unicoreService } from '../services/unicore/unicoreService';
+import type { DidDocument } from '../services/unicore/schemas';
+import { getErrorKind, getErrorMessage } from '../services/unicore/errors';
+import { getConfig } from '../services/config/configService';
+import {
+    checkDomainLinkage,
+    summarizeMethods,
+    summarizeServices,
+    type DomainLinkage,
+} from '../services/identity/issuerIdentity';
+
+interface IssuerIdentityPanelProps {
+    disabled?: boolean;
+}
+
+/**
+ * Shows the agent's DID document and whether its DID and the agent's domain
+ * link through the Well-Known DID Configuration.
+ */
+export const IssuerIdentityPanel: React.FC<IssuerIdentityPanelProps> = ({ disabled }) => {
+    const [didDocument, setDidDocument] = useState<DidDocument | null>(null);
+    const [linkage, setLinkage] = useState<DomainLinkage | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [linkageError, setLinkageError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [reload, setReload] = useState(0);
+
+    useEffect(() => {
+        if (disabled) return;
+
+        const controller = new AbortController();
+        const { signal } = controller;
+        const inspect = async () => {
+            setIsLoading(true);
+            setError(null);
+            setLinkageError(null);
+            setLinkage(null);
+            try {
+                const fetched = await unicoreService.getDidDocument({ signal, forceRefresh: reload > 0 });
+                setDidDocument(fetched);
+                try {
+                    const configuration = await unicoreService.getDidConfiguration({ signal });
+                    setLinkage(await checkDomainLinkage(fetched, configuration, getConfig().agentUrl));
+                } catch (linkError) {
+                    if (getErrorKind(linkError) === 'aborted') return;
+                    setLinkageError(getErrorMessage(linkError, 'Could not validate the DID configuration'));
+                }
+            } catch (fetchError) {
+                if (getErrorKind(fetchError) === 'aborted') return;
+                setDidDocument(null);
+                setError(getErrorMessage(fetchError, 'Could not fetch the DID document'));
+            } finally {
+                if (!signal.aborted) setIsLoading(false);
+            }
+        };
+        inspect();
+
+        return () => controller.abort();
+    }, [disabled, reload]);
+
+    const methods = didDocument ? summarizeMethods(didDocument) : [];
+    const services = didDocument ? summarizeServices(didDocument) : [];
+    const notLinked = linkageError !== null || (linkage !== null && !linkage.linked);
+
+    return (
+        <Card size="3" style={{ marginTop: '1rem' }}>
+            <Flex direction="column" gap="4">
+                <Flex justify="between" align="center">
+                    <Heading size="4">Issuer Identity</Heading>
+                    <Button
+                        variant="soft"
+                        size="1"
+                        onClick={() => setReload(count => count + 1)}
+                        disabled={disabled || isLoading}
+                    >
+                        <ReloadIcon />
+                        {isLoading ? 'Checking...' : 'Refresh'}
+                    </Button>
+                </Flex>
+
+                {disabled && (
+                    <Text size="2" color="gray">Connect to the agent to inspect its DID.</Text>
+                )}
+
+                {error && (
+                    <Callout.Root color="red">
+                        <Callout.Icon>
+                            <CrossCircledIcon />
+                        </Callout.Icon>
+                        <Callout.Text>{error}</Callout.Text>
+                    </Callout.Root>
+                )}
+
+                {didDocument && (
+                    <Flex direction="column" gap="1">
+                        <Text size="2" weight="medium">DID</Text>
+                        <Code size="2" style={{ wordBreak: 'break-all' }}>{didDocument.id}</Code>
+                    </Flex>
+                )}
+
+                {notLinked && (
+                    <Callout.Root color="red" variant="surface" size="3">
+                        <Callout.Icon>
+                            <CrossCircledIcon />
+                        </Callout.Icon>
+                        <Flex direction="column" gap="1">
+                            <Text size="3" weight="bold">
+                                The issuer DID and {linkage?.domain ?? 'the agent domain'} do not link
+                            </Text>
+                            <Text size="2">
+                                Wallets cannot tie credentials from this DID to the agent's domain, and
+                                verifiers that check domain linkage will not trust them.
+                            </Text>
+                            {linkageError && <Text size="2">{linkageError}</Text>}
+                            {linkage?.problems.map(problem => (
+                                <Text key={problem} size="2">✗ {problem}</Text>
+                            ))}
+                        </Flex>
+                    </Callout.Root>
+                )}
+
+                {linkage?.linked && (
+                    <Callout.Root color="green">
+                        <Callout.Icon>
+                            <CheckIcon />
+                        </Callout.Icon>
+                        <Callout.Text>
+                            {didDocument?.id} and {linkage.domain} link through the Well-Known DID Configuration.
+                        </Callout.Text>
+                    </Callout.Root>
+                )}
+
+                {linkage && linkage.credentials.length > 0 && (
+                    <Box>
+                        <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                            Domain Linkage Credentials
+                        </Text>
+                        <Flex direction="column" gap="1">
+                            {linkage.credentials.map((credential, index) => (
+                                <Text key={index} size="1" color={credential.valid ? 'green' : 'red'}>
+                                    {credential.valid ? '✓' : '✗'} {credential.detail}
+                                </Text>
+                            ))}
+                        </Flex>
+                    </Box>
+                )}
+
+                {didDocument && (
+                    <Box>
+                        <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                            Verification Methods
+                        </Text>
+                        {methods.length === 0 ? (
+                            <Text size="1" color="gray">The document has no verification methods.</Text>
+                        ) : (
+                            <Table.Root size="1" variant="surface">
+                                <Table.Header>
+                                    <Table.Row>
+                                        <Table.ColumnHeaderCell>Method</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Type</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Key</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Used for</Table.ColumnHeaderCell>
+                                    </Table.Row>
+                                </Table.Header>
+                                <Table.Body>
+                                    {methods.map(method => (
+                                        <Table.Row key={method.id}>
+                                            <Table.Cell style={{ wordBreak: 'break-all' }}>
+                                                {method.id.replace(didDocument.id, '')}
+                                            </Table.Cell>
+                                            <Table.Cell>{method.type}</Table.Cell>
+                                            <Table.Cell>
+                                                <Badge color="blue">{method.keyType}</Badge>
+                                            </Table.Cell>
+                                            <Table.Cell>
+                                                <Flex gap="1" wrap="wrap">
+                                                    {method.relationships.length === 0 ? (
+                                                        <Text size="1" color="gray">none</Text>
+                                                    ) : method.relationships.map(relationship => (
+                                                        <Badge key={relationship} color="gray">{relationship}</Badge>
+                                                    ))}
+                                                </Flex>
+                                            </Table.Cell>
+                                        </Table.Row>
+                                    ))}
+                                </Table.Body>
+                            </Table.Root>
+                        )}
+                    </Box>
+                )}
+
+                {didDocument && (
+                    <Box>
+                        <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                            Services
+                        </Text>
+                        {services.length === 0 ? (
+                            <Text size="1" color="gray">The document has no services.</Text>
+                        ) : (
+                            <Table.Root size="1" variant="surface">
+                                <Table.Header>
+                                    <Table.Row>
+                                        <Table.ColumnHeaderCell>Service</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Type</Table.ColumnHeaderCell>
+                                        <Table.ColumnHeaderCell>Endpoint</Table.ColumnHeaderCell>
+                                    </Table.Row>
+                                </Table.Header>
+                                <Table.Body>
+                                    {services.map(service => (
+                                        <Table.Row key={service.id}>
+                                            <Table.Cell style={{ wordBreak: 'break-all' }}>
+                                                {service.id.replace(didDocument.id, '')}
+                                            </Table.Cell>
+                                            <Table.Cell>{service.types.join(', ')}</Table.Cell>
+                                            <Table.Cell style={{ wordBreak: 'break-all' }}>{service.endpoint}</Table.Cell>
+                                        </Table.Row>
+                                    ))}
+                                </Table.Body>
+                            </Table.Root>
+                        )}
+                    </Box>
+                )}
+            </Flex>
+        </Card>
+    );
+};
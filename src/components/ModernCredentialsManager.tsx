@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useSyncExternalStore } from 'react';
 import {
     Box,
     Card,
@@ -16,7 +16,8 @@ import {
     Grid,
     Avatar,
     IconButton,
-    Callout
+    Callout,
+    Switch
 } from '@radix-ui/themes';
 import {
     PlusIcon,
@@ -25,10 +26,85 @@ import {
     EyeOpenIcon,
     Share1Icon,
     ReloadIcon,
-    InfoCircledIcon
+    InfoCircledIcon,
+    PaperPlaneIcon,
+    UpdateIcon
 } from '@radix-ui/react-icons';
-import { unicoreService } from '../services/unicore/unicoreService';
+import {
+    unicoreService,
+    type CredentialRequest,
+    type IssuanceResult,
+    type VerificationResult,
+} from '../services/unicore/unicoreService';
+import { WALLET_PROFILES, getFormatWarning, getWalletProfile } from '../services/unicore/walletProfiles';
+import type { BulkRowResult } from '../services/unicore/bulkIssuance';
+import type { OfferDelivery } from '../services/unicore/offerDelivery';
+import {
+    OFFER_LIFETIME_PRESETS,
+    formatLifetime,
+    getOfferExpiry,
+    getOfferLifetime,
+    getTimeRemaining,
+} from '../services/unicore/offerExpiry';
+import {
+    OFFER_STATUS_POLL_MS,
+    fetchOfferStatuses,
+    migrateOfferStatus,
+    type OfferStatus,
+} from '../services/unicore/offerStatus';
+import { buildCredentialRequest } from '../services/unicore/credentialSubject';
+import type { CredentialStatusEntry } from '../services/identity/credentialStatus';
+import { parseRevocationBitmapEntry, type RevocationBitmapEntry } from '../services/identity/revocationBitmap';
+import {
+    buildRevocationBitmapUpdate,
+    isBitmapRevoked,
+    loadRevocationBitmaps,
+    revokeInBitmap,
+    saveRevocationBitmaps,
+    type RevocationBitmaps,
+} from '../services/unicore/revocationBitmapStore';
+import {
+    applyStatusAction,
+    getCredentialStatus,
+    loadStatusLists,
+    publishStatusLists,
+    saveStatusLists,
+    statusIndexOf,
+    type CredentialStatusValue,
+    type StatusAction,
+    type StatusLists,
+} from '../services/unicore/statusList';
+import { getTxCodePolicy, type TxCode } from '../services/unicore/txCode';
+import {
+    ISSUANCE_FORMATS,
+    ISSUANCE_FORMAT_LABELS,
+    getDisclosableClaims,
+    type IssuanceFormat,
+} from '../services/unicore/selectiveDisclosure';
+import {
+    QUERY_LANGUAGE_LABELS,
+    type VerificationQuery,
+} from '../services/unicore/verificationQuery';
+import {
+    VERIFICATIONS_STORAGE_KEY,
+    applyVerificationUpdate,
+    loadVerifications,
+    saveVerifications,
+    type VerificationRequest,
+} from '../services/unicore/verificationStore';
+import { getErrorKind, getErrorMessage, isAgentUnavailable, type UniCoreErrorKind } from '../services/unicore/errors';
+import { getAgentBaseUrl, getConfig, subscribeConfig } from '../services/config/configService';
 import { QRCodeGenerator } from './QRCodeGenerator';
+import { SettingsPanel } from './SettingsPanel';
+import { BulkIssuancePanel } from './BulkIssuancePanel';
+import { IssuerIdentityPanel } from './IssuerIdentityPanel';
+import { downloadFile } from '../utils/download';
+import { SendOfferDialog } from './SendOfferDialog';
+import { PresentationDefinitionComposer } from './PresentationDefinitionComposer';
+import { OfferCountdown } from './OfferCountdown';
+import { VerificationSession, VerificationStatusBadge } from './VerificationSession';
+import { VERIFICATION_LIFETIME_PRESETS, isTerminalVerificationStatus } from '../services/unicore/verificationSession';
+import { VERIFICATION_SWEEP_MS, sweepVerifications } from '../services/unicore/verificationSweeper';
 
 interface CredentialForm {
     type: string;
@@ -64,16 +140,30 @@ interface IssuedCredential {
     type: string;
     offerUrl: string;
     timestamp: string;
-    status: 'issued' | 'pending' | 'error';
+    status: OfferStatus;
+    statusReason?: string;
+    statusUpdatedAt?: string;
+    offerExpiresAt?: string;
+    request?: CredentialRequest;
+    /** Offer URL from the agent; `offerUrl` is this adapted to `walletProfile`. */
+    agentOfferUrl?: string;
+    walletProfile?: string;
+    configurationId?: string;
+    credentialFormat?: string;
+    /** Revocation and suspension entries; absent when issued without status lists. */
+    credentialStatus?: CredentialStatusEntry[];
+    /** Index in the revocation bitmap of the issuer's IOTA DID document. */
+    revocationBitmapStatus?: RevocationBitmapEntry;
+    /**
+     * PIN the wallet asks for; it is shared separately from the QR code. Held
+     * for this session only and never saved next to `offerUrl`.
+     */
+    txCode?: TxCode;
+    /** Whether the offer needs a PIN, kept after `txCode` is dropped. */
+    requiresTxCode?: boolean;
+    warnings?: string[];
     credentialData?: unknown;
-}
-
-interface VerificationRequest {
-    id: string;
-    types: string[];
-    authorizationUrl: string;
-    timestamp: string;
-    status: 'active' | 'completed' | 'expired';
+    deliveries?: OfferDelivery[];
 }
 
 interface ServiceHealth {
@@ -81,14 +171,81 @@ interface ServiceHealth {
     agent: boolean;
     configurations?: unknown;
     error?: string;
+    errorKind?: UniCoreErrorKind;
 }
 
+const OFFER_STATUS_COLORS: Record<OfferStatus, 'blue' | 'green' | 'gray' | 'red'> = {
+    offered: 'blue',
+    redeemed: 'green',
+    expired: 'gray',
+    failed: 'red',
+    removed: 'gray',
+};
+
+const CREDENTIAL_STATUS_COLORS: Record<CredentialStatusValue, 'green' | 'orange' | 'red'> = {
+    active: 'green',
+    suspended: 'orange',
+    revoked: 'red',
+};
+
+const STATUS_ACTION_RESULTS: Record<StatusAction, string> = {
+    revoke: 'revoked',
+    suspend: 'suspended',
+    reinstate: 'reinstated',
+};
+
+const toIssuedCredential = (request: CredentialRequest, result: IssuanceResult): IssuedCredential => ({
+    id: result.credentialId!,
+    type: request.type,
+    offerUrl: result.offerUrl!,
+    timestamp: new Date().toISOString(),
+    status: 'offered',
+    offerExpiresAt: result.offerExpiresAt,
+    request,
+    agentOfferUrl: result.agentOfferUrl,
+    walletProfile: result.walletProfile,
+    configurationId: result.configurationId,
+    credentialFormat: result.credentialFormat,
+    credentialStatus: result.credentialStatus,
+    revocationBitmapStatus: result.revocationBitmapStatus,
+    txCode: result.txCode,
+    requiresTxCode: Boolean(result.txCode),
+    warnings: result.warnings,
+    credentialData: result.credentialData,
+});
+
+/** The record as saved: whether there is a PIN, never the PIN itself. */
+const withoutTxCode = (credential: IssuedCredential): IssuedCredential => ({
+    ...credential,
+    requiresTxCode: credential.requiresTxCode ?? Boolean(credential.txCode),
+    txCode: undefined,
+});
+
+const getErrorTitle = (kind: UniCoreErrorKind | null): string | null => {
+    if (!kind || kind === 'aborted') return null;
+    if (isAgentUnavailable(kind)) return 'UniCore agent unavailable';
+    if (kind === 'client') return 'The agent rejected the request';
+    if (kind === 'contract') return 'Agent contract mismatch';
+    if (kind === 'correlation') return 'Could not identify the created request';
+    return 'Unexpected response from the agent';
+};
+
+const getErrorHint = (kind: UniCoreErrorKind | null): string | null => {
+    if (!kind || kind === 'aborted') return null;
+    if (isAgentUnavailable(kind)) return 'Check that the agent is running and reachable, then retry.';
+    if (kind === 'client') return 'Check the submitted data and the credential configuration in UniCore.';
+    if (kind === 'correlation') return 'Nothing was shown so sessions cannot get mixed up. Retry, or configure the agent to return JSON.';
+    return 'The agent may be running an incompatible version.';
+};
+
 export const ModernCredentialsManager: React.FC = () => {
     const [activeTab, setActiveTab] = useState('issue');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [errorKind, setErrorKind] = useState<UniCoreErrorKind | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
     const [healthStatus, setHealthStatus] = useState<ServiceHealth | null>(null);
+    const config = useSyncExternalStore(subscribeConfig, getConfig);
 
     const [form, setForm] = useState<CredentialForm>({
         type: 'TravelDocument',
@@ -102,8 +259,26 @@ export const ModernCredentialsManager: React.FC = () => {
     const [issuedCredentials, setIssuedCredentials] = useState<IssuedCredential[]>([]);
     const [verificationRequests, setVerificationRequests] = useState<VerificationRequest[]>([]);
     const [selectedCredential, setSelectedCredential] = useState<IssuedCredential | null>(null);
+    const [sessionId, setSessionId] = useState<string | null>(null);
     const [showQRDialog, setShowQRDialog] = useState(false);
     const [showDetailsDialog, setShowDetailsDialog] = useState(false);
+    const [sendOfferId, setSendOfferId] = useState<string | null>(null);
+    const [offerLifetime, setOfferLifetime] = useState('default');
+    // 'default' lets the agent's configuration for the type decide.
+    const [issuanceFormat, setIssuanceFormat] = useState<IssuanceFormat | 'default'>('default');
+    const [verificationLifetime, setVerificationLifetime] = useState('default');
+    const [walletProfile, setWalletProfile] = useState(config.walletProfile);
+    // null follows the PIN policy of the selected type.
+    const [requirePin, setRequirePin] = useState<boolean | null>(null);
+    const [showTxCode, setShowTxCode] = useState(false);
+    const [isAdaptingOffer, setIsAdaptingOffer] = useState(false);
+    const [statusLists, setStatusLists] = useState<StatusLists>(loadStatusLists);
+    const [revocationBitmaps, setRevocationBitmaps] = useState<RevocationBitmaps>(loadRevocationBitmaps);
+    const [isPublishingStatus, setIsPublishingStatus] = useState(false);
+    // Shown in the details dialog, which covers the page messages.
+    const [statusNotice, setStatusNotice] = useState<{ failed: boolean; text: string } | null>(null);
+    // Revoking is final, so it takes a second click.
+    const [revokeConfirmId, setRevokeConfirmId] = useState<string | null>(null);
 
     const [verificationTypes, setVerificationTypes] = useState<string[]>(['TravelDocument']);
 
@@ -113,24 +288,125 @@ export const ModernCredentialsManager: React.FC = () => {
     }, []);
 
     useEffect(() => {
-        localStorage.setItem('unicore-credentials', JSON.stringify(issuedCredentials));
+        localStorage.setItem('unicore-credentials', JSON.stringify(issuedCredentials.map(withoutTxCode)));
     }, [issuedCredentials]);
 
     useEffect(() => {
-        localStorage.setItem('unicore-verifications', JSON.stringify(verificationRequests));
+        saveVerifications(verificationRequests);
     }, [verificationRequests]);
 
+    // The callback page marks states used; pick that up so saving here does not undo it.
+    useEffect(() => {
+        const reload = (event: StorageEvent) => {
+            if (event.key === VERIFICATIONS_STORAGE_KEY) {
+                setVerificationRequests(loadVerifications());
+            }
+        };
+        window.addEventListener('storage', reload);
+        return () => window.removeEventListener('storage', reload);
+    }, []);
+
+    // Reconcile stored verification requests with the agent: expire stale
+    // ones, delete them there and prune old history.
+    const hasVerifications = verificationRequests.length > 0;
+
+    useEffect(() => {
+        if (!hasVerifications || !healthStatus?.api) {
+            return;
+        }
+
+        const controller = new AbortController();
+        const sweep = async () => {
+            try {
+                const { updates, removed } = await sweepVerifications(loadVerifications(), { signal: controller.signal });
+                if (controller.signal.aborted || (updates.size === 0 && removed.length === 0)) return;
+                setVerificationRequests(prev => prev
+                    .filter(request => !removed.includes(request.id))
+                    .map(request => {
+                        const update = updates.get(request.id);
+                        if (!update) return request;
+                        // A session may have finished while the sweep ran; keep its result.
+                        return applyVerificationUpdate(
+                            request,
+                            update.status && isTerminalVerificationStatus(request.status)
+                                ? { agentCleanup: update.agentCleanup }
+                                : update
+                        );
+                    }));
+            } catch (error) {
+                if (getErrorKind(error) !== 'aborted') {
+                    console.warn('Verification sweep failed:', error);
+                }
+            }
+        };
+        sweep();
+        const timer = setInterval(sweep, VERIFICATION_SWEEP_MS);
+
+        return () => {
+            controller.abort();
+            clearInterval(timer);
+        };
+    }, [hasVerifications, healthStatus?.api]);
+
+    // Follow open offers until the wallet redeems them or they end otherwise.
+    const openOfferKey = issuedCredentials
+        .filter(credential => credential.status === 'offered')
+        .map(credential => credential.id)
+        .join(',');
+
+    useEffect(() => {
+        if (!openOfferKey || !healthStatus?.api) {
+            return;
+        }
+
+        const controller = new AbortController();
+        const sync = () => syncOfferStatuses(openOfferKey.split(','), { signal: controller.signal });
+        sync();
+        const timer = setInterval(sync, OFFER_STATUS_POLL_MS);
+
+        return () => {
+            controller.abort();
+            clearInterval(timer);
+        };
+    }, [openOfferKey, healthStatus?.api]);
+
+    // Mark offers expired the moment their lifetime ends.
+    useEffect(() => {
+        const expiries = issuedCredentials
+            .filter(credential => credential.status === 'offered' && credential.offerExpiresAt)
+            .map(credential => getTimeRemaining(credential.offerExpiresAt!));
+        if (expiries.length === 0) {
+            return;
+        }
+
+        const markExpired = () => {
+            const now = new Date().toISOString();
+            setIssuedCredentials(prev => prev.map(credential =>
+                credential.status === 'offered' && credential.offerExpiresAt && credential.offerExpiresAt <= now
+                    ? { ...credential, status: 'expired', statusReason: 'Offer lifetime elapsed', statusUpdatedAt: now }
+                    : credential
+            ));
+        };
+
+        // setTimeout overflows above 2^31-1 ms (about 24.8 days).
+        const delay = Math.min(Math.max(0, Math.min(...expiries)), 2 ** 31 - 1);
+        const timer = setTimeout(markExpired, delay);
+        return () => clearTimeout(timer);
+    }, [issuedCredentials]);
+
     const loadStoredData = () => {
         try {
             const storedCredentials = localStorage.getItem('unicore-credentials');
             if (storedCredentials) {
-                setIssuedCredentials(JSON.parse(storedCredentials));
+                const credentials: IssuedCredential[] = JSON.parse(storedCredentials);
+                // Records saved before PINs were kept out of storage still carry them.
+                setIssuedCredentials(credentials.map(credential => withoutTxCode({
+                    ...credential,
+                    status: migrateOfferStatus(credential.status),
+                })));
             }
 
-            const storedVerifications = localStorage.getItem('unicore-verifications');
-            if (storedVerifications) {
-                setVerificationRequests(JSON.parse(storedVerifications));
-            }
+            setVerificationRequests(loadVerifications());
         } catch (error) {
             console.error('Failed to load stored data:', error);
         }
@@ -141,6 +417,10 @@ export const ModernCredentialsManager: React.FC = () => {
             const health = await unicoreService.healthCheck();
             setHealthStatus(health);
 
+            if (!health.api) {
+                return;
+            }
+
             const configIds = await unicoreService.getAvailableConfigurationIds();
 
             if (configIds.length === 0) {
@@ -185,9 +465,15 @@ export const ModernCredentialsManager: React.FC = () => {
 
     const clearMessages = () => {
         setError(null);
+        setErrorKind(null);
         setSuccess(null);
     };
 
+    const showFailure = (result: { error?: string; errorKind?: UniCoreErrorKind }, fallback: string) => {
+        setError(result.error || fallback);
+        setErrorKind(result.errorKind ?? null);
+    };
+
     const validateForm = (): boolean => {
         if (!form.firstName.trim() || !form.lastName.trim() || !form.dateOfBirth || !form.nationality.trim()) {
             setError('Please fill in all required fields (Name, Date of Birth, Nationality)');
@@ -204,50 +490,18 @@ export const ModernCredentialsManager: React.FC = () => {
         clearMessages();
 
         try {
-            const credentialRequest = {
-                type: form.type,
-                credentialSubject: {
-                    first_name: form.firstName,
-                    last_name: form.lastName,
-                    dob: form.dateOfBirth,
-                    nationality: form.nationality,
-                    ...(form.passportNumber && { passport_number: form.passportNumber }),
-                    ...(form.documentNumber && { document_number: form.documentNumber }),
-                    ...(form.issueDate && { issue_date: form.issueDate }),
-                    ...(form.expiryDate && { expiry_date: form.expiryDate }),
-                    ...(form.employerName && { employer_name: form.employerName }),
-                    ...(form.position && { position: form.position }),
-                    ...(form.workCountry && { work_country: form.workCountry }),
-                    ...(form.validFrom && { valid_from: form.validFrom }),
-                    ...(form.validUntil && { valid_until: form.validUntil }),
-                    ...(form.skillName && { skill_name: form.skillName }),
-                    ...(form.skillLevel && { skill_level: form.skillLevel }),
-                    ...(form.certificationBody && { certification_body: form.certificationBody }),
-                    ...(form.certificationNumber && { certification_number: form.certificationNumber }),
-                    ...(form.healthRecordId && { health_record_id: form.healthRecordId }),
-                    ...(form.bloodType && { blood_type: form.bloodType }),
-                    ...(form.vaccinationStatus && { vaccination_status: form.vaccinationStatus }),
-                    ...(form.allergies && { allergies: form.allergies }),
-                    ...(form.degree && { degree: form.degree }),
-                    ...(form.institution && { institution: form.institution }),
-                    ...(form.graduationYear && { graduation_year: form.graduationYear }),
-                    ...(form.fieldOfStudy && { field_of_study: form.fieldOfStudy }),
-                },
-                ...(form.validUntil && { expirationDate: form.validUntil }),
-                ...(form.expiryDate && { expirationDate: form.expiryDate }),
+            const credentialRequest: CredentialRequest = {
+                ...buildCredentialRequest(form.type, form),
+                ...(offerLifetime !== 'default' && { offerLifetimeMinutes: Number(offerLifetime) }),
+                ...(issuanceFormat !== 'default' && { format: issuanceFormat }),
+                walletProfile,
+                requireTxCode: requirePin ?? getTxCodePolicy(form.type, config) !== false,
             };
 
             const result = await unicoreService.issueCredential(credentialRequest);
 
             if (result.success) {
-                const newCredential: IssuedCredential = {
-                    id: result.credentialId!,
-                    type: form.type,
-                    offerUrl: result.offerUrl!,
-                    timestamp: new Date().toISOString(),
-                    status: 'issued',
-                    credentialData: result.credentialData,
-                };
+                const newCredential = toIssuedCredential(credentialRequest, result);
 
                 setIssuedCredentials(prev => [newCredential, ...prev]);
                 setSuccess(`${form.type} credential issued successfully!`);
@@ -259,11 +513,12 @@ export const ModernCredentialsManager: React.FC = () => {
                     dateOfBirth: '',
                     nationality: '',
                 });
+                setRequirePin(null);
 
                 setSelectedCredential(newCredential);
                 setShowQRDialog(true);
             } else {
-                setError(result.error || 'Failed to issue credential');
+                showFailure(result, 'Failed to issue credential');
             }
         } catch (error) {
             setError(error instanceof Error ? error.message : 'Unknown error occurred');
@@ -272,6 +527,168 @@ export const ModernCredentialsManager: React.FC = () => {
         }
     };
 
+    const handleBulkIssued = (result: BulkRowResult) => {
+        const newCredential = toIssuedCredential(result.request!, result.issuance!);
+        setIssuedCredentials(prev => [newCredential, ...prev]);
+    };
+
+    /** Rebuilds the QR for another wallet from the offer the agent returned. */
+    const changeWalletProfile = async (credential: IssuedCredential, profileId: string) => {
+        if (!credential.agentOfferUrl) return;
+
+        setIsAdaptingOffer(true);
+        try {
+            const offerUrl = await unicoreService.prepareWalletOffer(
+                credential.agentOfferUrl,
+                profileId,
+                credential.configurationId
+            );
+            setIssuedCredentials(prev => prev.map(item =>
+                item.id === credential.id ? { ...item, offerUrl, walletProfile: profileId } : item
+            ));
+        } finally {
+            setIsAdaptingOffer(false);
+        }
+    };
+
+    /**
+     * Withdraws an offer on the agent. Returns a warning when it may still be
+     * redeemable, since the agent kept it.
+     */
+    const withdrawOffer = async (offerId: string): Promise<string | undefined> => {
+        try {
+            await unicoreService.deleteOffer(offerId);
+            return undefined;
+        } catch (error) {
+            console.warn(`Could not withdraw offer ${offerId}:`, error);
+            return `The previous offer could not be withdrawn (${getErrorMessage(error)}); it stays redeemable until it expires.`;
+        }
+    };
+
+    /**
+     * Issues a fresh offer for the same subject data and offer lifetime and
+     * withdraws the old one, so only the new offer can be redeemed.
+     */
+    const reissueCredential = async (credential: IssuedCredential) => {
+        if (!credential.request) return;
+
+        setIsLoading(true);
+        clearMessages();
+        try {
+            const request = credential.request;
+            const result = await unicoreService.issueCredential(request);
+
+            if (result.success) {
+                const wasOpen = credential.status === 'offered';
+                const withdrawWarning = wasOpen ? await withdrawOffer(credential.id) : undefined;
+                const issued = toIssuedCredential(request, result);
+                const newCredential = withdrawWarning
+                    ? { ...issued, warnings: [...(issued.warnings ?? []), withdrawWarning] }
+                    : issued;
+                const now = new Date().toISOString();
+                setIssuedCredentials(prev => [
+                    newCredential,
+                    ...prev.map(item => item.id === credential.id && wasOpen && !withdrawWarning
+                        ? { ...item, status: 'removed' as const, statusReason: 'Withdrawn when the offer was re-issued', statusUpdatedAt: now }
+                        : item),
+                ]);
+                setSuccess(!wasOpen
+                    ? `New ${credential.type} offer issued`
+                    : withdrawWarning
+                        ? `New ${credential.type} offer issued, but the previous offer is still open`
+                        : `New ${credential.type} offer issued; the previous offer was withdrawn`);
+                setSelectedCredential(newCredential);
+                setShowDetailsDialog(false);
+                setShowQRDialog(true);
+            } else {
+                showFailure(result, 'Failed to re-issue credential');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    /** Uploads the status lists of `type` so verifiers see the current bits. */
+    const publishStatus = async (type: string, done: string) => {
+        setIsPublishingStatus(true);
+        try {
+            await publishStatusLists(type);
+            setStatusNotice({ failed: false, text: `${done}; the ${type} status lists are published.` });
+        } catch (error) {
+            setStatusNotice({
+                failed: true,
+                text: `${done} here, but the ${type} status lists could not be published: ${getErrorMessage(error)}. ` +
+                    'Verifiers see the previous status until they are; check that the status list URL accepts PUT uploads.',
+            });
+        } finally {
+            setStatusLists(loadStatusLists());
+            setIsPublishingStatus(false);
+        }
+    };
+
+    /**
+     * Revokes, suspends or reinstates the credential and publishes its type's
+     * lists. A revocation bitmap only records revocations; its change takes
+     * effect once the DID document update is published.
+     */
+    const changeCredentialStatus = async (credential: IssuedCredential, action: StatusAction) => {
+        const index = statusIndexOf(credential.credentialStatus);
+        const bitmap = credential.revocationBitmapStatus && parseRevocationBitmapEntry(credential.revocationBitmapStatus);
+        if (index === undefined && !bitmap) return;
+
+        setRevokeConfirmId(null);
+        try {
+            if (index !== undefined) {
+                const lists = applyStatusAction(loadStatusLists(), credential.type, index, action);
+                saveStatusLists(lists);
+                setStatusLists(lists);
+            }
+            if (bitmap && action === 'revoke') {
+                const bitmaps = revokeInBitmap(loadRevocationBitmaps(), bitmap.did, bitmap.index);
+                saveRevocationBitmaps(bitmaps);
+                setRevocationBitmaps(bitmaps);
+            }
+        } catch (error) {
+            setStatusNotice({ failed: true, text: getErrorMessage(error) });
+            return;
+        }
+
+        const done = `${credential.type} credential ${STATUS_ACTION_RESULTS[action]}`;
+        if (index !== undefined) {
+            await publishStatus(credential.type, done);
+        } else {
+            setStatusNotice({
+                failed: false,
+                text: `${done} here. Export the DID document update and publish it as the controller of ${bitmap!.did}.`,
+            });
+        }
+    };
+
+    /** Downloads the issuer DID document with its revocation bitmap brought up to date. */
+    const exportBitmapUpdate = async (did: string) => {
+        setIsPublishingStatus(true);
+        try {
+            const document = await buildRevocationBitmapUpdate(did);
+            downloadFile(
+                `${did.replace(/:/g, '-')}-document.json`,
+                JSON.stringify(document.toJSON(), null, 2),
+                'application/json'
+            );
+            setStatusNotice({
+                failed: false,
+                text: 'DID document update downloaded. Verifiers see the change once the DID controller publishes it.',
+            });
+        } catch (error) {
+            setStatusNotice({
+                failed: true,
+                text: `Could not build the DID document update for ${did}: ${getErrorMessage(error)}`,
+            });
+        } finally {
+            setRevocationBitmaps(loadRevocationBitmaps());
+            setIsPublishingStatus(false);
+        }
+    };
+
     const createVerificationRequest = async () => {
         if (verificationTypes.length === 0) {
             setError('Please select at least one credential type to verify');
@@ -282,30 +699,13 @@ export const ModernCredentialsManager: React.FC = () => {
         clearMessages();
 
         try {
-            const result = await unicoreService.createVerificationRequest(verificationTypes);
+            const result = await unicoreService.createVerificationRequest(verificationTypes, undefined, { walletProfile });
 
             if (result.success) {
-                const newVerification: VerificationRequest = {
-                    id: result.authorizationRequestId!,
-                    types: verificationTypes,
-                    authorizationUrl: result.authorizationUrl!,
-                    timestamp: new Date().toISOString(),
-                    status: 'active',
-                };
-
-                setVerificationRequests(prev => [newVerification, ...prev]);
+                openVerification(result, verificationTypes);
                 setSuccess('Verification request created successfully!');
-
-                setSelectedCredential({
-                    id: newVerification.id,
-                    type: 'Verification Request',
-                    offerUrl: newVerification.authorizationUrl,
-                    timestamp: newVerification.timestamp,
-                    status: 'issued',
-                });
-                setShowQRDialog(true);
             } else {
-                setError(result.error || 'Failed to create verification request');
+                showFailure(result, 'Failed to create verification request');
             }
         } catch (error) {
             setError(error instanceof Error ? error.message : 'Unknown error occurred');
@@ -314,6 +714,57 @@ export const ModernCredentialsManager: React.FC = () => {
         }
     };
 
+    const createCustomVerificationRequest = async (query: VerificationQuery, types: string[]) => {
+        setIsLoading(true);
+        clearMessages();
+
+        try {
+            const result = await unicoreService.createVerificationRequestForQuery(query);
+
+            if (result.success) {
+                openVerification(result, types);
+                setSuccess('Verification request with custom rules created!');
+            } else {
+                showFailure(result, 'Failed to create verification request');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    /** Records a created verification request and shows its QR code. */
+    const openVerification = (result: VerificationResult, types: string[]) => {
+        const newVerification: VerificationRequest = {
+            id: result.authorizationRequestId!,
+            types,
+            authorizationUrl: result.authorizationUrl!,
+            timestamp: new Date().toISOString(),
+            status: 'waiting',
+            query: result.query,
+            state: result.state,
+            nonce: result.nonce,
+            clientId: result.clientId,
+            expiresAt: getOfferExpiry(
+                verificationLifetime === 'default' ? config.verificationLifetimeMinutes : Number(verificationLifetime)
+            ),
+        };
+
+        setVerificationRequests(prev => [newVerification, ...prev]);
+        setSessionId(newVerification.id);
+    };
+
+    const updateVerificationRequest = (id: string, update: Partial<VerificationRequest>) => {
+        setVerificationRequests(prev => prev.map(request =>
+            request.id === id ? applyVerificationUpdate(request, update) : request
+        ));
+    };
+
+    // A new tab keeps this dialog open, so offer and verification polling go on.
+    const openTestWallet = (type: string, url: string) => {
+        const param = type === 'Verification Request' ? 'request' : 'offer';
+        window.open(`/wallet?${param}=${encodeURIComponent(url)}`, '_blank', 'noopener');
+    };
+
     const showCredentialQR = (credential: IssuedCredential) => {
         setSelectedCredential(credential);
         setShowQRDialog(true);
@@ -321,6 +772,8 @@ export const ModernCredentialsManager: React.FC = () => {
 
     const showCredentialDetails = (credential: IssuedCredential) => {
         setSelectedCredential(credential);
+        setStatusNotice(null);
+        setRevokeConfirmId(null);
         setShowDetailsDialog(true);
     };
 
@@ -333,6 +786,42 @@ export const ModernCredentialsManager: React.FC = () => {
         }
     };
 
+    const syncOfferStatuses = async (
+        offerIds: string[],
+        options: { signal?: AbortSignal; reportErrors?: boolean } = {}
+    ) => {
+        try {
+            const updates = await fetchOfferStatuses(offerIds, { signal: options.signal });
+            const now = new Date().toISOString();
+
+            setIssuedCredentials(prev => prev.map(credential => {
+                const update = updates.get(credential.id);
+                if (!update || update.status === credential.status) return credential;
+                return { ...credential, status: update.status, statusReason: update.reason, statusUpdatedAt: now };
+            }));
+
+            const redeemed = [...updates.values()].filter(update => update.status === 'redeemed').length;
+            if (redeemed > 0) {
+                setSuccess(`${redeemed} offer${redeemed > 1 ? 's were' : ' was'} redeemed by the holder`);
+            }
+        } catch (error) {
+            if (getErrorKind(error) === 'aborted') return;
+            if (options.reportErrors) {
+                showFailure({ error: getErrorMessage(error), errorKind: getErrorKind(error) }, 'Failed to refresh offer status');
+            } else {
+                console.warn('Offer status sync failed:', error);
+            }
+        }
+    };
+
+    const recordDelivery = (credentialId: string, delivery: OfferDelivery) => {
+        setIssuedCredentials(prev => prev.map(credential =>
+            credential.id === credentialId
+                ? { ...credential, deliveries: [...(credential.deliveries ?? []), delivery] }
+                : credential
+        ));
+    };
+
     const clearAllCredentials = () => {
         setIssuedCredentials([]);
         setSuccess('All credentials cleared');
@@ -343,6 +832,36 @@ export const ModernCredentialsManager: React.FC = () => {
         setSuccess('All verification requests cleared');
     };
 
+    const sendOfferCredential = issuedCredentials.find(credential => credential.id === sendOfferId);
+    const sessionRequest = verificationRequests.find(request => request.id === sessionId);
+    const bitmapOf = (credential: IssuedCredential) =>
+        credential.revocationBitmapStatus && parseRevocationBitmapEntry(credential.revocationBitmapStatus);
+
+    const statusOf = (credential: IssuedCredential): CredentialStatusValue | undefined => {
+        const index = statusIndexOf(credential.credentialStatus);
+        const listed = index === undefined ? undefined : getCredentialStatus(statusLists, credential.type, index);
+        const bitmap = bitmapOf(credential);
+        if (bitmap && isBitmapRevoked(revocationBitmaps, bitmap.did, bitmap.index)) {
+            return 'revoked';
+        }
+        return listed ?? (bitmap ? 'active' : undefined);
+    };
+
+    // Dialogs follow the stored entry so status changes show while they are open.
+    const detailsCredential = issuedCredentials.find(credential => credential.id === selectedCredential?.id) ?? selectedCredential;
+    const isOfferExpired = detailsCredential?.status === 'expired';
+    const detailsStatus = detailsCredential && statusOf(detailsCredential);
+    const detailsListIndex = detailsCredential && statusIndexOf(detailsCredential.credentialStatus);
+    const detailsStatusList = detailsListIndex !== undefined && detailsCredential && statusLists[detailsCredential.type];
+    const isStatusUnpublished = !!detailsStatusList &&
+        (!detailsStatusList.publishedAt || detailsStatusList.publishedAt < detailsStatusList.updatedAt);
+    const detailsBitmap = detailsCredential && bitmapOf(detailsCredential);
+    const detailsBitmapRecord = detailsBitmap && revocationBitmaps[detailsBitmap.did];
+    const isBitmapUnexported = !!detailsBitmapRecord && detailsBitmapRecord.revoked.length > 0 &&
+        (!detailsBitmapRecord.exportedAt || detailsBitmapRecord.exportedAt < detailsBitmapRecord.updatedAt);
+    const formatWarning = detailsCredential &&
+        getFormatWarning(getWalletProfile(detailsCredential.walletProfile), detailsCredential.credentialFormat);
+
     const getCredentialColor = (type: string): 'blue' | 'green' | 'purple' | 'red' | 'orange' => {
         const colorMap: Record<string, 'blue' | 'green' | 'purple' | 'red' | 'orange'> = {
             'TravelDocument': 'blue',
@@ -365,6 +884,24 @@ export const ModernCredentialsManager: React.FC = () => {
         return emojiMap[type] || '📄';
     };
 
+    const refreshMetadata = async () => {
+        setIsLoading(true);
+        clearMessages();
+
+        try {
+            await unicoreService.refreshMetadata();
+            await checkHealth();
+            setSuccess('Agent metadata refreshed');
+        } catch (error) {
+            showFailure(
+                { error: getErrorMessage(error), errorKind: getErrorKind(error) },
+                'Failed to refresh agent metadata'
+            );
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
     const testUniCoreFlow = async () => {
         setIsLoading(true);
         clearMessages();
@@ -375,7 +912,7 @@ export const ModernCredentialsManager: React.FC = () => {
             if (result.success) {
                 setSuccess('UniCore flow test completed successfully!');
             } else {
-                setError(result.error || 'UniCore flow test failed');
+                showFailure(result, 'UniCore flow test failed');
             }
         } catch (error) {
             setError(error instanceof Error ? error.message : 'Test failed');
@@ -399,11 +936,23 @@ export const ModernCredentialsManager: React.FC = () => {
                     <Text size="2" weight="medium">
                         UniCore Service: {healthStatus?.api ? 'Connected' : 'Disconnected'}
                     </Text>
+                    <Badge
+                        color={config.environment === 'production' ? 'red' : 'gray'}
+                        title={`Agent: ${config.agentUrl} (via ${getAgentBaseUrl(config)})`}
+                        style={{ cursor: 'pointer' }}
+                        onClick={() => setActiveTab('settings')}
+                    >
+                        {config.environment}
+                    </Badge>
+                    <Text size="1" color="gray">{config.agentUrl}</Text>
                 </Flex>
                 <Flex gap="2">
-                    <Button size="1" variant="soft" onClick={checkHealth}>
+                    <Button size="1" variant="soft" onClick={checkHealth} title="Check connection">
                         <ReloadIcon />
                     </Button>
+                    <Button size="1" variant="soft" onClick={refreshMetadata} disabled={isLoading}>
+                        Refresh Metadata
+                    </Button>
                     <Button size="1" variant="soft" onClick={testUniCoreFlow} disabled={isLoading}>
                         Test Flow
                     </Button>
@@ -683,46 +1232,84 @@ export const ModernCredentialsManager: React.FC = () => {
         return null;
     };
 
-    const renderCredentialCard = (credential: IssuedCredential) => (
-        <Card key={credential.id} size="2" style={{
-            borderLeft: `4px solid var(--${getCredentialColor(credential.type)}-9)`,
-            background: `linear-gradient(135deg, var(--${getCredentialColor(credential.type)}-2) 0%, var(--gray-2) 100%)`
-        }}>
-            <Flex justify="between" align="start">
-                <Flex direction="column" gap="2" style={{ flex: 1 }}>
-                    <Flex align="center" gap="2">
-                        <Text size="4">{getCredentialEmoji(credential.type)}</Text>
-                        <Text size="3" weight="bold">{credential.type}</Text>
-                        <Badge color={getCredentialColor(credential.type)}>
-                            {credential.status}
-                        </Badge>
+    const renderCredentialCard = (credential: IssuedCredential) => {
+        const lastDelivery = credential.deliveries?.[credential.deliveries.length - 1];
+        const credentialStatus = statusOf(credential);
+
+        return (
+            <Card key={credential.id} size="2" style={{
+                borderLeft: `4px solid var(--${getCredentialColor(credential.type)}-9)`,
+                background: `linear-gradient(135deg, var(--${getCredentialColor(credential.type)}-2) 0%, var(--gray-2) 100%)`
+            }}>
+                <Flex justify="between" align="start">
+                    <Flex direction="column" gap="2" style={{ flex: 1 }}>
+                        <Flex align="center" gap="2">
+                            <Text size="4">{getCredentialEmoji(credential.type)}</Text>
+                            <Text size="3" weight="bold">{credential.type}</Text>
+                            <Badge color={OFFER_STATUS_COLORS[credential.status]}>
+                                {credential.status}
+                            </Badge>
+                            {credentialStatus && credentialStatus !== 'active' && (
+                                <Badge color={CREDENTIAL_STATUS_COLORS[credentialStatus]}>
+                                    {credentialStatus}
+                                </Badge>
+                            )}
+                        </Flex>
+                        <Text size="1" color="gray">ID: {credential.id}</Text>
+                        <Text size="1" color="gray">
+                            Issued: {new Date(credential.timestamp).toLocaleString()}
+                        </Text>
+                        {credential.status === 'offered' && credential.offerExpiresAt && (
+                            <OfferCountdown expiresAt={credential.offerExpiresAt} size="1" />
+                        )}
+                        {credential.statusReason && (
+                            <Text size="1" color="gray">{credential.statusReason}</Text>
+                        )}
+                        {lastDelivery && (
+                            <Text size="1" color={lastDelivery.status === 'failed' ? 'red' : 'green'}>
+                                Last delivery: {lastDelivery.status} to {lastDelivery.recipient}
+                            </Text>
+                        )}
+                    </Flex>
+                    <Flex gap="1">
+                        <IconButton
+                            size="1"
+                            variant="soft"
+                            onClick={() => setSendOfferId(credential.id)}
+                            title="Send Offer"
+                        >
+                            <PaperPlaneIcon />
+                        </IconButton>
+                        <IconButton
+                            size="1"
+                            variant="soft"
+                            onClick={() => reissueCredential(credential)}
+                            disabled={!credential.request || isLoading || !healthStatus?.api}
+                            title="Re-issue Offer"
+                        >
+                            <UpdateIcon />
+                        </IconButton>
+                        <IconButton
+                            size="1"
+                            variant="soft"
+                            onClick={() => showCredentialQR(credential)}
+                            title="Show QR Code"
+                        >
+                            <Share1Icon />
+                        </IconButton>
+                        <IconButton
+                            size="1"
+                            variant="soft"
+                            onClick={() => showCredentialDetails(credential)}
+                            title="View Details"
+                        >
+                            <EyeOpenIcon />
+                        </IconButton>
                     </Flex>
-                    <Text size="1" color="gray">ID: {credential.id}</Text>
-                    <Text size="1" color="gray">
-                        Issued: {new Date(credential.timestamp).toLocaleString()}
-                    </Text>
-                </Flex>
-                <Flex gap="1">
-                    <IconButton
-                        size="1"
-                        variant="soft"
-                        onClick={() => showCredentialQR(credential)}
-                        title="Show QR Code"
-                    >
-                        <Share1Icon />
-                    </IconButton>
-                    <IconButton
-                        size="1"
-                        variant="soft"
-                        onClick={() => showCredentialDetails(credential)}
-                        title="View Details"
-                    >
-                        <EyeOpenIcon />
-                    </IconButton>
                 </Flex>
-            </Flex>
-        </Card>
-    );
+            </Card>
+        );
+    };
 
     const renderVerificationCard = (verification: VerificationRequest) => (
         <Card key={verification.id} size="2">
@@ -731,28 +1318,36 @@ export const ModernCredentialsManager: React.FC = () => {
                     <Flex align="center" gap="2">
                         <Avatar size="1" fallback="V" />
                         <Text size="3" weight="bold">Verification Request</Text>
-                        <Badge color={verification.status === 'active' ? 'blue' : 'gray'}>
-                            {verification.status}
-                        </Badge>
+                        <VerificationStatusBadge status={verification.status} />
                     </Flex>
                     <Text size="1" color="gray">Types: {verification.types.join(', ')}</Text>
                     <Text size="1" color="gray">
                         Created: {new Date(verification.timestamp).toLocaleString()}
+                        {verification.query && ` · ${QUERY_LANGUAGE_LABELS[verification.query.language]}`}
                     </Text>
+                    {verification.evaluation && (
+                        <Flex direction="column" gap="1">
+                            <Badge color={verification.evaluation.satisfied ? 'green' : 'red'} style={{ alignSelf: 'flex-start' }}>
+                                {verification.evaluation.satisfied ? 'Request satisfied' : 'Request not satisfied'}
+                            </Badge>
+                            {verification.evaluation.error && (
+                                <Text size="1" color="red">{verification.evaluation.error}</Text>
+                            )}
+                            {verification.evaluation.items.map(item => (
+                                <Text key={item.id} size="1" color={item.satisfied ? 'green' : 'red'}>
+                                    {item.satisfied ? '✓' : '✗'} {item.id}{item.reason && ` — ${item.reason}`}
+                                </Text>
+                            ))}
+                        </Flex>
+                    )}
                 </Flex>
                 <IconButton
                     size="1"
                     variant="soft"
-                    onClick={() => showCredentialQR({
-                        id: verification.id,
-                        type: 'Verification Request',
-                        offerUrl: verification.authorizationUrl,
-                        timestamp: verification.timestamp,
-                        status: 'issued',
-                    })}
-                    title="Show QR Code"
+                    onClick={() => setSessionId(verification.id)}
+                    title="Open Session"
                 >
-                    <Share1Icon />
+                    <EyeOpenIcon />
                 </IconButton>
             </Flex>
         </Card>
@@ -787,9 +1382,17 @@ export const ModernCredentialsManager: React.FC = () => {
 
                 {error && (
                     <Card size="2" style={{ backgroundColor: 'var(--red-2)', border: '1px solid var(--red-6)' }}>
-                        <Flex align="center" gap="2">
-                            <Cross2Icon color="var(--red-11)" />
-                            <Text color="red" size="2">{error}</Text>
+                        <Flex align="start" gap="2">
+                            <Cross2Icon color="var(--red-11)" style={{ marginTop: '2px' }} />
+                            <Flex direction="column" gap="1">
+                                {getErrorTitle(errorKind) && (
+                                    <Text color="red" size="2" weight="bold">{getErrorTitle(errorKind)}</Text>
+                                )}
+                                <Text color="red" size="2">{error}</Text>
+                                {getErrorHint(errorKind) && (
+                                    <Text color="gray" size="1">{getErrorHint(errorKind)}</Text>
+                                )}
+                            </Flex>
                         </Flex>
                     </Card>
                 )}
@@ -807,8 +1410,11 @@ export const ModernCredentialsManager: React.FC = () => {
             <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
                 <Tabs.List size="2">
                     <Tabs.Trigger value="issue">🌍 Issue Credentials</Tabs.Trigger>
+                    <Tabs.Trigger value="bulk">📦 Bulk Issue</Tabs.Trigger>
                     <Tabs.Trigger value="verify">✅ Verify Credentials</Tabs.Trigger>
                     <Tabs.Trigger value="manage">📋 My Credentials</Tabs.Trigger>
+                    <Tabs.Trigger value="identity">🪪 Issuer Identity</Tabs.Trigger>
+                    <Tabs.Trigger value="settings">⚙️ Settings</Tabs.Trigger>
                 </Tabs.List>
 
                 <Tabs.Content value="issue">
@@ -974,6 +1580,80 @@ export const ModernCredentialsManager: React.FC = () => {
 
                             {renderCredentialTypeFields()}
 
+                            <Box>
+                                <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                    Offer Valid For
+                                </Text>
+                                <Select.Root value={offerLifetime} onValueChange={setOfferLifetime}>
+                                    <Select.Trigger />
+                                    <Select.Content>
+                                        <Select.Item value="default">
+                                            Type default ({formatLifetime(getOfferLifetime(form.type, config))})
+                                        </Select.Item>
+                                        {OFFER_LIFETIME_PRESETS.map(minutes => (
+                                            <Select.Item key={minutes} value={String(minutes)}>
+                                                {formatLifetime(minutes)}
+                                            </Select.Item>
+                                        ))}
+                                    </Select.Content>
+                                </Select.Root>
+                            </Box>
+
+                            <Box>
+                                <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                    Credential Format
+                                </Text>
+                                <Select.Root
+                                    value={issuanceFormat}
+                                    onValueChange={(value) => setIssuanceFormat(value as IssuanceFormat | 'default')}
+                                >
+                                    <Select.Trigger />
+                                    <Select.Content>
+                                        <Select.Item value="default">Agent default for the type</Select.Item>
+                                        {ISSUANCE_FORMATS.map(format => (
+                                            <Select.Item key={format} value={format}>
+                                                {ISSUANCE_FORMAT_LABELS[format]}
+                                            </Select.Item>
+                                        ))}
+                                    </Select.Content>
+                                </Select.Root>
+                                {issuanceFormat === 'vc+sd-jwt' && (
+                                    <Text size="1" color="gray" style={{ display: 'block', marginTop: '0.25rem' }}>
+                                        {getDisclosableClaims(form.type, config).length > 0
+                                            ? `Holders can withhold: ${getDisclosableClaims(form.type, config).join(', ')}`
+                                            : 'No claims of this type are selectively disclosable'}
+                                    </Text>
+                                )}
+                            </Box>
+
+                            <Box>
+                                <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                    Target Wallet
+                                </Text>
+                                <Select.Root value={walletProfile} onValueChange={setWalletProfile}>
+                                    <Select.Trigger />
+                                    <Select.Content>
+                                        {WALLET_PROFILES.map(profile => (
+                                            <Select.Item key={profile.id} value={profile.id}>{profile.name}</Select.Item>
+                                        ))}
+                                    </Select.Content>
+                                </Select.Root>
+                                <Text size="1" color="gray" style={{ display: 'block', marginTop: '0.25rem' }}>
+                                    {getWalletProfile(walletProfile).description}
+                                </Text>
+                            </Box>
+
+                            <Flex align="center" gap="2">
+                                <Switch
+                                    checked={requirePin ?? getTxCodePolicy(form.type, config) !== false}
+                                    onCheckedChange={setRequirePin}
+                                />
+                                <Text size="2">Require PIN</Text>
+                                <Text size="1" color="gray">
+                                    The wallet asks for a PIN that you share separately from the offer
+                                </Text>
+                            </Flex>
+
                             <Button
                                 size="4"
                                 onClick={issueCredential}
@@ -992,11 +1672,51 @@ export const ModernCredentialsManager: React.FC = () => {
                     </Card>
                 </Tabs.Content>
 
+                <Tabs.Content value="bulk">
+                    <BulkIssuancePanel disabled={!healthStatus?.api} onIssued={handleBulkIssued} />
+                </Tabs.Content>
+
                 <Tabs.Content value="verify">
                     <Card size="3" style={{ marginTop: '1rem' }}>
                         <Flex direction="column" gap="4">
                             <Heading size="4">Create Verification Request</Heading>
 
+                            <Box>
+                                <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                    Holder Wallet
+                                </Text>
+                                <Select.Root value={walletProfile} onValueChange={setWalletProfile}>
+                                    <Select.Trigger />
+                                    <Select.Content>
+                                        {WALLET_PROFILES.map(profile => (
+                                            <Select.Item key={profile.id} value={profile.id}>{profile.name}</Select.Item>
+                                        ))}
+                                    </Select.Content>
+                                </Select.Root>
+                                <Text size="1" color="gray" style={{ display: 'block', marginTop: '0.25rem' }}>
+                                    Requests are written in {QUERY_LANGUAGE_LABELS[getWalletProfile(walletProfile).queryLanguage]}
+                                </Text>
+                            </Box>
+
+                            <Box>
+                                <Text size="2" weight="medium" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                    Request Valid For
+                                </Text>
+                                <Select.Root value={verificationLifetime} onValueChange={setVerificationLifetime}>
+                                    <Select.Trigger />
+                                    <Select.Content>
+                                        <Select.Item value="default">
+                                            Default ({formatLifetime(config.verificationLifetimeMinutes)})
+                                        </Select.Item>
+                                        {VERIFICATION_LIFETIME_PRESETS.map(minutes => (
+                                            <Select.Item key={minutes} value={String(minutes)}>
+                                                {formatLifetime(minutes)}
+                                            </Select.Item>
+                                        ))}
+                                    </Select.Content>
+                                </Select.Root>
+                            </Box>
+
                             <Box>
                                 <Text size="3" weight="bold" style={{ display: 'block', marginBottom: '1rem' }}>
                                     Option 1: Verify by Credential Type
@@ -1034,10 +1754,26 @@ export const ModernCredentialsManager: React.FC = () => {
 
                             <Separator />
 
+                            <Box>
+                                <Text size="3" weight="bold" style={{ display: 'block', marginBottom: '1rem' }}>
+                                    Option 2: Verify with Custom Rules
+                                </Text>
+                                <Text size="2" color="gray" style={{ display: 'block', marginBottom: '1rem' }}>
+                                    Require claim values, dates or ranges, and limit which claims the holder reveals
+                                </Text>
+                                <PresentationDefinitionComposer
+                                    disabled={isLoading || !healthStatus?.api}
+                                    language={getWalletProfile(walletProfile).queryLanguage}
+                                    onCreate={createCustomVerificationRequest}
+                                />
+                            </Box>
+
+                            <Separator />
+
                             {issuedCredentials.length > 0 && (
                                 <Box>
                                     <Text size="3" weight="bold" style={{ display: 'block', marginBottom: '1rem' }}>
-                                        Option 2: Verify Specific Issued Credential
+                                        Option 3: Verify Specific Issued Credential
                                     </Text>
                                     <Text size="2" color="gray" style={{ display: 'block', marginBottom: '1rem' }}>
                                         Request presentation of a specific credential you issued
@@ -1058,28 +1794,15 @@ export const ModernCredentialsManager: React.FC = () => {
                                                             clearMessages();
                                                             try {
                                                                 const result = await unicoreService.createVerificationForCredential(
-                                                                    credential.type
+                                                                    credential.type,
+                                                                    undefined,
+                                                                    { walletProfile }
                                                                 );
                                                                 if (result.success) {
-                                                                    const newVerification: VerificationRequest = {
-                                                                        id: result.authorizationRequestId!,
-                                                                        types: [credential.type],
-                                                                        authorizationUrl: result.authorizationUrl!,
-                                                                        timestamp: new Date().toISOString(),
-                                                                        status: 'active',
-                                                                    };
-                                                                    setVerificationRequests(prev => [newVerification, ...prev]);
+                                                                    openVerification(result, [credential.type]);
                                                                     setSuccess(`Verification request created for ${credential.type}!`);
-                                                                    setSelectedCredential({
-                                                                        id: newVerification.id,
-                                                                        type: 'Verification Request',
-                                                                        offerUrl: newVerification.authorizationUrl,
-                                                                        timestamp: newVerification.timestamp,
-                                                                        status: 'issued',
-                                                                    });
-                                                                    setShowQRDialog(true);
                                                                 } else {
-                                                                    setError(result.error || 'Failed to create verification');
+                                                                    showFailure(result, 'Failed to create verification');
                                                                 }
                                                             } catch (error) {
                                                                 setError(error instanceof Error ? error.message : 'Unknown error');
@@ -1122,9 +1845,20 @@ export const ModernCredentialsManager: React.FC = () => {
                             <Flex justify="between" align="center">
                                 <Heading size="4">Issued Credentials ({issuedCredentials.length})</Heading>
                                 {issuedCredentials.length > 0 && (
-                                    <Button size="2" variant="soft" color="red" onClick={clearAllCredentials}>
-                                        Clear All
-                                    </Button>
+                                    <Flex gap="2">
+                                        <Button
+                                            size="2"
+                                            variant="soft"
+                                            disabled={!openOfferKey}
+                                            onClick={() => syncOfferStatuses(openOfferKey.split(','), { reportErrors: true })}
+                                        >
+                                            <ReloadIcon />
+                                            Refresh Status
+                                        </Button>
+                                        <Button size="2" variant="soft" color="red" onClick={clearAllCredentials}>
+                                            Clear All
+                                        </Button>
+                                    </Flex>
                                 )}
                             </Flex>
 
@@ -1140,9 +1874,23 @@ export const ModernCredentialsManager: React.FC = () => {
                         </Flex>
                     </Card>
                 </Tabs.Content>
+
+                <Tabs.Content value="identity">
+                    <IssuerIdentityPanel disabled={!healthStatus?.api} />
+                </Tabs.Content>
+
+                <Tabs.Content value="settings">
+                    <SettingsPanel onSaved={checkHealth} />
+                </Tabs.Content>
             </Tabs.Root>
 
-            <Dialog.Root open={showQRDialog} onOpenChange={setShowQRDialog}>
+            <Dialog.Root
+                open={showQRDialog}
+                onOpenChange={(open) => {
+                    setShowQRDialog(open);
+                    setShowTxCode(false);
+                }}
+            >
                 <Dialog.Content style={{ maxWidth: '500px' }}>
                     <Dialog.Title>QR Code - {selectedCredential?.type}</Dialog.Title>
                     <Dialog.Description>
@@ -1152,16 +1900,96 @@ export const ModernCredentialsManager: React.FC = () => {
                     <Flex direction="column" align="center" gap="4" style={{ margin: '2rem 0' }}>
                         {selectedCredential && (
                             <>
-                                <QRCodeGenerator
-                                    data={selectedCredential.offerUrl}
-                                    size={300}
-                                />
-                                <Button
-                                    variant="soft"
-                                    onClick={() => copyToClipboard(selectedCredential.offerUrl)}
-                                >
-                                    Copy Offer URL
-                                </Button>
+                                {isOfferExpired ? (
+                                    <Flex direction="column" align="center" gap="3" style={{ padding: '2rem' }}>
+                                        <Text size="3" color="red" weight="bold">This offer has expired</Text>
+                                        <Button
+                                            onClick={() => reissueCredential(detailsCredential!)}
+                                            disabled={!detailsCredential?.request || isLoading}
+                                        >
+                                            <UpdateIcon />
+                                            Re-issue Offer
+                                        </Button>
+                                    </Flex>
+                                ) : (
+                                    <QRCodeGenerator
+                                        data={detailsCredential?.offerUrl ?? selectedCredential.offerUrl}
+                                        size={300}
+                                    />
+                                )}
+                                {detailsCredential?.agentOfferUrl && (
+                                    <Flex direction="column" align="center" gap="1">
+                                        <Flex align="center" gap="2">
+                                            <Text size="2">Wallet</Text>
+                                            <Select.Root
+                                                value={detailsCredential.walletProfile ?? config.walletProfile}
+                                                onValueChange={(value) => changeWalletProfile(detailsCredential, value)}
+                                                disabled={isAdaptingOffer}
+                                            >
+                                                <Select.Trigger />
+                                                <Select.Content>
+                                                    {WALLET_PROFILES.map(profile => (
+                                                        <Select.Item key={profile.id} value={profile.id}>{profile.name}</Select.Item>
+                                                    ))}
+                                                </Select.Content>
+                                            </Select.Root>
+                                        </Flex>
+                                        {formatWarning && <Text size="1" color="orange">{formatWarning}</Text>}
+                                    </Flex>
+                                )}
+                                {detailsCredential?.status === 'offered' && detailsCredential.offerExpiresAt && (
+                                    <OfferCountdown expiresAt={detailsCredential.offerExpiresAt} />
+                                )}
+                                {detailsCredential?.txCode && (
+                                    <Box style={{ width: '100%', padding: '0.75rem', backgroundColor: 'var(--amber-2)', borderRadius: '8px' }}>
+                                        <Flex justify="between" align="center" gap="2">
+                                            <Text size="2" weight="bold">Transaction PIN</Text>
+                                            <Flex align="center" gap="2">
+                                                <Text size="4" style={{ fontFamily: 'monospace', letterSpacing: '0.2em' }}>
+                                                    {showTxCode
+                                                        ? detailsCredential.txCode.value
+                                                        : '•'.repeat(detailsCredential.txCode.length)}
+                                                </Text>
+                                                <Button size="1" variant="soft" onClick={() => setShowTxCode(prev => !prev)}>
+                                                    {showTxCode ? 'Hide' : 'Reveal'}
+                                                </Button>
+                                            </Flex>
+                                        </Flex>
+                                        <Text size="1" color="gray" style={{ display: 'block', marginTop: '0.25rem' }}>
+                                            Not part of the QR code. Give it to the holder through another channel.
+                                            It is not saved, so it is gone once this page is closed.
+                                        </Text>
+                                    </Box>
+                                )}
+                                {!detailsCredential?.txCode && detailsCredential?.requiresTxCode && (
+                                    <Text size="1" color="gray">
+                                        This offer needs a PIN. PINs are shown only in the session that issued them;
+                                        re-issue the offer if the holder does not have it.
+                                    </Text>
+                                )}
+                                {detailsCredential?.warnings?.map(warning => (
+                                    <Text key={warning} size="1" color="orange">{warning}</Text>
+                                ))}
+                                <Flex gap="2">
+                                    <Button
+                                        variant="soft"
+                                        onClick={() => copyToClipboard(detailsCredential?.offerUrl ?? selectedCredential.offerUrl)}
+                                    >
+                                        Copy Offer URL
+                                    </Button>
+                                    <Button variant="soft" onClick={() => setSendOfferId(selectedCredential.id)}>
+                                        <PaperPlaneIcon />
+                                        Send Offer
+                                    </Button>
+                                    {detailsCredential?.status === 'offered' && !isOfferExpired && (
+                                        <Button variant="soft" onClick={() => openTestWallet(
+                                                selectedCredential.type,
+                                                detailsCredential?.offerUrl ?? selectedCredential.offerUrl
+                                            )}>
+                                            Open in Test Wallet
+                                        </Button>
+                                    )}
+                                </Flex>
                             </>
                         )}
                     </Flex>
@@ -1174,29 +2002,175 @@ export const ModernCredentialsManager: React.FC = () => {
                 </Dialog.Content>
             </Dialog.Root>
 
+            <Dialog.Root open={!!sessionRequest} onOpenChange={(open) => !open && setSessionId(null)}>
+                <Dialog.Content style={{ maxWidth: '560px' }}>
+                    <Dialog.Title>Verification Session</Dialog.Title>
+                    <Dialog.Description>
+                        {sessionRequest?.types.join(', ')} · started {sessionRequest && new Date(sessionRequest.timestamp).toLocaleString()}
+                    </Dialog.Description>
+
+                    {sessionRequest && (
+                        <Box style={{ margin: '1rem 0' }}>
+                            <VerificationSession
+                                request={sessionRequest}
+                                onUpdate={(update) => updateVerificationRequest(sessionRequest.id, update)}
+                                onCopy={copyToClipboard}
+                                onOpenTestWallet={(url) => openTestWallet('Verification Request', url)}
+                            />
+                        </Box>
+                    )}
+
+                    <Flex gap="3" justify="end">
+                        <Dialog.Close>
+                            <Button variant="soft" color="gray">Close</Button>
+                        </Dialog.Close>
+                    </Flex>
+                </Dialog.Content>
+            </Dialog.Root>
+
             <Dialog.Root open={showDetailsDialog} onOpenChange={setShowDetailsDialog}>
                 <Dialog.Content style={{ maxWidth: '700px' }}>
                     <Dialog.Title>Credential Details</Dialog.Title>
 
-                    {selectedCredential && (
+                    {detailsCredential && (
                         <Flex direction="column" gap="4" style={{ margin: '1rem 0' }}>
+                            <Flex align="center" gap="2">
+                                <Text size="2" weight="bold">Offer Status</Text>
+                                <Badge color={OFFER_STATUS_COLORS[detailsCredential.status]}>{detailsCredential.status}</Badge>
+                                {detailsCredential.statusUpdatedAt && (
+                                    <Text size="1" color="gray">
+                                        since {new Date(detailsCredential.statusUpdatedAt).toLocaleString()}
+                                    </Text>
+                                )}
+                            </Flex>
+                            {detailsCredential.statusReason && (
+                                <Text size="2" color="gray">{detailsCredential.statusReason}</Text>
+                            )}
+
+                            {detailsStatus ? (
+                                <Flex direction="column" gap="2">
+                                    <Flex align="center" gap="2">
+                                        <Text size="2" weight="bold">Credential Status</Text>
+                                        <Badge color={CREDENTIAL_STATUS_COLORS[detailsStatus]}>{detailsStatus}</Badge>
+                                        {isStatusUnpublished && <Badge color="amber">changes not published</Badge>}
+                                        {isBitmapUnexported && <Badge color="amber">DID document update pending</Badge>}
+                                    </Flex>
+                                    {detailsListIndex !== undefined && (
+                                        <Text size="1" color="gray">
+                                            Index {detailsListIndex} of the {detailsCredential.type} status lists
+                                            at {detailsCredential.credentialStatus![0].statusListCredential.replace(/\/[^/]+$/, '')}
+                                        </Text>
+                                    )}
+                                    {detailsBitmap && (
+                                        <Text size="1" color="gray">
+                                            Index {detailsBitmap.index} of the revocation bitmap {detailsBitmap.serviceUrl}
+                                        </Text>
+                                    )}
+                                    <Flex gap="2" align="center" wrap="wrap">
+                                        {detailsStatus === 'active' && detailsListIndex !== undefined && (
+                                            <Button
+                                                size="1"
+                                                variant="soft"
+                                                color="orange"
+                                                onClick={() => changeCredentialStatus(detailsCredential, 'suspend')}
+                                                disabled={isPublishingStatus}
+                                            >
+                                                Suspend
+                                            </Button>
+                                        )}
+                                        {detailsStatus === 'suspended' && (
+                                            <Button
+                                                size="1"
+                                                variant="soft"
+                                                color="green"
+                                                onClick={() => changeCredentialStatus(detailsCredential, 'reinstate')}
+                                                disabled={isPublishingStatus}
+                                            >
+                                                Reinstate
+                                            </Button>
+                                        )}
+                                        {detailsStatus !== 'revoked' && (revokeConfirmId === detailsCredential.id ? (
+                                            <>
+                                                <Text size="1" color="red">Revoking cannot be undone.</Text>
+                                                <Button
+                                                    size="1"
+                                                    color="red"
+                                                    onClick={() => changeCredentialStatus(detailsCredential, 'revoke')}
+                                                    disabled={isPublishingStatus}
+                                                >
+                                                    Revoke permanently
+                                                </Button>
+                                                <Button size="1" variant="soft" color="gray" onClick={() => setRevokeConfirmId(null)}>
+                                                    Cancel
+                                                </Button>
+                                            </>
+                                        ) : (
+                                            <Button
+                                                size="1"
+                                                variant="soft"
+                                                color="red"
+                                                onClick={() => setRevokeConfirmId(detailsCredential.id)}
+                                                disabled={isPublishingStatus}
+                                            >
+                                                Revoke
+                                            </Button>
+                                        ))}
+                                        {isStatusUnpublished && (
+                                            <Button
+                                                size="1"
+                                                variant="soft"
+                                                onClick={() => publishStatus(detailsCredential.type, 'Status lists updated')}
+                                                disabled={isPublishingStatus}
+                                            >
+                                                <ReloadIcon />
+                                                Publish Status Lists
+                                            </Button>
+                                        )}
+                                        {isBitmapUnexported && (
+                                            <Button
+                                                size="1"
+                                                variant="soft"
+                                                onClick={() => exportBitmapUpdate(detailsBitmap!.did)}
+                                                disabled={isPublishingStatus}
+                                            >
+                                                Export DID Document Update
+                                            </Button>
+                                        )}
+                                    </Flex>
+                                    {statusNotice && (
+                                        <Text size="1" color={statusNotice.failed ? 'red' : 'green'}>{statusNotice.text}</Text>
+                                    )}
+                                </Flex>
+                            ) : (
+                                <Text size="1" color="gray">
+                                    Issued without a status entry, so it cannot be revoked. Set a status list URL or an
+                                    issuer IOTA DID in the settings to make new credentials revocable.
+                                </Text>
+                            )}
+
                             <Box style={{ textAlign: 'center', padding: '1rem', backgroundColor: 'var(--gray-2)', borderRadius: '8px' }}>
                                 <Text size="2" weight="bold" style={{ display: 'block', marginBottom: '1rem' }}>
                                     Scan to Claim Credential
                                 </Text>
                                 <Flex justify="center" style={{ marginBottom: '1rem' }}>
                                     <QRCodeGenerator
-                                        data={selectedCredential.offerUrl}
+                                        data={detailsCredential.offerUrl}
                                         size={200}
                                     />
                                 </Flex>
-                                <Button
-                                    size="1"
-                                    variant="soft"
-                                    onClick={() => copyToClipboard(selectedCredential.offerUrl)}
-                                >
-                                    Copy Offer URL
-                                </Button>
+                                <Flex gap="2" justify="center">
+                                    <Button
+                                        size="1"
+                                        variant="soft"
+                                        onClick={() => copyToClipboard(detailsCredential.offerUrl)}
+                                    >
+                                        Copy Offer URL
+                                    </Button>
+                                    <Button size="1" variant="soft" onClick={() => setSendOfferId(detailsCredential.id)}>
+                                        <PaperPlaneIcon />
+                                        Send Offer
+                                    </Button>
+                                </Flex>
                             </Box>
 
                             <Box>
@@ -1206,7 +2180,7 @@ export const ModernCredentialsManager: React.FC = () => {
                                 <ScrollArea style={{ maxHeight: '300px' }}>
                                     <Box style={{ padding: '1rem', backgroundColor: 'var(--gray-2)', borderRadius: '8px' }}>
                                         <pre style={{ fontSize: '12px', overflow: 'auto', margin: 0 }}>
-                                            {JSON.stringify(selectedCredential, null, 2)}
+                                            {JSON.stringify(detailsCredential, null, 2)}
                                         </pre>
                                     </Box>
                                 </ScrollArea>
@@ -1221,6 +2195,18 @@ export const ModernCredentialsManager: React.FC = () => {
                     </Flex>
                 </Dialog.Content>
             </Dialog.Root>
+
+            {sendOfferCredential && (
+                <SendOfferDialog
+                    open
+                    onOpenChange={(open) => !open && setSendOfferId(null)}
+                    offerId={sendOfferCredential.id}
+                    title={sendOfferCredential.type}
+                    deliveries={sendOfferCredential.deliveries ?? []}
+                    onDelivered={(delivery) => recordDelivery(sendOfferCredential.id, delivery)}
+                    txCode={sendOfferCredential.txCode?.value}
+                />
+            )}
         </Box>
     );
 };
\ No newline at end of file
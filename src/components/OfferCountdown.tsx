@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { Text } from '@radix-ui/themes';
+import { formatRemaining, getTimeRemaining } from '../services/unicore/offerExpiry';
+
+interface OfferCountdownProps {
+    expiresAt: string;
+    size?: '1' | '2';
+}
+
+export const OfferCountdown: React.FC<OfferCountdownProps> = ({ expiresAt, size = '2' }) => {
+    const [remaining, setRemaining] = useState(() => getTimeRemaining(expiresAt));
+
+    useEffect(() => {
+        setRemaining(getTimeRemaining(expiresAt));
+        const timer = setInterval(() => {
+            const next = getTimeRemaining(expiresAt);
+            setRemaining(next);
+            if (next <= 0) clearInterval(timer);
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [expiresAt]);
+
+    if (remaining <= 0) {
+        return <Text size={size} color="red" weight="medium">Offer expired</Text>;
+    }
+
+    return (
+        <Text size={size} color={remaining < 5 * 60 * 1000 ? 'orange' : 'gray'}>
+            Offer expires in {formatRemaining(remaining)}
+        </Text>
+    );
+};
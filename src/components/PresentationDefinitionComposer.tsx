@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { Box, Flex, Text, Button, TextField, Select, Checkbox, IconButton, Badge } from '@radix-ui/themes';
+import { PlusIcon, TrashIcon } from '@radix-ui/react-icons';
+import { CREDENTIAL_TYPES, SUBJECT_FIELDS, type SubjectField } from '../services/unicore/credentialSubject';
+import {
+    CONSTRAINT_OPERATORS,
+    TODAY,
+    validateDescriptorSpec,
+    type ClaimConstraint,
+    type ConstraintOperator,
+    type DescriptorSpec,
+} from '../services/unicore/presentationDefinition';
+import {
+    QUERY_LANGUAGE_LABELS,
+    buildVerificationQuery,
+    type QueryLanguage,
+    type VerificationQuery,
+} from '../services/unicore/verificationQuery';
+
+interface PresentationDefinitionComposerProps {
+    disabled?: boolean;
+    /** Query language of the wallet the request is meant for. */
+    language?: QueryLanguage;
+    onCreate: (query: VerificationQuery, types: string[]) => void;
+}
+
+interface RuleDraft extends ClaimConstraint {
+    key: string;
+    value: string;
+}
+
+interface DescriptorDraft {
+    key: string;
+    type: string;
+    rules: RuleDraft[];
+    disclose: string[];
+}
+
+const newKey = () => crypto.randomUUID();
+
+const claimsFor = (type: string) =>
+    (SUBJECT_FIELDS as readonly SubjectField[]).filter(field => !field.types || field.types.some(item => item === type));
+
+const VALUE_PLACEHOLDERS: Record<string, string> = {
+    text: 'Value',
+    list: 'CH, DE, AT',
+    regex: '^[A-Z]{2}\\d+$',
+    date: `YYYY-MM-DD or ${TODAY}`,
+    number: '0',
+};
+
+const emptyDescriptor = (type = 'TravelDocument'): DescriptorDraft => ({ key: newKey(), type, rules: [], disclose: [] });
+
+// Border/employment style check: a current permit for listed nationalities,
+// revealing only the holder's name and work country.
+const EXAMPLE: DescriptorDraft[] = [
+    {
+        key: 'example',
+        type: 'WorkAuthorization',
+        rules: [
+            { key: 'valid-until', claim: 'valid_until', operator: 'after', value: TODAY },
+            { key: 'nationality', claim: 'nationality', operator: 'in', value: 'CH, DE, AT' },
+        ],
+        disclose: ['first_name', 'last_name', 'work_country'],
+    },
+];
+
+const toSpec = (draft: DescriptorDraft): DescriptorSpec => ({
+    type: draft.type,
+    constraints: draft.rules.map(({ claim, operator, value, optional }) => ({
+        claim,
+        operator,
+        value: CONSTRAINT_OPERATORS[operator].kind === 'number' ? Number(value) : value,
+        optional,
+    })),
+    disclose: draft.disclose,
+});
+
+export const PresentationDefinitionComposer: React.FC<PresentationDefinitionComposerProps> = ({
+    disabled,
+    language = 'presentation_exchange',
+    onCreate,
+}) => {
+    const [drafts, setDrafts] = useState<DescriptorDraft[]>([emptyDescriptor()]);
+    const [purpose, setPurpose] = useState('');
+    const [definitionId, setDefinitionId] = useState(() => `verification-${newKey()}`);
+
+    const updateDraft = (key: string, change: (draft: DescriptorDraft) => DescriptorDraft) => {
+        setDrafts(prev => prev.map(draft => (draft.key === key ? change(draft) : draft)));
+    };
+
+    const updateRule = (draftKey: string, ruleKey: string, change: Partial<RuleDraft>) => {
+        updateDraft(draftKey, draft => ({
+            ...draft,
+            rules: draft.rules.map(rule => (rule.key === ruleKey ? { ...rule, ...change } : rule)),
+        }));
+    };
+
+    const specs = drafts.map(toSpec);
+    const errors = specs.flatMap(validateDescriptorSpec);
+    let query: VerificationQuery | null = null;
+    let buildError: string | null = null;
+    if (errors.length === 0) {
+        try {
+            query = buildVerificationQuery(specs, language, { id: definitionId, purpose: purpose.trim() || undefined });
+        } catch (error) {
+            buildError = error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    const create = () => {
+        if (!query) return;
+        onCreate(query, drafts.map(draft => draft.type));
+        setDefinitionId(`verification-${newKey()}`);
+    };
+
+    return (
+        <Flex direction="column" gap="3">
+            <Flex gap="2">
+                <Button size="1" variant="soft" onClick={() => setDrafts(EXAMPLE.map(draft => ({ ...draft, key: newKey() })))}>
+                    Load work permit example
+                </Button>
+                <Button size="1" variant="soft" color="gray" onClick={() => setDrafts([emptyDescriptor()])}>
+                    Reset
+                </Button>
+            </Flex>
+
+            <TextField.Root
+                value={purpose}
+                onChange={(e) => setPurpose(e.target.value)}
+                placeholder="Purpose shown to the holder (optional)"
+            />
+
+            {drafts.map((draft, index) => {
+                const claims = claimsFor(draft.type);
+                return (
+                    <Box key={draft.key} style={{ padding: '0.75rem', backgroundColor: 'var(--gray-2)', borderRadius: '8px' }}>
+                        <Flex direction="column" gap="2">
+                            <Flex justify="between" align="center" gap="2">
+                                <Flex align="center" gap="2">
+                                    <Text size="2" weight="bold">Credential {index + 1}</Text>
+                                    <Select.Root
+                                        value={draft.type}
+                                        onValueChange={(type) => updateDraft(draft.key, () => ({ ...emptyDescriptor(type), key: draft.key }))}
+                                    >
+                                        <Select.Trigger />
+                                        <Select.Content>
+                                            {CREDENTIAL_TYPES.map(type => (
+                                                <Select.Item key={type} value={type}>{type}</Select.Item>
+                                            ))}
+                                        </Select.Content>
+                                    </Select.Root>
+                                </Flex>
+                                {drafts.length > 1 && (
+                                    <IconButton
+                                        size="1"
+                                        variant="ghost"
+                                        color="red"
+                                        onClick={() => setDrafts(prev => prev.filter(item => item.key !== draft.key))}
+                                    >
+                                        <TrashIcon />
+                                    </IconButton>
+                                )}
+                            </Flex>
+
+                            {draft.rules.map(rule => {
+                                const kind = CONSTRAINT_OPERATORS[rule.operator].kind;
+                                return (
+                                    <Flex key={rule.key} gap="2" align="center" wrap="wrap">
+                                        <Select.Root value={rule.claim} onValueChange={(claim) => updateRule(draft.key, rule.key, { claim })}>
+                                            <Select.Trigger />
+                                            <Select.Content>
+                                                {claims.map(field => (
+                                                    <Select.Item key={field.claim} value={field.claim}>{field.label}</Select.Item>
+                                                ))}
+                                            </Select.Content>
+                                        </Select.Root>
+                                        <Select.Root
+                                            value={rule.operator}
+                                            onValueChange={(operator) => updateRule(draft.key, rule.key, { operator: operator as ConstraintOperator })}
+                                        >
+                                            <Select.Trigger />
+                                            <Select.Content>
+                                                {Object.entries(CONSTRAINT_OPERATORS).map(([operator, info]) => (
+                                                    <Select.Item key={operator} value={operator}>{info.label}</Select.Item>
+                                                ))}
+                                            </Select.Content>
+                                        </Select.Root>
+                                        {kind !== 'none' && (
+                                            <Box style={{ flex: 1, minWidth: '140px' }}>
+                                                <TextField.Root
+                                                    value={rule.value}
+                                                    onChange={(e) => updateRule(draft.key, rule.key, { value: e.target.value })}
+                                                    placeholder={VALUE_PLACEHOLDERS[kind]}
+                                                />
+                                            </Box>
+                                        )}
+                                        <Text as="label" size="1">
+                                            <Flex gap="1" align="center">
+                                                <Checkbox
+                                                    checked={!!rule.optional}
+                                                    onCheckedChange={(checked) => updateRule(draft.key, rule.key, { optional: checked === true })}
+                                                />
+                                                Optional
+                                            </Flex>
+                                        </Text>
+                                        <IconButton
+                                            size="1"
+                                            variant="ghost"
+                                            color="gray"
+                                            onClick={() => updateDraft(draft.key, current => ({
+                                                ...current,
+                                                rules: current.rules.filter(item => item.key !== rule.key),
+                                            }))}
+                                        >
+                                            <TrashIcon />
+                                        </IconButton>
+                                    </Flex>
+                                );
+                            })}
+
+                            <Button
+                                size="1"
+                                variant="soft"
+                                style={{ alignSelf: 'flex-start' }}
+                                onClick={() => updateDraft(draft.key, current => ({
+                                    ...current,
+                                    rules: [...current.rules, { key: newKey(), claim: claims[0].claim, operator: 'equals', value: '' }],
+                                }))}
+                            >
+                                <PlusIcon />
+                                Add Rule
+                            </Button>
+
+                            <Text size="1" color="gray">
+                                Only reveal (leave empty to receive the whole credential):
+                            </Text>
+                            <Flex gap="3" wrap="wrap">
+                                {claims.map(field => (
+                                    <Text as="label" size="1" key={field.claim}>
+                                        <Flex gap="1" align="center">
+                                            <Checkbox
+                                                checked={draft.disclose.includes(field.claim)}
+                                                onCheckedChange={(checked) => updateDraft(draft.key, current => ({
+                                                    ...current,
+                                                    disclose: checked === true
+                                                        ? [...current.disclose, field.claim]
+                                                        : current.disclose.filter(claim => claim !== field.claim),
+                                                }))}
+                                            />
+                                            {field.label}
+                                        </Flex>
+                                    </Text>
+                                ))}
+                            </Flex>
+                            {draft.disclose.length > 0 && language === 'presentation_exchange' && (
+                                <Badge color="amber" style={{ alignSelf: 'flex-start' }}>limit_disclosure: required</Badge>
+                            )}
+                        </Flex>
+                    </Box>
+                );
+            })}
+
+            <Button
+                size="1"
+                variant="soft"
+                style={{ alignSelf: 'flex-start' }}
+                onClick={() => setDrafts(prev => [...prev, emptyDescriptor()])}
+            >
+                <PlusIcon />
+                Add Credential
+            </Button>
+
+            {[...errors, ...(buildError ? [buildError] : [])].map(message => (
+                <Text key={message} size="1" color="red">{message}</Text>
+            ))}
+
+            {query?.language === 'dcql' && query.unenforced && query.unenforced.length > 0 && (
+                <Box>
+                    <Text size="1" color="orange" style={{ display: 'block' }}>
+                        DCQL cannot ask the wallet for these rules; the wallet only has to present the claims, and the
+                        rules are checked when the presentation arrives:
+                    </Text>
+                    {query.unenforced.map(rule => (
+                        <Text key={rule} size="1" color="orange" style={{ display: 'block' }}>• {rule}</Text>
+                    ))}
+                </Box>
+            )}
+
+            <Box>
+                <Text size="2" weight="bold" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                    {language === 'dcql' ? 'DCQL Query' : 'Presentation Definition'}
+                </Text>
+                <Box
+                    style={{
+                        padding: '1rem',
+                        backgroundColor: 'var(--gray-2)',
+                        borderRadius: '8px',
+                        maxHeight: '300px',
+                        overflow: 'auto',
+                    }}
+                >
+                    <pre style={{ fontSize: '12px', margin: 0 }}>
+                        {query
+                            ? JSON.stringify(query.language === 'dcql' ? query.query : query.definition, null, 2)
+                            : `Fix the errors above to see the ${QUERY_LANGUAGE_LABELS[language]} request.`}
+                    </pre>
+                </Box>
+            </Box>
+
+            <Button onClick={create} disabled={disabled || !query} style={{ alignSelf: 'flex-start' }}>
+                Create Verification Request
+            </Button>
+        </Flex>
+    );
+};
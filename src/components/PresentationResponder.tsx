@@ -0,0 +1,294 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Card, Flex, Heading, Text, Button, TextArea, Select, Badge, Callout, Checkbox } from '@radix-ui/themes';
+import { formatClaimPath } from '../services/identity/sdJwt';
+import { getTestHolder } from '../services/identity/testHolder';
+import {
+    declinePresentation,
+    findCandidates,
+    loadPresentationRequest,
+    requiredDisclosures,
+    submitPresentation,
+    type DescriptorCandidates,
+    type PresentationRequest,
+} from '../services/unicore/presentationResponder';
+import type { WalletCredential } from '../services/unicore/testWallet';
+import { QUERY_LANGUAGE_LABELS } from '../services/unicore/verificationQuery';
+import { getErrorKind, getErrorMessage } from '../services/unicore/errors';
+
+interface PresentationResponderProps {
+    credentials: WalletCredential[];
+    /** Authorization URL to load right away, e.g. from the Verify tab. */
+    initialUrl?: string;
+}
+
+const describeCredential = (credential: WalletCredential) =>
+    `${credential.types.filter(type => type !== 'VerifiableCredential').join(', ') || credential.configurationId || 'Credential'}` +
+    ` · ${new Date(credential.receivedAt).toLocaleString()}`;
+
+const formatValue = (value: unknown): string =>
+    typeof value === 'string' ? value : JSON.stringify(value);
+
+// Radix Select items cannot have an empty value.
+const NOT_SHARED = 'none';
+
+export const PresentationResponder: React.FC<PresentationResponderProps> = ({ credentials, initialUrl }) => {
+    const [authorizationUrl, setAuthorizationUrl] = useState(initialUrl ?? '');
+    const [presentationRequest, setPresentationRequest] = useState<PresentationRequest | null>(null);
+    const [selection, setSelection] = useState<Record<string, string>>({});
+    // SD-JWT claims the holder reveals beyond what is requested, per credential.
+    const [disclose, setDisclose] = useState<Record<string, string[]>>({});
+    const [holderDid, setHolderDid] = useState<string | null>(null);
+    const [consent, setConsent] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [outcome, setOutcome] = useState<'shared' | 'declined' | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const descriptors: DescriptorCandidates[] = presentationRequest
+        ? findCandidates(presentationRequest, credentials)
+        : [];
+
+    useEffect(() => {
+        getTestHolder()
+            .then(holder => setHolderDid(holder.did))
+            .catch(err => console.error('Test holder unavailable:', err));
+        return () => controllerRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        if (initialUrl) {
+            loadRequest(initialUrl);
+        }
+    }, [initialUrl]);
+
+    const run = async (action: (signal: AbortSignal) => Promise<void>) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action(controller.signal);
+        } catch (err) {
+            if (getErrorKind(err) !== 'aborted') {
+                setError(getErrorMessage(err));
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const loadRequest = (url: string) => run(async (signal) => {
+        setPresentationRequest(null);
+        setOutcome(null);
+        setConsent(false);
+        const loaded = await loadPresentationRequest(url, { signal });
+        // Preselect the newest matching credential for every descriptor.
+        const preselected: Record<string, string> = {};
+        for (const { descriptor, candidates } of findCandidates(loaded, credentials)) {
+            if (candidates[0]) {
+                preselected[descriptor.id] = candidates[0].credential.id;
+            }
+        }
+        setSelection(preselected);
+        setDisclose({});
+        setPresentationRequest(loaded);
+    });
+
+    const share = () => run(async (signal) => {
+        const chosen = Object.fromEntries(
+            Object.entries(selection).flatMap(([descriptorId, credentialId]) => {
+                if (credentialId === NOT_SHARED) return [];
+                const credential = credentials.find(item => item.id === credentialId);
+                return credential ? [[descriptorId, credential]] : [];
+            })
+        );
+        await submitPresentation(presentationRequest!, chosen, { signal, disclose });
+        setOutcome('shared');
+    });
+
+    const toggleDisclosure = (credentialId: string, path: string, revealed: boolean) =>
+        setDisclose(prev => {
+            const paths = (prev[credentialId] ?? []).filter(item => item !== path);
+            return { ...prev, [credentialId]: revealed ? [...paths, path] : paths };
+        });
+
+    const decline = () => run(async (signal) => {
+        await declinePresentation(presentationRequest!, { signal });
+        setOutcome('declined');
+    });
+
+    const canShare = !!presentationRequest &&
+        presentationRequest.required.every(id => selection[id] && selection[id] !== NOT_SHARED) &&
+        Object.values(selection).some(id => id !== NOT_SHARED) &&
+        consent;
+
+    return (
+        <Card size="3">
+            <Flex direction="column" gap="3">
+                <Heading size="4">Respond to Verification Request</Heading>
+                <TextArea
+                    value={authorizationUrl}
+                    onChange={(e) => {
+                        setAuthorizationUrl(e.target.value);
+                        setError(null);
+                    }}
+                    placeholder="openid4vp://?client_id=...&request_uri=..."
+                    rows={3}
+                />
+                <Button
+                    onClick={() => loadRequest(authorizationUrl)}
+                    disabled={isBusy || !authorizationUrl.trim()}
+                    style={{ alignSelf: 'flex-start' }}
+                >
+                    Load Request
+                </Button>
+
+                {error && (
+                    <Callout.Root color="red">
+                        <Callout.Text>{error}</Callout.Text>
+                    </Callout.Root>
+                )}
+
+                {presentationRequest && !outcome && (
+                    <Flex direction="column" gap="3">
+                        <Box>
+                            <Flex justify="between" align="center">
+                                <Text size="2" color="gray">Requested by</Text>
+                                <Badge color="gray">{QUERY_LANGUAGE_LABELS[presentationRequest.query.language]}</Badge>
+                            </Flex>
+                            <Text size="2" weight="bold" style={{ display: 'block', wordBreak: 'break-all' }}>
+                                {presentationRequest.request.client_id}
+                            </Text>
+                            {presentationRequest.purpose && (
+                                <Text size="2">{presentationRequest.purpose}</Text>
+                            )}
+                        </Box>
+
+                        {descriptors.map(({ descriptor, candidates }) => {
+                            const required = presentationRequest.required.includes(descriptor.id);
+                            const selected = candidates.find(
+                                candidate => candidate.credential.id === selection[descriptor.id]
+                            );
+                            const limited = descriptor.constraints.limit_disclosure === 'required';
+                            const requested = selected
+                                ? requiredDisclosures(selected.credential, selected.match).map(claim => formatClaimPath(claim.path))
+                                : [];
+                            return (
+                                <Box
+                                    key={descriptor.id}
+                                    style={{ padding: '0.75rem', backgroundColor: 'var(--gray-2)', borderRadius: '8px' }}
+                                >
+                                    <Flex direction="column" gap="2">
+                                        <Flex gap="2" align="center">
+                                            <Text size="2" weight="bold">{descriptor.name ?? descriptor.id}</Text>
+                                            {!required && <Badge color="gray">optional</Badge>}
+                                        </Flex>
+                                        {descriptor.purpose && <Text size="1" color="gray">{descriptor.purpose}</Text>}
+
+                                        {candidates.length === 0 ? (
+                                            <Text size="2" color={required ? 'red' : 'gray'}>
+                                                No stored credential matches this request.
+                                            </Text>
+                                        ) : (
+                                            <Select.Root
+                                                value={selection[descriptor.id]}
+                                                onValueChange={(value) => setSelection(prev => ({ ...prev, [descriptor.id]: value }))}
+                                            >
+                                                <Select.Trigger />
+                                                <Select.Content>
+                                                    {!required && (
+                                                        <Select.Item value={NOT_SHARED}>Don't share</Select.Item>
+                                                    )}
+                                                    {candidates.map(({ credential }) => (
+                                                        <Select.Item key={credential.id} value={credential.id}>
+                                                            {describeCredential(credential)}
+                                                        </Select.Item>
+                                                    ))}
+                                                </Select.Content>
+                                            </Select.Root>
+                                        )}
+
+                                        {selected?.match.fields.map(({ field, path, value, matched }) => (
+                                            <Flex key={field.path.join('|')} justify="between" gap="3">
+                                                <Text size="1" color="gray">{field.name ?? path ?? field.path[0]}</Text>
+                                                <Text size="1" style={{ wordBreak: 'break-all', textAlign: 'right' }}>
+                                                    {matched ? formatValue(value) : 'not present (optional)'}
+                                                </Text>
+                                            </Flex>
+                                        ))}
+                                        {selected && holderDid && selected.credential.holderDid !== holderDid && (
+                                            <Text size="1" color="orange">
+                                                This credential is bound to an earlier test holder key, so holder binding checks will fail.
+                                            </Text>
+                                        )}
+                                        {selected?.credential.disclosed && selected.credential.disclosed.length > 0 && (
+                                            <Box>
+                                                <Text size="1" color="gray" style={{ display: 'block', marginBottom: '0.25rem' }}>
+                                                    Claims you can keep private
+                                                    {limited && ' (the verifier allows only the requested ones)'}
+                                                </Text>
+                                                {selected.credential.disclosed.map(claim => {
+                                                    const path = formatClaimPath(claim.path);
+                                                    const isRequested = requested.includes(path);
+                                                    const credentialId = selected.credential.id;
+                                                    return (
+                                                        <Text as="label" size="1" key={path} style={{ display: 'block' }}>
+                                                            <Flex gap="2" align="center">
+                                                                <Checkbox
+                                                                    size="1"
+                                                                    checked={isRequested || (disclose[credentialId] ?? []).includes(path)}
+                                                                    disabled={isRequested || limited}
+                                                                    onCheckedChange={(checked) => toggleDisclosure(credentialId, path, checked === true)}
+                                                                />
+                                                                <Text style={{ wordBreak: 'break-all' }}>
+                                                                    {path}: {formatValue(claim.value)}
+                                                                </Text>
+                                                                {isRequested && <Badge size="1" color="gray">requested</Badge>}
+                                                            </Flex>
+                                                        </Text>
+                                                    );
+                                                })}
+                                            </Box>
+                                        )}
+                                        {limited && !selected?.credential.disclosed && (
+                                            <Text size="1" color="orange">
+                                                The verifier requires limited disclosure, but the whole credential will be shared.
+                                            </Text>
+                                        )}
+                                    </Flex>
+                                </Box>
+                            );
+                        })}
+
+                        <Text as="label" size="2">
+                            <Flex gap="2" align="center">
+                                <Checkbox checked={consent} onCheckedChange={(checked) => setConsent(checked === true)} />
+                                Share the selected credentials with this verifier (SD-JWT credentials reveal only the ticked claims)
+                            </Flex>
+                        </Text>
+
+                        <Flex gap="2">
+                            <Button onClick={share} disabled={isBusy || !canShare}>
+                                {isBusy ? 'Sending...' : 'Share'}
+                            </Button>
+                            <Button variant="soft" color="red" onClick={decline} disabled={isBusy}>
+                                Decline
+                            </Button>
+                        </Flex>
+                    </Flex>
+                )}
+
+                {outcome && (
+                    <Flex align="center" gap="2">
+                        <Badge color={outcome === 'shared' ? 'green' : 'gray'}>{outcome}</Badge>
+                        <Text size="2">
+                            {outcome === 'shared'
+                                ? 'Presentation sent. The Verify tab should pick it up.'
+                                : 'The verifier was told the request was declined.'}
+                        </Text>
+                    </Flex>
+                )}
+            </Flex>
+        </Card>
+    );
+};
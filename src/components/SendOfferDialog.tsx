@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Flex, Text, Button, TextField, Select, Badge, Dialog, ScrollArea } from '@radix-ui/themes';
+import {
+    DELIVERY_METHODS,
+    deliverOffer,
+    getChannelConflictError,
+    recordTxCodeHandoff,
+    validateRecipient,
+    type OfferDelivery,
+} from '../services/unicore/offerDelivery';
+import type { DeliveryMethod } from '../services/unicore/unicoreService';
+
+interface SendOfferDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    offerId: string;
+    title: string;
+    deliveries: OfferDelivery[];
+    onDelivered: (delivery: OfferDelivery) => void;
+    /** PIN of the offer, if it has one; the operator copies it to send themselves. */
+    txCode?: string;
+}
+
+type DeliveryContent = NonNullable<OfferDelivery['content']>;
+
+const METHOD_LABELS: Record<DeliveryMethod, string> = {
+    email: 'Email',
+    sms: 'SMS',
+    webhook: 'Webhook',
+};
+
+const STATUS_COLORS: Record<OfferDelivery['status'], 'green' | 'blue' | 'red'> = {
+    sent: 'green',
+    copied: 'blue',
+    failed: 'red',
+};
+
+const PLACEHOLDERS: Record<DeliveryMethod, string> = {
+    email: 'holder@example.com',
+    sms: '+41791234567',
+    webhook: 'https://example.com/offers',
+};
+
+export const SendOfferDialog: React.FC<SendOfferDialogProps> = ({
+    open,
+    onOpenChange,
+    offerId,
+    title,
+    deliveries,
+    onDelivered,
+    txCode,
+}) => {
+    const [content, setContent] = useState<DeliveryContent>('offer');
+    const [method, setMethod] = useState<DeliveryMethod>('email');
+    const [recipient, setRecipient] = useState('');
+    const [validationError, setValidationError] = useState<string | null>(null);
+    const [isSending, setIsSending] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        if (!open) {
+            controllerRef.current?.abort();
+            setContent('offer');
+            setRecipient('');
+            setValidationError(null);
+        }
+    }, [open]);
+
+    const send = async (sendContent: DeliveryContent, sendMethod: DeliveryMethod, sendRecipient: string) => {
+        const invalid = validateRecipient(sendMethod, sendRecipient) ??
+            getChannelConflictError(deliveries, sendContent, sendMethod);
+        if (invalid) {
+            setValidationError(invalid);
+            return;
+        }
+
+        // The agent only sends offers, so the PIN goes to the clipboard.
+        if (sendContent === 'tx_code') {
+            if (!txCode) return;
+            try {
+                await navigator.clipboard.writeText(txCode);
+            } catch {
+                setValidationError('Could not copy the PIN; read it from the QR dialog instead');
+                return;
+            }
+            onDelivered(recordTxCodeHandoff(sendMethod, sendRecipient));
+            return;
+        }
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsSending(true);
+        try {
+            const options = { signal: controller.signal };
+            const delivery = await deliverOffer(offerId, sendMethod, sendRecipient, options);
+            if (delivery.errorKind !== 'aborted') {
+                onDelivered(delivery);
+            }
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const latest = deliveries[deliveries.length - 1];
+
+    return (
+        <Dialog.Root open={open} onOpenChange={onOpenChange}>
+            <Dialog.Content style={{ maxWidth: '500px' }}>
+                <Dialog.Title>Send Offer - {title}</Dialog.Title>
+                <Dialog.Description>
+                    Deliver the credential offer through the UniCore agent instead of showing the QR code.
+                </Dialog.Description>
+
+                <Flex direction="column" gap="3" style={{ margin: '1.5rem 0' }}>
+                    {txCode && (
+                        <Flex direction="column" gap="1">
+                            <Select.Root
+                                value={content}
+                                onValueChange={(value) => {
+                                    setContent(value as DeliveryContent);
+                                    setValidationError(null);
+                                }}
+                            >
+                                <Select.Trigger />
+                                <Select.Content>
+                                    <Select.Item value="offer">Offer link</Select.Item>
+                                    <Select.Item value="tx_code">PIN (copy to send yourself)</Select.Item>
+                                </Select.Content>
+                            </Select.Root>
+                            <Text size="1" color="gray">
+                                This offer needs a PIN. The agent cannot send PINs: copy it and send it yourself
+                                through a different channel than the offer.
+                            </Text>
+                        </Flex>
+                    )}
+                    <Flex gap="2">
+                        <Select.Root
+                            value={method}
+                            onValueChange={(value) => {
+                                setMethod(value as DeliveryMethod);
+                                setValidationError(null);
+                            }}
+                        >
+                            <Select.Trigger />
+                            <Select.Content>
+                                {DELIVERY_METHODS.map(item => (
+                                    <Select.Item key={item} value={item}>{METHOD_LABELS[item]}</Select.Item>
+                                ))}
+                            </Select.Content>
+                        </Select.Root>
+                        <Box style={{ flex: 1 }}>
+                            <TextField.Root
+                                value={recipient}
+                                onChange={(e) => {
+                                    setRecipient(e.target.value);
+                                    setValidationError(null);
+                                }}
+                                placeholder={PLACEHOLDERS[method]}
+                            />
+                        </Box>
+                    </Flex>
+                    {validationError && <Text size="1" color="red">{validationError}</Text>}
+
+                    <Button onClick={() => send(content, method, recipient)} disabled={isSending || !recipient.trim()}>
+                        {isSending ? 'Sending...' : content === 'tx_code' ? 'Copy PIN' : 'Send Offer'}
+                    </Button>
+
+                    {latest && (
+                        <Text size="2" color={STATUS_COLORS[latest.status]}>
+                            {latest.status === 'sent'
+                                ? `Sent to ${latest.recipient} via ${METHOD_LABELS[latest.method]}`
+                                : latest.status === 'copied'
+                                    ? `PIN copied; send it to ${latest.recipient} via ${METHOD_LABELS[latest.method]}`
+                                    : `Delivery to ${latest.recipient} failed: ${latest.error}`}
+                        </Text>
+                    )}
+
+                    {deliveries.length > 0 && (
+                        <Box>
+                            <Text size="2" weight="bold" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                Delivery History
+                            </Text>
+                            <ScrollArea style={{ maxHeight: '200px' }}>
+                                <Flex direction="column" gap="2">
+                                    {[...deliveries].reverse().map(delivery => (
+                                        <Flex key={delivery.id} justify="between" align="center" gap="2">
+                                            <Flex direction="column">
+                                                <Flex gap="2" align="center">
+                                                    <Badge color={STATUS_COLORS[delivery.status]}>
+                                                        {delivery.status}
+                                                    </Badge>
+                                                    <Text size="2">
+                                                        {delivery.content === 'tx_code' ? 'PIN' : 'Offer'} ·{' '}
+                                                        {METHOD_LABELS[delivery.method]} · {delivery.recipient}
+                                                    </Text>
+                                                </Flex>
+                                                <Text size="1" color="gray">
+                                                    {new Date(delivery.attemptedAt).toLocaleString()}
+                                                    {delivery.error && ` · ${delivery.error}`}
+                                                </Text>
+                                            </Flex>
+                                            <Button
+                                                size="1"
+                                                variant="soft"
+                                                disabled={isSending || (delivery.content === 'tx_code' && !txCode)}
+                                                onClick={() => send(delivery.content ?? 'offer', delivery.method, delivery.recipient)}
+                                            >
+                                                {delivery.content === 'tx_code' ? 'Copy again' : 'Resend'}
+                                            </Button>
+                                        </Flex>
+                                    ))}
+                                </Flex>
+                            </ScrollArea>
+                        </Box>
+                    )}
+                </Flex>
+
+                <Flex gap="3" justify="end">
+                    <Dialog.Close>
+                        <Button variant="soft" color="gray">Close</Button>
+                    </Dialog.Close>
+                </Flex>
+            </Dialog.Content>
+        </Dialog.Root>
+    );
+};
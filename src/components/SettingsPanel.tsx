@@ -0,0 +1,326 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Box, Card, Flex, Heading, Text, Button, TextField, Switch, Badge, Callout, Grid, Select } from '@radix-ui/themes';
+import { InfoCircledIcon } from '@radix-ui/react-icons';
+import {
+    getConfig,
+    getConfigSource,
+    getDevProxyTarget,
+    resetSettings,
+    saveSettings,
+    subscribeConfig,
+    type AppConfig,
+    type ConfigValidation,
+} from '../services/config/configService';
+import { CREDENTIAL_TYPES } from '../services/unicore/credentialSubject';
+import { DEFAULT_OFFER_LIFETIMES, formatLifetime } from '../services/unicore/offerExpiry';
+import { DEFAULT_DISCLOSABLE_CLAIMS } from '../services/unicore/selectiveDisclosure';
+import { DEFAULT_TX_CODE_POLICIES, type TxCodePolicy } from '../services/unicore/txCode';
+import { WALLET_PROFILES } from '../services/unicore/walletProfiles';
+
+interface SettingsPanelProps {
+    onSaved?: () => void;
+}
+
+const FIELDS: Array<{
+    key: 'environment' | 'agentUrl' | 'clientId' | 'redirectUri' | 'iotaNodeUrl' | 'statusListBaseUrl' | 'revocationBitmapDid';
+    label: string;
+    placeholder: string;
+}> = [
+    { key: 'environment', label: 'Environment Name', placeholder: 'e.g., staging' },
+    { key: 'agentUrl', label: 'UniCore Agent URL', placeholder: 'http://localhost:3033' },
+    { key: 'clientId', label: 'Verifier Client ID', placeholder: 'http://... or did:web:...' },
+    { key: 'redirectUri', label: 'Verifier Redirect URI', placeholder: 'http://localhost:3033/callback' },
+    { key: 'iotaNodeUrl', label: 'IOTA Node URL (DID resolution)', placeholder: 'https://api.stardust-mainnet.iotaledger.net' },
+    { key: 'statusListBaseUrl', label: 'Status List URL (empty: no revocation or suspension lists)', placeholder: 'https://issuer.example.com/status' },
+    { key: 'revocationBitmapDid', label: 'Issuer IOTA DID for Revocation Bitmap (optional)', placeholder: 'did:iota:0x...' },
+];
+
+const PIN_OPTIONS: Array<{ value: string; label: string }> = [
+    { value: 'off', label: 'No PIN' },
+    { value: 'numeric:4', label: '4 digits' },
+    { value: 'numeric:6', label: '6 digits' },
+    { value: 'numeric:8', label: '8 digits' },
+    { value: 'text:6', label: '6 characters' },
+    { value: 'text:8', label: '8 characters' },
+];
+
+const encodePinPolicy = (policy: TxCodePolicy | false) =>
+    policy ? `${policy.inputMode}:${policy.length}` : 'off';
+
+const decodePinPolicy = (value: string): TxCodePolicy | false => {
+    if (value === 'off') return false;
+    const [inputMode, length] = value.split(':');
+    return { inputMode: inputMode as TxCodePolicy['inputMode'], length: Number(length) };
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved }) => {
+    const config = useSyncExternalStore(subscribeConfig, getConfig);
+    const [draft, setDraft] = useState<AppConfig>(config);
+    const [errors, setErrors] = useState<ConfigValidation['errors']>({});
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        setDraft(config);
+    }, [config]);
+
+    const handleChange = <K extends keyof AppConfig>(key: K, value: AppConfig[K]) => {
+        setDraft(prev => ({ ...prev, [key]: value }));
+        setErrors(prev => ({ ...prev, [key]: undefined }));
+        setSaved(false);
+    };
+
+    const handleLifetimeChange = (type: string, value: string) => {
+        const offerLifetimes = { ...draft.offerLifetimes };
+        if (value.trim() === '') {
+            delete offerLifetimes[type];
+        } else {
+            offerLifetimes[type] = Number(value);
+        }
+        handleChange('offerLifetimes', offerLifetimes);
+    };
+
+    const handlePinPolicyChange = (type: string, value: string) => {
+        handleChange('txCodes', { ...draft.txCodes, [type]: decodePinPolicy(value) });
+    };
+
+    // Claims are typed comma separated; empty entries are kept until saving
+    // so a trailing comma does not vanish while typing.
+    const handleDisclosableChange = (type: string, value: string) => {
+        const disclosableClaims = { ...draft.disclosableClaims };
+        if (value.trim() === '') {
+            delete disclosableClaims[type];
+        } else {
+            disclosableClaims[type] = value.split(',').map(claim => claim.trim());
+        }
+        handleChange('disclosableClaims', disclosableClaims);
+    };
+
+    const handleSave = () => {
+        const validation = saveSettings({
+            ...draft,
+            disclosableClaims: Object.fromEntries(
+                Object.entries(draft.disclosableClaims).map(([type, claims]) => [type, claims.filter(Boolean)])
+            ),
+        });
+        setErrors(validation.errors);
+        if (validation.valid) {
+            setSaved(true);
+            onSaved?.();
+        }
+    };
+
+    const handleReset = () => {
+        resetSettings();
+        setErrors({});
+        setSaved(true);
+        onSaved?.();
+    };
+
+    const proxyTarget = getDevProxyTarget();
+
+    return (
+        <Card size="3" style={{ marginTop: '1rem' }}>
+            <Flex direction="column" gap="4">
+                <Heading size="4">Environment Settings</Heading>
+                <Text size="2" color="gray">
+                    Values are resolved from defaults, environment variables, the runtime config.json and
+                    the settings saved here, in that order.
+                </Text>
+
+                {FIELDS.map(({ key, label, placeholder }) => (
+                    <Box key={key}>
+                        <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                            <Text size="2" weight="medium">{label}</Text>
+                            <Badge size="1" color="gray">{getConfigSource(key)}</Badge>
+                        </Flex>
+                        <TextField.Root
+                            value={draft[key]}
+                            onChange={(e) => handleChange(key, e.target.value)}
+                            placeholder={placeholder}
+                            color={errors[key] ? 'red' : undefined}
+                        />
+                        {errors[key] && (
+                            <Text size="1" color="red" style={{ display: 'block', marginTop: '0.25rem' }}>
+                                {errors[key]}
+                            </Text>
+                        )}
+                        {key === 'clientId' && !errors[key] && draft.clientId.trim().startsWith('did:') && (
+                            <Text size="1" color="amber" style={{ display: 'block', marginTop: '0.25rem' }}>
+                                A DID client ID is only valid in a request object signed with that DID's key. This app
+                                sends unsigned requests, so only use it if the agent signs them; otherwise wallets may
+                                reject the request.
+                            </Text>
+                        )}
+                    </Box>
+                ))}
+
+                <Flex align="center" gap="2">
+                    <Switch
+                        checked={draft.useDevProxy}
+                        onCheckedChange={(checked) => handleChange('useDevProxy', checked)}
+                    />
+                    <Text size="2">Use the dev server /api proxy on localhost</Text>
+                </Flex>
+
+                <Box>
+                    <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                        <Text size="2" weight="medium">Default Wallet</Text>
+                        <Badge size="1" color="gray">{getConfigSource('walletProfile')}</Badge>
+                    </Flex>
+                    <Select.Root value={draft.walletProfile} onValueChange={(value) => handleChange('walletProfile', value)}>
+                        <Select.Trigger />
+                        <Select.Content>
+                            {WALLET_PROFILES.map(profile => (
+                                <Select.Item key={profile.id} value={profile.id}>{profile.name}</Select.Item>
+                            ))}
+                        </Select.Content>
+                    </Select.Root>
+                </Box>
+
+                <Box>
+                    <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                        <Text size="2" weight="medium">Clock Skew (seconds)</Text>
+                        <Badge size="1" color="gray">{getConfigSource('clockSkewSeconds')}</Badge>
+                    </Flex>
+                    <TextField.Root
+                        type="number"
+                        min="0"
+                        value={draft.clockSkewSeconds.toString()}
+                        onChange={(e) => handleChange('clockSkewSeconds', Number(e.target.value))}
+                        color={errors.clockSkewSeconds ? 'red' : undefined}
+                    />
+                    <Text size="1" color="gray" style={{ display: 'block', marginTop: '0.25rem' }}>
+                        Leeway for expiry and issuance times when verifying presentations
+                    </Text>
+                    {errors.clockSkewSeconds && (
+                        <Text size="1" color="red" style={{ display: 'block', marginTop: '0.25rem' }}>
+                            {errors.clockSkewSeconds}
+                        </Text>
+                    )}
+                </Box>
+
+                <Box>
+                    <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                        <Text size="2" weight="medium">Verification Lifetime (minutes)</Text>
+                        <Badge size="1" color="gray">{getConfigSource('verificationLifetimeMinutes')}</Badge>
+                    </Flex>
+                    <TextField.Root
+                        type="number"
+                        min="1"
+                        value={draft.verificationLifetimeMinutes.toString()}
+                        onChange={(e) => handleChange('verificationLifetimeMinutes', Number(e.target.value))}
+                        color={errors.verificationLifetimeMinutes ? 'red' : undefined}
+                    />
+                    <Text size="1" color="gray" style={{ display: 'block', marginTop: '0.25rem' }}>
+                        How long a verification request waits for a presentation before it expires
+                    </Text>
+                    {errors.verificationLifetimeMinutes && (
+                        <Text size="1" color="red" style={{ display: 'block', marginTop: '0.25rem' }}>
+                            {errors.verificationLifetimeMinutes}
+                        </Text>
+                    )}
+                </Box>
+
+                <Box>
+                    <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                        <Text size="2" weight="medium">Offer Lifetimes (minutes)</Text>
+                        <Badge size="1" color="gray">{getConfigSource('offerLifetimes')}</Badge>
+                    </Flex>
+                    <Grid columns="2" gap="2" align="center">
+                        {CREDENTIAL_TYPES.map(type => (
+                            <React.Fragment key={type}>
+                                <Text size="2">{type}</Text>
+                                <TextField.Root
+                                    type="number"
+                                    min="1"
+                                    value={draft.offerLifetimes[type]?.toString() ?? ''}
+                                    onChange={(e) => handleLifetimeChange(type, e.target.value)}
+                                    placeholder={`Default: ${formatLifetime(DEFAULT_OFFER_LIFETIMES[type])}`}
+                                />
+                            </React.Fragment>
+                        ))}
+                    </Grid>
+                    {errors.offerLifetimes && (
+                        <Text size="1" color="red" style={{ display: 'block', marginTop: '0.25rem' }}>
+                            {errors.offerLifetimes}
+                        </Text>
+                    )}
+                </Box>
+
+                <Box>
+                    <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                        <Text size="2" weight="medium">Offer PIN (transaction code)</Text>
+                        <Badge size="1" color="gray">{getConfigSource('txCodes')}</Badge>
+                    </Flex>
+                    <Grid columns="2" gap="2" align="center">
+                        {CREDENTIAL_TYPES.map(type => (
+                            <React.Fragment key={type}>
+                                <Text size="2">{type}</Text>
+                                <Select.Root
+                                    value={encodePinPolicy(draft.txCodes[type] ?? DEFAULT_TX_CODE_POLICIES[type])}
+                                    onValueChange={(value) => handlePinPolicyChange(type, value)}
+                                >
+                                    <Select.Trigger />
+                                    <Select.Content>
+                                        {PIN_OPTIONS.map(option => (
+                                            <Select.Item key={option.value} value={option.value}>{option.label}</Select.Item>
+                                        ))}
+                                    </Select.Content>
+                                </Select.Root>
+                            </React.Fragment>
+                        ))}
+                    </Grid>
+                </Box>
+
+                <Box>
+                    <Flex align="center" gap="2" style={{ marginBottom: '0.5rem' }}>
+                        <Text size="2" weight="medium">Selectively Disclosable Claims (SD-JWT)</Text>
+                        <Badge size="1" color="gray">{getConfigSource('disclosableClaims')}</Badge>
+                    </Flex>
+                    <Grid columns="2" gap="2" align="center">
+                        {CREDENTIAL_TYPES.map(type => (
+                            <React.Fragment key={type}>
+                                <Text size="2">{type}</Text>
+                                <TextField.Root
+                                    value={draft.disclosableClaims[type]?.join(', ') ?? ''}
+                                    onChange={(e) => handleDisclosableChange(type, e.target.value)}
+                                    placeholder={`Default: ${DEFAULT_DISCLOSABLE_CLAIMS[type].join(', ')}`}
+                                />
+                            </React.Fragment>
+                        ))}
+                    </Grid>
+                    {errors.disclosableClaims && (
+                        <Text size="1" color="red" style={{ display: 'block', marginTop: '0.25rem' }}>
+                            {errors.disclosableClaims}
+                        </Text>
+                    )}
+                </Box>
+
+                {proxyTarget && (
+                    <Callout.Root size="1">
+                        <Callout.Icon>
+                            <InfoCircledIcon />
+                        </Callout.Icon>
+                        <Callout.Text>
+                            The dev server proxies /api to {proxyTarget}. Change it with
+                            VITE_UNICORE_PROXY_TARGET or proxyTarget in public/config.json and restart the dev server.
+                        </Callout.Text>
+                    </Callout.Root>
+                )}
+
+                {saved && (
+                    <Text size="2" color="green">Settings saved</Text>
+                )}
+
+                <Flex gap="3" justify="end">
+                    <Button variant="soft" color="gray" onClick={handleReset}>
+                        Reset to Defaults
+                    </Button>
+                    <Button onClick={handleSave}>
+                        Save Settings
+                    </Button>
+                </Flex>
+            </Flex>
+        </Card>
+    );
+};
@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Card, Flex, Heading, Text, Button, TextField, TextArea, Select, Badge, Callout } from '@radix-ui/themes';
+import { ArrowLeftIcon, CheckIcon, InfoCircledIcon, TrashIcon } from '@radix-ui/react-icons';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+    REDEEM_STEPS,
+    loadWalletCredentials,
+    redeemOffer,
+    saveWalletCredentials,
+    type RedeemStep,
+    type WalletCredential,
+} from '../services/unicore/testWallet';
+import { getErrorKind, getErrorMessage } from '../services/unicore/errors';
+import { PresentationResponder } from './PresentationResponder';
+
+/** The subset of the dashboard's stored offers the wallet can pick from. */
+interface StoredOffer {
+    id: string;
+    type: string;
+    offerUrl: string;
+    status: string;
+    timestamp: string;
+    txCode?: { value: string };
+}
+
+const STEP_LABELS: Record<RedeemStep, string> = {
+    resolve: 'Resolve offer',
+    token: 'Get access token',
+    proof: 'Sign key proof',
+    credential: 'Receive credential',
+};
+
+const loadOpenOffers = (): StoredOffer[] => {
+    try {
+        const stored: StoredOffer[] = JSON.parse(localStorage.getItem('unicore-credentials') ?? '[]');
+        return stored.filter(offer => offer.status === 'offered' && offer.type !== 'Verification Request');
+    } catch {
+        return [];
+    }
+};
+
+const formatClaim = (value: unknown): string =>
+    typeof value === 'string' ? value : JSON.stringify(value);
+
+export const TestWallet: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const [offerUrl, setOfferUrl] = useState(searchParams.get('offer') ?? '');
+    const [txCode, setTxCode] = useState('');
+    const [openOffers] = useState(loadOpenOffers);
+    const [credentials, setCredentials] = useState<WalletCredential[]>(loadWalletCredentials);
+    const [step, setStep] = useState<RedeemStep | null>(null);
+    const [isRedeeming, setIsRedeeming] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [received, setReceived] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        saveWalletCredentials(credentials);
+    }, [credentials]);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    // An offer opened from the dashboard brings its PIN along.
+    useEffect(() => {
+        const match = openOffers.find(offer => offer.offerUrl === searchParams.get('offer'));
+        if (match?.txCode) {
+            setTxCode(match.txCode.value);
+        }
+    }, [openOffers, searchParams]);
+
+    const pickOffer = (id: string) => {
+        const offer = openOffers.find(item => item.id === id);
+        if (offer) {
+            setOfferUrl(offer.offerUrl);
+            setTxCode(offer.txCode?.value ?? '');
+            setError(null);
+        }
+    };
+
+    const redeem = async () => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRedeeming(true);
+        setError(null);
+        setReceived(null);
+        try {
+            const credential = await redeemOffer(offerUrl.trim(), {
+                txCode: txCode.trim() || undefined,
+                signal: controller.signal,
+                onStep: setStep,
+            });
+            setCredentials(prev => [credential, ...prev]);
+            setReceived(credential.id);
+            setStep(null);
+        } catch (err) {
+            if (getErrorKind(err) !== 'aborted') {
+                setError(getErrorMessage(err));
+            }
+        } finally {
+            setIsRedeeming(false);
+        }
+    };
+
+    const cancel = () => {
+        controllerRef.current?.abort();
+        setStep(null);
+    };
+
+    const removeCredential = (id: string) => {
+        setCredentials(prev => prev.filter(credential => credential.id !== id));
+    };
+
+    const stepIndex = step ? REDEEM_STEPS.indexOf(step) : -1;
+
+    return (
+        <Box style={{ maxWidth: '800px', margin: '0 auto' }}>
+            <Flex direction="column" gap="4">
+                <Flex justify="between" align="center">
+                    <Heading size="6">🧪 Test Wallet</Heading>
+                    <Button variant="soft" onClick={() => navigate('/')}>
+                        <ArrowLeftIcon />
+                        Back to Dashboard
+                    </Button>
+                </Flex>
+
+                <Callout.Root color="gray">
+                    <Callout.Icon>
+                        <InfoCircledIcon />
+                    </Callout.Icon>
+                    <Callout.Text>
+                        Redeems pre-authorized offers and answers verification requests with a holder key kept in
+                        this browser's local storage, so issuance and verification can be checked without a phone.
+                        The key is for testing only; never hold real credentials with it.
+                    </Callout.Text>
+                </Callout.Root>
+
+                <Card size="3">
+                    <Flex direction="column" gap="3">
+                        <Heading size="4">Redeem Offer</Heading>
+
+                        {openOffers.length > 0 && (
+                            <Select.Root onValueChange={pickOffer}>
+                                <Select.Trigger placeholder="Pick an offer issued from the dashboard" />
+                                <Select.Content>
+                                    {openOffers.map(offer => (
+                                        <Select.Item key={offer.id} value={offer.id}>
+                                            {offer.type} · {new Date(offer.timestamp).toLocaleString()}
+                                        </Select.Item>
+                                    ))}
+                                </Select.Content>
+                            </Select.Root>
+                        )}
+
+                        <TextArea
+                            value={offerUrl}
+                            onChange={(e) => {
+                                setOfferUrl(e.target.value);
+                                setError(null);
+                            }}
+                            placeholder="openid-credential-offer://?credential_offer_uri=..."
+                            rows={3}
+                        />
+                        <TextField.Root
+                            value={txCode}
+                            onChange={(e) => setTxCode(e.target.value)}
+                            placeholder="PIN (only if the offer requires one)"
+                        />
+
+                        <Flex gap="2">
+                            <Button onClick={redeem} disabled={isRedeeming || !offerUrl.trim()}>
+                                {isRedeeming ? 'Redeeming...' : 'Redeem Offer'}
+                            </Button>
+                            {isRedeeming && (
+                                <Button variant="soft" color="gray" onClick={cancel}>Cancel</Button>
+                            )}
+                        </Flex>
+
+                        {isRedeeming && (
+                            <Flex gap="2" wrap="wrap">
+                                {REDEEM_STEPS.map((item, index) => (
+                                    <Badge
+                                        key={item}
+                                        color={index < stepIndex ? 'green' : index === stepIndex ? 'blue' : 'gray'}
+                                    >
+                                        {index < stepIndex && <CheckIcon />}
+                                        {STEP_LABELS[item]}
+                                    </Badge>
+                                ))}
+                            </Flex>
+                        )}
+
+                        {error && (
+                            <Callout.Root color="red">
+                                <Callout.Text>{error}</Callout.Text>
+                            </Callout.Root>
+                        )}
+                        {received && (
+                            <Text size="2" color="green">Credential received and stored.</Text>
+                        )}
+                    </Flex>
+                </Card>
+
+                <PresentationResponder credentials={credentials} initialUrl={searchParams.get('request') ?? undefined} />
+
+                <Heading size="4">Stored Credentials ({credentials.length})</Heading>
+                {credentials.length === 0 && (
+                    <Text color="gray">No credentials yet. Redeem an offer to receive one.</Text>
+                )}
+                {credentials.map(credential => (
+                    <Card
+                        key={credential.id}
+                        size="2"
+                        style={credential.id === received ? { border: '2px solid var(--green-9)' } : undefined}
+                    >
+                        <Flex direction="column" gap="2">
+                            <Flex justify="between" align="start" gap="2">
+                                <Flex direction="column" gap="1">
+                                    <Flex gap="1" wrap="wrap">
+                                        {(credential.types.length > 0 ? credential.types : [credential.configurationId ?? 'Credential'])
+                                            .map(type => <Badge key={type}>{type}</Badge>)}
+                                        {credential.format && <Badge color="gray">{credential.format}</Badge>}
+                                    </Flex>
+                                    <Text size="1" color="gray">
+                                        Received {new Date(credential.receivedAt).toLocaleString()}
+                                        {credential.issuer && ` from ${credential.issuer}`}
+                                    </Text>
+                                </Flex>
+                                <Button size="1" variant="soft" color="red" onClick={() => removeCredential(credential.id)}>
+                                    <TrashIcon />
+                                    Remove
+                                </Button>
+                            </Flex>
+
+                            <Box style={{ padding: '0.75rem', backgroundColor: 'var(--gray-2)', borderRadius: '8px' }}>
+                                {Object.entries(credential.claims).length === 0 ? (
+                                    <Text size="2" color="gray">No subject claims could be read.</Text>
+                                ) : (
+                                    Object.entries(credential.claims).map(([key, value]) => (
+                                        <Flex key={key} justify="between" gap="3">
+                                            <Text size="2" color="gray">{key}</Text>
+                                            <Text size="2" style={{ wordBreak: 'break-all', textAlign: 'right' }}>
+                                                {formatClaim(value)}
+                                            </Text>
+                                        </Flex>
+                                    ))
+                                )}
+                            </Box>
+
+                            <details>
+                                <summary style={{ cursor: 'pointer', fontSize: '12px' }}>Raw credential</summary>
+                                <pre style={{ fontSize: '11px', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+                                    {typeof credential.credential === 'string'
+                                        ? credential.credential
+                                        : JSON.stringify(credential.credential, null, 2)}
+                                </pre>
+                                <Text size="1" color="gray">Holder: {credential.holderDid}</Text>
+                            </details>
+                        </Flex>
+                    </Card>
+                ))}
+            </Flex>
+        </Box>
+    );
+};
@@ -1,7 +1,12 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Box, Card, Flex, Heading, Text, Button, Badge } from '@radix-ui/themes';
 import { CheckIcon, Cross2Icon } from '@radix-ui/react-icons';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import type { PresentationVerification, VerificationCheck } from '../services/identity/presentationVerifier';
+import type { QueryEvaluation } from '../services/unicore/verificationQuery';
+import { verifySessionPresentation } from '../services/unicore/verificationSession';
+import { redeemState, updateVerification, type VerificationRequest } from '../services/unicore/verificationStore';
+import { DisclosedClaims } from './VerificationSession';
 
 interface PresentationResponse {
     vp_token?: string;
@@ -11,6 +16,12 @@ interface PresentationResponse {
     error_description?: string;
 }
 
+const groupByTarget = (checks: VerificationCheck[]) =>
+    checks.reduce<Record<string, VerificationCheck[]>>((groups, check) => {
+        (groups[check.target] ??= []).push(check);
+        return groups;
+    }, {});
+
 export const VerificationCallback: React.FC = () => {
     const [searchParams] = useSearchParams();
     const navigate = useNavigate();
@@ -19,10 +30,20 @@ export const VerificationCallback: React.FC = () => {
     const [verificationResult, setVerificationResult] = useState<{
         success: boolean;
         message: string;
-        details?: Record<string, unknown>;
+        verification?: PresentationVerification;
+        evaluation?: QueryEvaluation;
     } | null>(null);
 
+    // A state is redeemed once, so the same response must not be processed
+    // twice (StrictMode runs effects twice in development).
+    const processedQuery = useRef<string | null>(null);
+
     useEffect(() => {
+        const query = searchParams.toString();
+        if (processedQuery.current === query) {
+            return;
+        }
+        processedQuery.current = query;
         processCallback();
     }, [searchParams]);
 
@@ -56,21 +77,50 @@ export const VerificationCallback: React.FC = () => {
             }
 
             if (vpToken) {
-
-                try {
-                    const decoded = decodeJWT(vpToken);
-
+                // Refuse responses we did not ask for before looking at them.
+                if (!state) {
                     setVerificationResult({
-                        success: true,
-                        message: 'Credential presentation received and verified successfully!',
-                        details: decoded,
+                        success: false,
+                        message: 'The response carries no state, so it cannot be tied to a request we made.',
                     });
-                } catch {
+                    return;
+                }
+                let request: VerificationRequest;
+                try {
+                    request = redeemState(state);
+                } catch (stateError) {
                     setVerificationResult({
                         success: false,
-                        message: 'Failed to decode presentation',
+                        message: stateError instanceof Error ? stateError.message : 'Invalid state',
                     });
+                    return;
                 }
+
+                const { status, verification, evaluation } = await verifySessionPresentation(
+                    request,
+                    vpToken,
+                    callbackResponse.presentation_submission,
+                );
+                const failed = verification.checks.filter(check => !check.passed).length;
+                // The stored history, and an open session view, pick this up.
+                updateVerification(request.id, {
+                    status,
+                    statusReason: status === 'failed'
+                        ? 'The presentation did not pass verification'
+                        : undefined,
+                    verification,
+                    evaluation,
+                });
+                setVerificationResult({
+                    success: status === 'verified',
+                    message: !verification.verified
+                        ? `Credential presentation received, but ${failed} of ${verification.checks.length} checks failed.`
+                        : !evaluation.satisfied
+                            ? 'Signatures check out, but the presentation does not satisfy the requested query.'
+                            : 'Credential presentation received and verified: signatures, nonce, audience, validity times, holder binding and requested constraints all check out.',
+                    verification,
+                    evaluation,
+                });
             } else {
                 setVerificationResult({
                     success: false,
@@ -88,22 +138,6 @@ export const VerificationCallback: React.FC = () => {
         }
     };
 
-    const decodeJWT = (token: string) => {
-        try {
-            const parts = token.split('.');
-            if (parts.length !== 3) {
-                throw new Error('Invalid JWT format');
-            }
-
-            const payload = parts[1];
-            const decoded = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
-            return decoded;
-        } catch (error) {
-            console.error('Failed to decode JWT:', error);
-            throw error;
-        }
-    };
-
     const goBack = () => {
         navigate('/');
     };
@@ -167,26 +201,94 @@ export const VerificationCallback: React.FC = () => {
                         </Box>
                     )}
 
-                    {verificationResult?.details && (
+                    {verificationResult?.verification && (
                         <Box>
                             <Text size="2" weight="bold" style={{ display: 'block', marginBottom: '0.5rem' }}>
-                                Verified Credential Data:
+                                Checks:
                             </Text>
+                            <Flex direction="column" gap="3">
+                                {Object.entries(groupByTarget(verificationResult.verification.checks)).map(([target, checks]) => (
+                                    <Box key={target}>
+                                        <Text size="2" color="gray" style={{ display: 'block' }}>{target}</Text>
+                                        {checks.map((check, index) => (
+                                            <Flex key={index} gap="2" align="start">
+                                                {check.passed ? (
+                                                    <CheckIcon color="var(--green-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                                                ) : (
+                                                    <Cross2Icon color="var(--red-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                                                )}
+                                                <Text size="2">
+                                                    {check.name}
+                                                    {check.detail && (
+                                                        <Text color="gray" style={{ wordBreak: 'break-all' }}> — {check.detail}</Text>
+                                                    )}
+                                                    {check.caveat && (
+                                                        <Text size="1" color="amber" style={{ display: 'block' }}>{check.caveat}</Text>
+                                                    )}
+                                                </Text>
+                                            </Flex>
+                                        ))}
+                                    </Box>
+                                ))}
+                            </Flex>
+                        </Box>
+                    )}
+
+                    {verificationResult?.evaluation && (
+                        <Box>
+                            <Text size="2" weight="bold" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                Requested Query:
+                            </Text>
+                            <Flex direction="column" gap="1">
+                                {verificationResult.evaluation.error && (
+                                    <Flex gap="2" align="start">
+                                        <Cross2Icon color="var(--red-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                                        <Text size="2">{verificationResult.evaluation.error}</Text>
+                                    </Flex>
+                                )}
+                                {verificationResult.evaluation.items.map(item => (
+                                    <Flex key={item.id} gap="2" align="start">
+                                        {item.satisfied ? (
+                                            <CheckIcon color="var(--green-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                                        ) : (
+                                            <Cross2Icon color="var(--red-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                                        )}
+                                        <Text size="2">
+                                            {item.id}
+                                            {item.reason && (
+                                                <Text color="gray"> — {item.reason}</Text>
+                                            )}
+                                        </Text>
+                                    </Flex>
+                                ))}
+                            </Flex>
+                        </Box>
+                    )}
+
+                    {verificationResult?.verification?.credentials.map(credential => (
+                        <Box key={credential.target}>
+                            <Text size="2" weight="bold" style={{ display: 'block', marginBottom: '0.5rem' }}>
+                                {credential.types.filter(type => type !== 'VerifiableCredential').join(', ') || 'Credential'}
+                                {credential.issuer && (
+                                    <Text size="1" color="gray" weight="regular"> from {credential.issuer}</Text>
+                                )}
+                            </Text>
+                            <DisclosedClaims credential={credential} />
                             <Box
                                 style={{
                                     padding: '1rem',
-                                    backgroundColor: 'var(--green-2)',
+                                    backgroundColor: verificationResult.success ? 'var(--green-2)' : 'var(--gray-2)',
                                     borderRadius: '8px',
                                     maxHeight: '300px',
                                     overflow: 'auto',
                                 }}
                             >
                                 <pre style={{ fontSize: '12px', margin: 0 }}>
-                                    {JSON.stringify(verificationResult.details, null, 2)}
+                                    {JSON.stringify(credential.claims, null, 2)}
                                 </pre>
                             </Box>
                         </Box>
-                    )}
+                    ))}
 
                     <Flex gap="3" justify="end">
                         <Button onClick={goBack}>Back to Dashboard</Button>
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import { Badge, Box, Button, Flex, Text } from '@radix-ui/themes';
+import { CheckIcon, Cross2Icon } from '@radix-ui/react-icons';
+import type { VerifiedCredential } from '../services/identity/presentationVerifier';
+import { unicoreService } from '../services/unicore/unicoreService';
+import { getErrorMessage } from '../services/unicore/errors';
+import { formatRemaining, getTimeRemaining } from '../services/unicore/offerExpiry';
+import {
+    VERIFICATION_POLL_MS,
+    VERIFICATION_STEPS,
+    deriveSessionStatus,
+    isTerminalVerificationStatus,
+    verifySessionPresentation,
+    type VerificationStatus,
+} from '../services/unicore/verificationSession';
+import type { VerificationRequest } from '../services/unicore/verificationStore';
+import { QRCodeGenerator } from './QRCodeGenerator';
+
+const STATUS_COLORS: Record<VerificationStatus, 'blue' | 'amber' | 'green' | 'red' | 'gray' | 'violet'> = {
+    waiting: 'blue',
+    scanned: 'violet',
+    presented: 'amber',
+    verified: 'green',
+    failed: 'red',
+    expired: 'gray',
+};
+
+export const VerificationStatusBadge: React.FC<{ status: VerificationStatus }> = ({ status }) => (
+    <Badge color={STATUS_COLORS[status]}>{status}</Badge>
+);
+
+/** Which claims of an SD-JWT the holder chose to reveal; nothing for other credentials. */
+export const DisclosedClaims: React.FC<{ credential: VerifiedCredential }> = ({ credential }) => {
+    if (!credential.disclosed) return null;
+    return (
+        <Flex gap="1" align="center" wrap="wrap" style={{ marginBottom: '0.25rem' }}>
+            <Text size="1" color="gray">
+                {credential.disclosed.length > 0
+                    ? 'Selectively disclosed by the holder:'
+                    : 'The holder revealed no selectively disclosable claims'}
+            </Text>
+            {credential.disclosed.map(path => (
+                <Badge key={path} size="1" color="violet">{path}</Badge>
+            ))}
+        </Flex>
+    );
+};
+
+interface VerificationSessionProps {
+    request: VerificationRequest;
+    onUpdate: (update: Partial<VerificationRequest>) => void;
+    onCopy: (url: string) => void;
+    onOpenTestWallet: (url: string) => void;
+}
+
+/**
+ * Follows one verification request from QR to result. The agent is polled
+ * while the session is open; results the callback page stores arrive through
+ * `request` as well.
+ */
+export const VerificationSession: React.FC<VerificationSessionProps> = ({
+    request,
+    onUpdate,
+    onCopy,
+    onOpenTestWallet,
+}) => {
+    const [now, setNow] = useState(() => Date.now());
+    const [pollError, setPollError] = useState<string | null>(null);
+    const terminal = isTerminalVerificationStatus(request.status);
+
+    useEffect(() => {
+        if (terminal) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [terminal]);
+
+    useEffect(() => {
+        if (terminal) return;
+
+        const remaining = request.expiresAt ? getTimeRemaining(request.expiresAt) : Infinity;
+        if (remaining <= 0) {
+            onUpdate({ status: 'expired', statusReason: 'No presentation before the request expired' });
+            return;
+        }
+
+        const controller = new AbortController();
+        let reported = request.status;
+        setPollError(null);
+
+        unicoreService
+            .pollAuthorizationRequestStatus(
+                request.id,
+                Number.isFinite(remaining) ? Math.ceil(remaining / VERIFICATION_POLL_MS) : 60,
+                VERIFICATION_POLL_MS,
+                {
+                    signal: controller.signal,
+                    onRecord: (record) => {
+                        const status = deriveSessionStatus(record);
+                        if (status === 'scanned' && reported === 'waiting') {
+                            reported = status;
+                            onUpdate({ status });
+                        } else if (status === 'failed' || status === 'expired') {
+                            onUpdate({ status, statusReason: `Agent reports "${record.status}"` });
+                            controller.abort();
+                        }
+                    },
+                },
+            )
+            .then(async (result) => {
+                if (controller.signal.aborted) return;
+
+                if (!result.success) {
+                    if (result.status === 'timeout' && Number.isFinite(remaining)) {
+                        onUpdate({ status: 'expired', statusReason: 'No presentation before the request expired' });
+                    } else {
+                        setPollError(result.error ?? 'Failed to check verification status');
+                    }
+                    return;
+                }
+
+                onUpdate({ status: 'presented' });
+                const outcome = await verifySessionPresentation(
+                    request,
+                    result.presentationData,
+                    result.presentationSubmission,
+                    { signal: controller.signal },
+                );
+                if (controller.signal.aborted) return;
+                onUpdate({
+                    ...outcome,
+                    statusReason: outcome.status === 'failed'
+                        ? 'The presentation did not pass verification'
+                        : undefined,
+                });
+            })
+            .catch((error) => {
+                if (controller.signal.aborted) return;
+                setPollError(getErrorMessage(error, 'Failed to check verification status'));
+            });
+
+        return () => controller.abort();
+    }, [request.id, terminal]);
+
+    const endedAt = terminal && request.statusUpdatedAt ? Date.parse(request.statusUpdatedAt) : now;
+    const elapsed = endedAt - Date.parse(request.timestamp);
+    const showQR = request.status === 'waiting' || request.status === 'scanned';
+    const failedChecks = request.verification?.checks.filter(check => !check.passed) ?? [];
+
+    // The last step shows how the session ended.
+    const steps = VERIFICATION_STEPS.map((step, index) =>
+        index === VERIFICATION_STEPS.length - 1 && terminal ? request.status : step
+    );
+    // How far a failed or expired session got is not recorded.
+    const ended = request.status === 'expired' || request.status === 'failed';
+    const reached = ended ? VERIFICATION_STEPS.length - 1 : VERIFICATION_STEPS.indexOf(request.status);
+
+    return (
+        <Flex direction="column" gap="3">
+            <Flex justify="between" align="center">
+                <VerificationStatusBadge status={request.status} />
+                <Text size="2" color="gray">Elapsed {formatRemaining(elapsed)}</Text>
+            </Flex>
+
+            <Flex align="center" gap="1" wrap="wrap">
+                {steps.map((step, index) => (
+                    <React.Fragment key={step}>
+                        {index > 0 && <Text size="1" color="gray">→</Text>}
+                        <Badge
+                            variant={index === reached ? 'solid' : 'soft'}
+                            color={index === reached || (index < reached && !ended) ? STATUS_COLORS[step] : 'gray'}
+                        >
+                            {step}
+                        </Badge>
+                    </React.Fragment>
+                ))}
+            </Flex>
+
+            {showQR && (
+                <Flex direction="column" align="center" gap="2">
+                    <QRCodeGenerator data={request.authorizationUrl} size={260} />
+                    {request.expiresAt && (
+                        <Text size="1" color="gray">
+                            Expires in {formatRemaining(getTimeRemaining(request.expiresAt, now))}
+                        </Text>
+                    )}
+                    <Text size="2" color="gray">
+                        {request.status === 'waiting'
+                            ? 'Waiting for a wallet to scan the request...'
+                            : 'The wallet has the request; waiting for the holder to share...'}
+                    </Text>
+                </Flex>
+            )}
+            {request.status === 'presented' && (
+                <Text size="2" color="gray">Presentation received, verifying...</Text>
+            )}
+            {request.status === 'expired' && (
+                <Text size="2" color="red">This request has expired and its QR code is no longer shown.</Text>
+            )}
+            {request.statusReason && request.status !== 'expired' && (
+                <Text size="2" color="gray">{request.statusReason}</Text>
+            )}
+            {pollError && <Text size="2" color="red">{pollError}</Text>}
+
+            {failedChecks.map((check, index) => (
+                <Flex key={index} gap="2" align="start">
+                    <Cross2Icon color="var(--red-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                    <Text size="2">
+                        {check.target}: {check.name}
+                        {check.detail && <Text color="gray"> — {check.detail}</Text>}
+                    </Text>
+                </Flex>
+            ))}
+            {request.evaluation?.error && (
+                <Flex gap="2" align="start">
+                    <Cross2Icon color="var(--red-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                    <Text size="2">{request.evaluation.error}</Text>
+                </Flex>
+            )}
+            {request.evaluation?.items.map(item => (
+                <Flex key={item.id} gap="2" align="start">
+                    {item.satisfied ? (
+                        <CheckIcon color="var(--green-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                    ) : (
+                        <Cross2Icon color="var(--red-11)" style={{ flexShrink: 0, marginTop: '2px' }} />
+                    )}
+                    <Text size="2">
+                        {item.id}
+                        {item.reason && <Text color="gray"> — {item.reason}</Text>}
+                    </Text>
+                </Flex>
+            ))}
+
+            {request.verification?.credentials.map(credential => (
+                <Box key={credential.target}>
+                    <Text size="2" weight="bold" style={{ display: 'block', marginBottom: '0.25rem' }}>
+                        {credential.types.filter(type => type !== 'VerifiableCredential').join(', ') || 'Credential'}
+                        {credential.issuer && (
+                            <Text size="1" color="gray" weight="regular"> from {credential.issuer}</Text>
+                        )}
+                    </Text>
+                    <DisclosedClaims credential={credential} />
+                    <Box
+                        style={{
+                            padding: '0.75rem',
+                            backgroundColor: request.status === 'verified' ? 'var(--green-2)' : 'var(--gray-2)',
+                            borderRadius: '8px',
+                            maxHeight: '200px',
+                            overflow: 'auto',
+                        }}
+                    >
+                        <pre style={{ fontSize: '12px', margin: 0 }}>
+                            {JSON.stringify(credential.claims, null, 2)}
+                        </pre>
+                    </Box>
+                </Box>
+            ))}
+
+            {showQR && (
+                <Flex gap="2" justify="center">
+                    <Button variant="soft" onClick={() => onCopy(request.authorizationUrl)}>
+                        Copy Request URL
+                    </Button>
+                    <Button variant="soft" onClick={() => onOpenTestWallet(request.authorizationUrl)}>
+                        Open in Test Wallet
+                    </Button>
+                </Flex>
+            )}
+        </Flex>
+    );
+};
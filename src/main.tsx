@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import App from "./App";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { initializeEnvironment } from "./init";
+import { loadRuntimeConfig } from "./services/config/configService";
 import "./styles/responsive.css";
 
 const queryClient = new QueryClient();
@@ -31,6 +32,7 @@ root.render(
 
 (async () => {
   try {
+    await loadRuntimeConfig();
     await initializeEnvironment();
 
     root.render(
@@ -0,0 +1,283 @@
+import { z } from "zod";
+import { DEFAULT_WALLET_PROFILE_ID } from "../unicore/walletProfiles";
+
+const SETTINGS_STORAGE_KEY = "unicore-settings";
+const RUNTIME_CONFIG_URL = "/config.json";
+const DEV_PROXY_PATH = "/api";
+
+const httpUrl = z
+  .string()
+  .trim()
+  .regex(/^https?:\/\/[^\s/]+/, "Must be an http(s) URL")
+  .transform((value) => value.replace(/\/$/, ""));
+
+const clientId = z
+  .string()
+  .trim()
+  .regex(/^(https?:\/\/|did:)\S+$/, "Must be an http(s) URL or a DID");
+
+const configSchema = z.object({
+  environment: z.string().trim().min(1, "Environment name is required"),
+  agentUrl: httpUrl,
+  useDevProxy: z.boolean(),
+  clientId,
+  redirectUri: httpUrl,
+  /** PIN policy per credential type; `false` disables it, unset uses defaults. */
+  txCodes: z.record(
+    z.string(),
+    z.union([
+      z.literal(false),
+      z.object({
+        length: z.number().int().min(4).max(12),
+        inputMode: z.enum(["numeric", "text"]),
+      }),
+    ]),
+  ),
+  /** Subject claims issued as SD-JWT disclosures per type; unset types use defaults. */
+  disclosableClaims: z.record(z.string(), z.array(z.string().trim().min(1))),
+  /** Wallet profile new offers are prepared for. */
+  walletProfile: z.string().trim().min(1, "Wallet profile is required"),
+  /** Offer lifetime in minutes per credential type; unset types use defaults. */
+  offerLifetimes: z.record(
+    z.string(),
+    z.number().int("Must be whole minutes").positive("Must be positive"),
+  ),
+  /** Default minutes a verification request waits for a presentation. */
+  verificationLifetimeMinutes: z
+    .number()
+    .int("Must be whole minutes")
+    .min(1, "Must be at least a minute")
+    .max(1440, "Must be at most a day"),
+  /**
+   * Where status lists are published, per type and purpose; empty issues
+   * credentials without a `credentialStatus`.
+   */
+  statusListBaseUrl: z.union([z.literal(""), httpUrl]),
+  /**
+   * Issuer `did:iota` DID whose `RevocationBitmap2022` service new
+   * credentials are revocable through; empty leaves it out.
+   */
+  revocationBitmapDid: z.union([
+    z.literal(""),
+    z
+      .string()
+      .trim()
+      .regex(/^did:iota:\S+$/, "Must be a did:iota DID"),
+  ]),
+  /** IOTA node `did:iota` DIDs are resolved against. */
+  iotaNodeUrl: httpUrl,
+  /** Leeway for `exp`, `nbf` and `iat` when verifying presentations. */
+  clockSkewSeconds: z
+    .number()
+    .int("Must be whole seconds")
+    .min(0, "Must not be negative")
+    .max(3600, "Must be at most an hour"),
+});
+
+const overridesSchema = configSchema.partial();
+
+export type AppConfig = z.infer<typeof configSchema>;
+export type ConfigOverrides = z.input<typeof overridesSchema>;
+export type ConfigSource = "default" | "env" | "runtime" | "settings";
+
+export interface ConfigValidation {
+  valid: boolean;
+  errors: Partial<Record<keyof AppConfig, string>>;
+}
+
+const DEFAULT_AGENT_URL = "http://localhost:3033";
+const DEFAULT_IOTA_NODE_URL = "https://api.stardust-mainnet.iotaledger.net";
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+const DEFAULT_VERIFICATION_LIFETIME_MINUTES = 10;
+
+let envOverrides: ConfigOverrides = {};
+let runtimeOverrides: ConfigOverrides = {};
+let storedOverrides: ConfigOverrides = {};
+let current: AppConfig;
+const listeners = new Set<() => void>();
+
+function readEnvOverrides(): ConfigOverrides {
+  const env = import.meta.env;
+  const candidate: ConfigOverrides = {
+    environment: env.VITE_UNICORE_ENVIRONMENT,
+    agentUrl: env.VITE_SSI_AGENT_URL,
+    clientId: env.VITE_UNICORE_CLIENT_ID,
+    redirectUri: env.VITE_UNICORE_REDIRECT_URI,
+    iotaNodeUrl: env.VITE_IOTA_NODE_URL,
+    statusListBaseUrl: env.VITE_STATUS_LIST_BASE_URL,
+    revocationBitmapDid: env.VITE_REVOCATION_BITMAP_DID,
+  };
+  return parseOverrides(candidate, "environment variables");
+}
+
+function readStoredOverrides(): ConfigOverrides {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? parseOverrides(JSON.parse(stored), "saved settings") : {};
+  } catch (error) {
+    console.error("Failed to load saved settings:", error);
+    return {};
+  }
+}
+
+/** Drops unset and invalid values so one bad entry does not discard a layer. */
+function parseOverrides(candidate: unknown, origin: string): ConfigOverrides {
+  if (!candidate || typeof candidate !== "object") {
+    console.warn(`Ignoring ${origin}: expected an object`);
+    return {};
+  }
+
+  const overrides: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(candidate)) {
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+    const field = overridesSchema.shape[key as keyof AppConfig];
+    if (!field) {
+      continue;
+    }
+    const parsed = field.safeParse(value);
+    if (parsed.success) {
+      overrides[key] = parsed.data;
+    } else {
+      console.warn(`Ignoring invalid ${key} from ${origin}:`, value);
+    }
+  }
+  return overrides as ConfigOverrides;
+}
+
+function resolve(): AppConfig {
+  const merged = {
+    environment: import.meta.env.DEV ? "development" : "production",
+    agentUrl: DEFAULT_AGENT_URL,
+    useDevProxy: true,
+    offerLifetimes: {},
+    txCodes: {},
+    disclosableClaims: {},
+    walletProfile: DEFAULT_WALLET_PROFILE_ID,
+    iotaNodeUrl: DEFAULT_IOTA_NODE_URL,
+    statusListBaseUrl: "",
+    revocationBitmapDid: "",
+    clockSkewSeconds: DEFAULT_CLOCK_SKEW_SECONDS,
+    verificationLifetimeMinutes: DEFAULT_VERIFICATION_LIFETIME_MINUTES,
+    ...envOverrides,
+    ...runtimeOverrides,
+    ...storedOverrides,
+  };
+
+  const agentUrl = merged.agentUrl.replace(/\/$/, "");
+  return {
+    ...merged,
+    agentUrl,
+    // Not the agent's DID: that needs a signed request object (see README).
+    clientId: merged.clientId ?? `${agentUrl}/`,
+    redirectUri: merged.redirectUri ?? `${agentUrl}/callback`,
+  };
+}
+
+function update() {
+  current = resolve();
+  listeners.forEach((listener) => listener());
+}
+
+envOverrides = readEnvOverrides();
+storedOverrides = readStoredOverrides();
+current = resolve();
+
+/**
+ * Loads the optional runtime `config.json` served next to the app, so one
+ * build can be pointed at different agents without rebuilding.
+ */
+export async function loadRuntimeConfig(): Promise<void> {
+  try {
+    const response = await fetch(RUNTIME_CONFIG_URL, {
+      headers: { Accept: "application/json" },
+    });
+    if (
+      !response.ok ||
+      !response.headers.get("content-type")?.includes("json")
+    ) {
+      return;
+    }
+    runtimeOverrides = parseOverrides(await response.json(), "config.json");
+    update();
+  } catch (error) {
+    console.warn("Could not load runtime config.json:", error);
+  }
+}
+
+export function getConfig(): AppConfig {
+  return current;
+}
+
+export function subscribeConfig(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getConfigSource(key: keyof AppConfig): ConfigSource {
+  if (storedOverrides[key] !== undefined) return "settings";
+  if (runtimeOverrides[key] !== undefined) return "runtime";
+  if (envOverrides[key] !== undefined) return "env";
+  return "default";
+}
+
+export function validateConfig(candidate: AppConfig): ConfigValidation {
+  const result = configSchema.safeParse(candidate);
+  if (result.success) {
+    return { valid: true, errors: {} };
+  }
+
+  const errors: ConfigValidation["errors"] = {};
+  for (const issue of result.error.issues) {
+    const key = issue.path[0] as keyof AppConfig;
+    errors[key] ??= issue.message;
+  }
+  return { valid: false, errors };
+}
+
+/** Persists the settings screen values; only fields that differ are stored. */
+export function saveSettings(candidate: AppConfig): ConfigValidation {
+  const validation = validateConfig(candidate);
+  if (!validation.valid) {
+    return validation;
+  }
+
+  const parsed = configSchema.parse(candidate);
+  storedOverrides = {};
+  const base = resolve();
+  const overrides: Record<string, unknown> = {};
+  for (const key of Object.keys(parsed) as Array<keyof AppConfig>) {
+    if (JSON.stringify(parsed[key]) !== JSON.stringify(base[key])) {
+      overrides[key] = parsed[key];
+    }
+  }
+
+  storedOverrides = overrides as ConfigOverrides;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(storedOverrides));
+  update();
+  return validation;
+}
+
+export function resetSettings() {
+  storedOverrides = {};
+  localStorage.removeItem(SETTINGS_STORAGE_KEY);
+  update();
+}
+
+/**
+ * The URL agent calls are made against. During local development requests go
+ * through the Vite `/api` proxy, whose target is fixed when the dev server
+ * starts (see `vite.config.ts`).
+ */
+export function getAgentBaseUrl(config: AppConfig = current): string {
+  const isLocalDev = window.location.hostname === "localhost";
+  return isLocalDev && config.useDevProxy ? DEV_PROXY_PATH : config.agentUrl;
+}
+
+/** Proxy target the dev server was started with, if any. */
+export function getDevProxyTarget(): string | undefined {
+  return import.meta.env.VITE_UNICORE_PROXY_TARGET || undefined;
+}
@@ -0,0 +1,180 @@
+import { request, type CallOptions } from "../unicore/http";
+import { base64UrlDecodeBytes, base64UrlEncodeBytes, decodeJwt } from "./jwt";
+
+/*
+ * Bitstring Status List (W3C): a credential's `credentialStatus` points at a
+ * bit in a list published by its issuer as a status list credential. A set
+ * bit means the credential is revoked or suspended, per the entry's
+ * `statusPurpose`. The list is a GZIP-compressed bitstring, base64url encoded
+ * with a multibase `u` prefix; bit 0 is the left-most bit of the first byte.
+ */
+
+export const STATUS_LIST_ENTRY_TYPE = "BitstringStatusListEntry";
+export const STATUS_LIST_TYPE = "BitstringStatusList";
+export const STATUS_LIST_CREDENTIAL_TYPE = "BitstringStatusListCredential";
+
+/** Smallest list the spec allows (16KB), so one index reveals little. */
+export const MIN_STATUS_LIST_BITS = 131072;
+
+export type StatusPurpose = "revocation" | "suspension";
+
+export interface CredentialStatusEntry {
+  id: string;
+  type: string;
+  statusPurpose: StatusPurpose;
+  /** Bit position in the list, as a decimal string. */
+  statusListIndex: string;
+  /** URL of the status list credential. */
+  statusListCredential: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonObject | undefined =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as JsonObject)
+    : undefined;
+
+/** Entry types read as bitstring entries; StatusList2021 uses the same list. */
+const ENTRY_TYPES = new Set([STATUS_LIST_ENTRY_TYPE, "StatusList2021Entry"]);
+
+async function pipeThrough(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/** Encodes a list of `size` bits with the bits at `indices` set. */
+export async function encodeStatusList(
+  indices: Iterable<number>,
+  size = MIN_STATUS_LIST_BITS,
+): Promise<string> {
+  const bits = new Uint8Array(Math.ceil(size / 8));
+  for (const index of indices) {
+    if (!Number.isInteger(index) || index < 0 || index >= size) {
+      throw new Error(`Status index ${index} is outside a list of ${size}`);
+    }
+    bits[index >> 3] |= 0x80 >> (index & 7);
+  }
+  const compressed = await pipeThrough(bits, new CompressionStream("gzip"));
+  return `u${base64UrlEncodeBytes(compressed)}`;
+}
+
+/** Decodes an `encodedList`; the multibase prefix is optional. */
+export async function decodeStatusList(encoded: string): Promise<Uint8Array> {
+  const text = encoded.startsWith("u") ? encoded.slice(1) : encoded;
+  try {
+    return await pipeThrough(
+      base64UrlDecodeBytes(text),
+      new DecompressionStream("gzip"),
+    );
+  } catch {
+    throw new Error("The status list is not a GZIP-compressed bitstring");
+  }
+}
+
+export function isStatusSet(bits: Uint8Array, index: number): boolean {
+  if (index >= bits.length * 8) {
+    throw new Error(
+      `Status index ${index} is outside a list of ${bits.length * 8}`,
+    );
+  }
+  return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+/** The indices of all set bits, in ascending order. */
+export function setStatusIndices(bits: Uint8Array): number[] {
+  const indices: number[] = [];
+  bits.forEach((byte, i) => {
+    for (let bit = 0; byte && bit < 8; bit++) {
+      if (byte & (0x80 >> bit)) indices.push(i * 8 + bit);
+    }
+  });
+  return indices;
+}
+
+/** The bitstring status entries of a credential (or its `vc` claim). */
+export function readStatusEntries(
+  credential: JsonObject,
+): CredentialStatusEntry[] {
+  const vc = asRecord(credential.vc) ?? credential;
+  const status = vc.credentialStatus ?? credential.credentialStatus;
+  const entries = Array.isArray(status) ? status : status ? [status] : [];
+  return entries.filter((entry): entry is CredentialStatusEntry =>
+    ENTRY_TYPES.has(String(asRecord(entry)?.type)),
+  );
+}
+
+/**
+ * Reads a fetched status list credential: JSON, or a JWT whose payload (or
+ * `vc` claim) is the credential. The list's signature is not checked.
+ */
+function parseStatusListCredential(body: string): JsonObject {
+  const text = body.trim();
+  let credential: JsonObject | undefined;
+  try {
+    credential = text.startsWith("{")
+      ? asRecord(JSON.parse(text))
+      : decodeJwt(text).payload;
+  } catch {
+    credential = undefined;
+  }
+  if (!credential) {
+    throw new Error("The status list is neither JSON nor a JWT");
+  }
+  return asRecord(credential.vc) ?? credential;
+}
+
+/**
+ * Fetches the status list credential at `url` and returns its decoded
+ * bitstring, checking that it is a list for `purpose`.
+ */
+export async function fetchStatusList(
+  url: string,
+  purpose: StatusPurpose,
+  options: CallOptions = {},
+): Promise<Uint8Array> {
+  const { data } = await request<string>("get status list", url, {
+    ...options,
+    responseType: "text",
+    headers: {
+      Accept: "application/vc+ld+json, application/vc+jwt, application/json",
+    },
+  });
+  const subject = asRecord(parseStatusListCredential(data).credentialSubject);
+  if (!subject || typeof subject.encodedList !== "string") {
+    throw new Error("The status list credential has no encodedList");
+  }
+  if (subject.statusPurpose !== purpose) {
+    throw new Error(
+      `The status list is for ${String(subject.statusPurpose)}, not ${purpose}`,
+    );
+  }
+  return decodeStatusList(subject.encodedList);
+}
+
+/**
+ * Whether the bit `entry` points at is set, read from the status list
+ * credential it names. Throws when the list cannot be fetched or does not
+ * fit the entry, since the status is then unknown.
+ */
+export async function fetchCredentialStatus(
+  entry: CredentialStatusEntry,
+  options: CallOptions = {},
+): Promise<boolean> {
+  const index = Number(entry.statusListIndex);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid status list index ${entry.statusListIndex}`);
+  }
+  if (!/^https?:\/\//.test(entry.statusListCredential ?? "")) {
+    throw new Error("The status entry names no status list URL");
+  }
+  const bits = await fetchStatusList(
+    entry.statusListCredential,
+    entry.statusPurpose,
+    options,
+  );
+  return isStatusSet(bits, index);
+}
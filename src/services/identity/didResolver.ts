@@ -0,0 +1,166 @@
+import type {
+  CoreDocument,
+  IToCoreDocument,
+  IotaDocument,
+  IotaIdentityClient,
+} from "@iota/identity-wasm/web";
+import bs58 from "bs58";
+import { getConfig } from "../config/configService";
+import { request, type CallOptions } from "../unicore/http";
+import { initializeWasm } from "../../utils/wasm-loader";
+import { base64UrlDecode, base64UrlEncodeBytes } from "./jwt";
+
+/*
+ * DID resolution for verifying presentations, built on the IOTA Identity
+ * resolver. `did:iota` is read from the configured node; `did:jwk` and
+ * Ed25519 `did:key` are expanded locally and `did:web` is fetched.
+ */
+
+type Identity = Awaited<ReturnType<typeof initializeWasm>>;
+type ResolvedDocument = CoreDocument | IToCoreDocument;
+
+/** Multicodec prefix of an Ed25519 public key in a `did:key`. */
+const ED25519_PUB = [0xed, 0x01];
+
+/** A document with a single verification method for `jwk`. */
+function documentForKey(
+  identity: Identity,
+  did: string,
+  jwk: Record<string, unknown>,
+  fragment: string,
+): CoreDocument {
+  const coreDid = identity.CoreDID.parse(did);
+  const document = new identity.CoreDocument({ id: coreDid });
+  document.insertMethod(
+    identity.VerificationMethod.newFromJwk(
+      coreDid,
+      identity.Jwk.fromJSON(jwk),
+      fragment,
+    ),
+    identity.MethodScope.VerificationMethod(),
+  );
+  return document;
+}
+
+function resolveDidJwk(identity: Identity, did: string): CoreDocument {
+  let jwk: unknown;
+  try {
+    jwk = JSON.parse(base64UrlDecode(did.slice("did:jwk:".length)));
+  } catch {
+    throw new Error(`${did} does not encode a JWK`);
+  }
+  if (!jwk || typeof jwk !== "object") {
+    throw new Error(`${did} does not encode a JWK`);
+  }
+  return documentForKey(identity, did, jwk as Record<string, unknown>, "0");
+}
+
+function resolveDidKey(identity: Identity, did: string): CoreDocument {
+  const multibase = did.slice("did:key:".length);
+  const bytes = multibase.startsWith("z")
+    ? bs58.decode(multibase.slice(1))
+    : null;
+  if (
+    !bytes ||
+    bytes.length !== 34 ||
+    bytes[0] !== ED25519_PUB[0] ||
+    bytes[1] !== ED25519_PUB[1]
+  ) {
+    throw new Error(`Only Ed25519 did:key DIDs are supported: ${did}`);
+  }
+  const jwk = {
+    kty: "OKP",
+    crv: "Ed25519",
+    x: base64UrlEncodeBytes(bytes.slice(2)),
+  };
+  return documentForKey(identity, did, jwk, multibase);
+}
+
+/** `did:web:example.com:users:alice` → `https://example.com/users/alice/did.json`. */
+export function didWebUrl(did: string): string {
+  const [host, ...path] = did
+    .slice("did:web:".length)
+    .split(":")
+    .map(decodeURIComponent);
+  if (!host) {
+    throw new Error(`${did} has no domain`);
+  }
+  return path.length > 0
+    ? `https://${host}/${path.join("/")}/did.json`
+    : `https://${host}/.well-known/did.json`;
+}
+
+async function resolveDidWeb(
+  identity: Identity,
+  did: string,
+  options: CallOptions,
+): Promise<CoreDocument> {
+  const { data } = await request("resolve did:web", didWebUrl(did), options);
+  return identity.CoreDocument.fromJSON(data);
+}
+
+let iotaClient: {
+  nodeUrl: string;
+  client: Promise<IotaIdentityClient>;
+} | null = null;
+
+/** The identity client for the configured node, created on first use. */
+function getIotaClient(identity: Identity): Promise<IotaIdentityClient> {
+  const { iotaNodeUrl } = getConfig();
+  if (iotaClient?.nodeUrl !== iotaNodeUrl) {
+    const client = import("@iota/sdk-wasm/web").then(async (sdk) => {
+      await sdk.default();
+      return new identity.IotaIdentityClient(
+        new sdk.Client({ nodes: [iotaNodeUrl] }),
+      );
+    });
+    client.catch(() => {
+      iotaClient = null;
+    });
+    iotaClient = { nodeUrl: iotaNodeUrl, client };
+  }
+  return iotaClient.client;
+}
+
+/**
+ * Resolves `did` to its DID document. Throws when the method is not
+ * supported or the document cannot be fetched.
+ */
+export async function resolveDid(
+  did: string,
+  options: CallOptions = {},
+): Promise<CoreDocument> {
+  const identity = await initializeWasm();
+  const handlers = new Map<string, (did: string) => Promise<ResolvedDocument>>([
+    ["jwk", async (value) => resolveDidJwk(identity, value)],
+    ["key", async (value) => resolveDidKey(identity, value)],
+    ["web", (value) => resolveDidWeb(identity, value, options)],
+    [
+      "iota",
+      async (value) =>
+        (await getIotaClient(identity)).resolveDid(
+          identity.IotaDID.parse(value),
+        ),
+    ],
+  ]);
+
+  const method = did.split(":")[1];
+  if (!method || !handlers.has(method)) {
+    throw new Error(`DID method "${method ?? did}" is not supported`);
+  }
+  const resolved = await new identity.Resolver({ handlers }).resolve(did);
+  return resolved instanceof identity.CoreDocument
+    ? resolved
+    : resolved.toCoreDocument();
+}
+
+/**
+ * The `did:iota` document as published on the configured node, kept as an
+ * `IotaDocument` so updates to it can be built and published.
+ */
+export async function resolveIotaDocument(did: string): Promise<IotaDocument> {
+  const identity = await initializeWasm();
+  return (await getIotaClient(identity)).resolveDid(
+    identity.IotaDID.parse(did),
+  );
+}
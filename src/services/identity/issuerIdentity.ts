@@ -0,0 +1,249 @@
+import { getErrorMessage } from "../unicore/errors";
+import type { DidConfiguration, DidDocument } from "../unicore/schemas";
+import { initializeWasm } from "../../utils/wasm-loader";
+import { decodeJwt } from "./jwt";
+
+/*
+ * Inspection of the agent's issuer identity: the DID document's keys and
+ * services, and the Well-Known DID Configuration linking that DID to the
+ * agent's domain. The link only holds both ways: a domain linkage
+ * credential from the domain, signed by the DID, and a `LinkedDomains`
+ * service in the DID document naming the domain.
+ */
+
+export const VERIFICATION_RELATIONSHIPS = [
+  "authentication",
+  "assertionMethod",
+  "keyAgreement",
+  "capabilityInvocation",
+  "capabilityDelegation",
+] as const;
+
+const LINKED_DOMAINS_TYPE = "LinkedDomains";
+
+export interface MethodSummary {
+  id: string;
+  type: string;
+  controller?: string;
+  /** Key type and curve, e.g. "OKP Ed25519". */
+  keyType: string;
+  /** Verification relationships the method is listed under. */
+  relationships: string[];
+}
+
+export interface ServiceSummary {
+  id: string;
+  types: string[];
+  endpoint: string;
+}
+
+export interface LinkedDidCheck {
+  did?: string;
+  valid: boolean;
+  detail: string;
+}
+
+export interface DomainLinkage {
+  domain: string;
+  /** True when the DID and the domain name each other and the proof verifies. */
+  linked: boolean;
+  /** Why they do not link; empty when `linked`. */
+  problems: string[];
+  credentials: LinkedDidCheck[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonObject | undefined =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as JsonObject)
+    : undefined;
+
+const toArray = (value: unknown): unknown[] =>
+  value === null || value === undefined
+    ? []
+    : Array.isArray(value)
+      ? value
+      : [value];
+
+/** Multibase prefixes of `did:key`-style public keys. */
+const MULTIBASE_KEY_TYPES: Array<[string, string]> = [
+  ["z6Mk", "Ed25519"],
+  ["z6LS", "X25519"],
+  ["zQ3s", "secp256k1"],
+  ["zDn", "P-256"],
+];
+
+/** A full DID URL for `id`, which may be relative to `did`. */
+const absoluteId = (id: string, did: string) =>
+  id.startsWith("#") ? `${did}${id}` : id;
+
+/** Describes the key of a verification method from its JWK or multibase. */
+export function describeKeyType(method: JsonObject): string {
+  const jwk = asRecord(method.publicKeyJwk);
+  if (jwk) {
+    return [jwk.kty, jwk.crv].filter(Boolean).join(" ") || "JWK";
+  }
+  const multibase = method.publicKeyMultibase;
+  if (typeof multibase === "string") {
+    const match = MULTIBASE_KEY_TYPES.find(([prefix]) =>
+      multibase.startsWith(prefix),
+    );
+    return match ? match[1] : "Multibase key";
+  }
+  return String(method.type);
+}
+
+/**
+ * The document's verification methods, including ones embedded in a
+ * relationship, each with the relationships that reference it.
+ */
+export function summarizeMethods(document: DidDocument): MethodSummary[] {
+  const methods = new Map<string, MethodSummary>();
+  const add = (method: JsonObject) => {
+    const id = absoluteId(String(method.id), document.id);
+    if (!methods.has(id)) {
+      methods.set(id, {
+        id,
+        type: String(method.type),
+        controller:
+          typeof method.controller === "string" ? method.controller : undefined,
+        keyType: describeKeyType(method),
+        relationships: [],
+      });
+    }
+    return methods.get(id)!;
+  };
+
+  for (const method of document.verificationMethod ?? []) {
+    add(method);
+  }
+  for (const relationship of VERIFICATION_RELATIONSHIPS) {
+    for (const entry of toArray(document[relationship])) {
+      const embedded = asRecord(entry);
+      const summary = embedded
+        ? add(embedded)
+        : typeof entry === "string"
+          ? methods.get(absoluteId(entry, document.id))
+          : undefined;
+      summary?.relationships.push(relationship);
+    }
+  }
+  return [...methods.values()];
+}
+
+export function summarizeServices(document: DidDocument): ServiceSummary[] {
+  return (document.service ?? []).map((service) => ({
+    id: absoluteId(service.id, document.id),
+    types: toArray(service.type).map(String),
+    endpoint:
+      typeof service.serviceEndpoint === "string"
+        ? service.serviceEndpoint
+        : JSON.stringify(service.serviceEndpoint),
+  }));
+}
+
+const originOf = (url: string): string | undefined => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Origins a `LinkedDomains` service endpoint names. */
+function linkedOrigins(document: DidDocument): string[] {
+  return (document.service ?? [])
+    .filter((service) => toArray(service.type).includes(LINKED_DOMAINS_TYPE))
+    .flatMap((service) => {
+      const endpoint = service.serviceEndpoint;
+      return toArray(asRecord(endpoint)?.origins ?? endpoint);
+    })
+    .map((origin) =>
+      typeof origin === "string" ? originOf(origin) : undefined,
+    )
+    .filter((origin): origin is string => !!origin);
+}
+
+/**
+ * Validates that the DID of `document` and `domain` link: each domain
+ * linkage credential in `configuration` issued by the DID is verified with
+ * IOTA Identity against `document`, and the document must list the domain
+ * in a `LinkedDomains` service.
+ */
+export async function checkDomainLinkage(
+  document: DidDocument,
+  configuration: DidConfiguration,
+  domain: string,
+): Promise<DomainLinkage> {
+  const origin = originOf(domain) ?? domain;
+  const identity = await initializeWasm();
+  const issuer = identity.CoreDocument.fromJSON(document);
+  const validator = new identity.JwtDomainLinkageValidator(
+    new identity.EdDSAJwsVerifier(),
+  );
+
+  const credentials = configuration.linked_dids.map((entry): LinkedDidCheck => {
+    if (typeof entry !== "string") {
+      return {
+        valid: false,
+        detail: "Only JWT domain linkage credentials can be validated",
+      };
+    }
+    let did: string | undefined;
+    try {
+      const { payload } = decodeJwt(entry);
+      did = typeof payload.iss === "string" ? payload.iss : undefined;
+    } catch (error) {
+      return { valid: false, detail: getErrorMessage(error) };
+    }
+    if (did !== document.id) {
+      return { did, valid: false, detail: `Issued by ${did ?? "nobody"}` };
+    }
+    try {
+      validator.validateCredential(
+        issuer,
+        new identity.Jwt(entry),
+        origin,
+        new identity.JwtCredentialValidationOptions(),
+      );
+      return { did, valid: true, detail: `Links ${did} to ${origin}` };
+    } catch (error) {
+      return {
+        did,
+        valid: false,
+        detail: getErrorMessage(
+          error,
+          typeof error === "string" ? error : JSON.stringify(error),
+        ),
+      };
+    }
+  });
+
+  const problems: string[] = [];
+  if (!credentials.some((credential) => credential.did === document.id)) {
+    problems.push(
+      `The DID configuration at ${origin} has no domain linkage credential from ${document.id}`,
+    );
+  } else if (
+    !credentials.some(
+      (credential) => credential.did === document.id && credential.valid,
+    )
+  ) {
+    problems.push(
+      `No domain linkage credential from ${document.id} verifies for ${origin}`,
+    );
+  }
+  if (!linkedOrigins(document).includes(origin)) {
+    problems.push(
+      `The DID document has no ${LINKED_DOMAINS_TYPE} service naming ${origin}`,
+    );
+  }
+
+  return {
+    domain: origin,
+    linked: problems.length === 0,
+    problems,
+    credentials,
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { base64UrlEncode, decodeJwt } from "./jwt";
+
+const segment = (value: unknown) => base64UrlEncode(JSON.stringify(value));
+
+describe("decodeJwt", () => {
+  it("splits a JWT without checking the signature", () => {
+    expect(
+      decodeJwt(` ${segment({ alg: "EdDSA" })}.${segment({ iss: "a" })}.sig `),
+    ).toEqual({
+      header: { alg: "EdDSA" },
+      payload: { iss: "a" },
+      signature: "sig",
+    });
+  });
+
+  it.each([
+    ["two parts", `${segment({})}.${segment({})}`, "Invalid JWT format"],
+    [
+      "four parts",
+      `${segment({})}.${segment({})}.sig.sig`,
+      "Invalid JWT format",
+    ],
+    [
+      "a header that is not JSON",
+      `${base64UrlEncode("{")}.${segment({})}.sig`,
+      "JWT header is not valid base64url JSON",
+    ],
+    [
+      "a payload that is an array",
+      `${segment({})}.${segment([])}.sig`,
+      "JWT payload is not a JSON object",
+    ],
+    [
+      "a payload that is null",
+      `${segment({})}.${segment(null)}.sig`,
+      "JWT payload is not a JSON object",
+    ],
+  ])("rejects %s", (_, token, message) => {
+    expect(() => decodeJwt(token)).toThrow(message);
+  });
+});
@@ -0,0 +1,56 @@
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signature: string;
+}
+
+export function base64UrlEncode(text: string): string {
+  return base64UrlEncodeBytes(new TextEncoder().encode(text));
+}
+
+export function base64UrlEncodeBytes(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function base64UrlDecode(segment: string): string {
+  return new TextDecoder().decode(base64UrlDecodeBytes(segment));
+}
+
+export function base64UrlDecodeBytes(segment: string): Uint8Array<ArrayBuffer> {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+function decodeSegment(segment: string, name: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(base64UrlDecode(segment));
+  } catch {
+    throw new Error(`JWT ${name} is not valid base64url JSON`);
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`JWT ${name} is not a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/** Splits a compact JWS/JWT without checking its signature. */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) {
+    throw new Error("Invalid JWT format");
+  }
+  return {
+    header: decodeSegment(parts[0], "header"),
+    payload: decodeSegment(parts[1], "payload"),
+    signature: parts[2],
+  };
+}
@@ -0,0 +1,401 @@
+import * as identity from "@iota/identity-wasm/node";
+import { describe, expect, it, vi } from "vitest";
+import { base64UrlEncode, base64UrlEncodeBytes } from "./jwt";
+import {
+  verifyPresentation,
+  verifySdJwtPresentation,
+  type PresentationVerification,
+} from "./presentationVerifier";
+import { KEY_BINDING_TYPE, joinSdJwt, sdHash, sha256Base64Url } from "./sdJwt";
+
+vi.mock("../../utils/wasm-loader", () => ({
+  initializeWasm: async () => identity,
+}));
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+const now = Math.floor(NOW.getTime() / 1000);
+const HOUR = 3600;
+const AUDIENCE = "https://verifier.example";
+const NONCE = "nonce-1";
+
+const options = {
+  now: NOW,
+  clockSkewSeconds: 0,
+  nonce: NONCE,
+  audience: AUDIENCE,
+};
+
+/** An Ed25519 key exposed as a `did:jwk`, signing like a wallet or issuer. */
+async function createKey() {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const { kty, crv, x } = await crypto.subtle.exportKey("jwk", pair.publicKey);
+  const jwk = { kty, crv, x };
+  const did = `did:jwk:${base64UrlEncode(JSON.stringify(jwk))}`;
+  return {
+    did,
+    jwk,
+    async sign(payload: Record<string, unknown>, typ = "JWT") {
+      const header = { alg: "EdDSA", typ, kid: `${did}#0` };
+      const input = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+      const signature = await crypto.subtle.sign(
+        "Ed25519",
+        pair.privateKey,
+        new TextEncoder().encode(input),
+      );
+      return `${input}.${base64UrlEncodeBytes(new Uint8Array(signature))}`;
+    },
+  };
+}
+
+type Key = Awaited<ReturnType<typeof createKey>>;
+
+const failed = (result: PresentationVerification) =>
+  result.checks.filter((check) => !check.passed).map((check) => check.name);
+
+/** Swaps the payload of a signed JWT, keeping the original signature. */
+function tamper(token: string, payload: Record<string, unknown>) {
+  const [header, , signature] = token.split(".");
+  return [header, base64UrlEncode(JSON.stringify(payload)), signature].join(
+    ".",
+  );
+}
+
+describe("verifyPresentation", () => {
+  const credentialPayload = (issuer: Key, subject: string) => ({
+    iss: issuer.did,
+    sub: subject,
+    iat: now - HOUR,
+    exp: now + HOUR,
+    vc: {
+      type: ["VerifiableCredential", "EducationCredential"],
+      credentialSubject: { id: subject, degree: "MSc" },
+    },
+  });
+
+  const presentationPayload = (holder: Key, credential: string) => ({
+    iss: holder.did,
+    aud: AUDIENCE,
+    nonce: NONCE,
+    iat: now,
+    exp: now + 300,
+    vp: {
+      type: ["VerifiablePresentation"],
+      holder: holder.did,
+      verifiableCredential: [credential],
+    },
+  });
+
+  async function present(
+    patch: {
+      credential?: Record<string, unknown>;
+      presentation?: Record<string, unknown>;
+    } = {},
+  ) {
+    const [issuer, holder] = await Promise.all([createKey(), createKey()]);
+    const credential = await issuer.sign({
+      ...credentialPayload(issuer, holder.did),
+      ...patch.credential,
+    });
+    return holder.sign({
+      ...presentationPayload(holder, credential),
+      ...patch.presentation,
+    });
+  }
+
+  it("passes every check for a well-formed presentation", async () => {
+    const result = await verifyPresentation(await present(), options);
+
+    expect(failed(result)).toEqual([]);
+    expect(result.verified).toBe(true);
+    expect(result.credentials[0].claims).toEqual({ degree: "MSc" });
+  });
+
+  it("rejects a presentation signed over another nonce", async () => {
+    const result = await verifyPresentation(
+      await present({ presentation: { nonce: "nonce-2" } }),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Nonce"]);
+    expect(result.verified).toBe(false);
+  });
+
+  it("rejects a presentation without a nonce", async () => {
+    const result = await verifyPresentation(
+      await present({ presentation: { nonce: undefined } }),
+      options,
+    );
+
+    expect(result.checks.find((check) => check.name === "Nonce")).toMatchObject(
+      { passed: false, detail: "The presentation has no nonce" },
+    );
+  });
+
+  it("rejects a presentation addressed to another verifier", async () => {
+    const result = await verifyPresentation(
+      await present({ presentation: { aud: "https://other.example" } }),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Audience (aud)"]);
+  });
+
+  it("rejects a presentation whose payload was changed after signing", async () => {
+    const [issuer, holder] = await Promise.all([createKey(), createKey()]);
+    const credential = await issuer.sign(credentialPayload(issuer, holder.did));
+    const payload = presentationPayload(holder, credential);
+    const token = tamper(await holder.sign(payload), {
+      ...payload,
+      nonce: "nonce-2",
+    });
+
+    const result = await verifyPresentation(token, {
+      ...options,
+      nonce: "nonce-2",
+    });
+
+    expect(failed(result)).toEqual(["Holder signature"]);
+  });
+
+  it("rejects a presentation signed by someone other than its holder", async () => {
+    const [issuer, holder, other] = await Promise.all([
+      createKey(),
+      createKey(),
+      createKey(),
+    ]);
+    const credential = await issuer.sign(credentialPayload(issuer, holder.did));
+    const token = await other.sign(presentationPayload(holder, credential));
+
+    const result = await verifyPresentation(token, options);
+
+    expect(failed(result)).toEqual(["Holder signature"]);
+  });
+
+  it("rejects a presentation whose iss and vp.holder differ", async () => {
+    const other = await createKey();
+    const result = await verifyPresentation(
+      await present({ presentation: { iss: other.did } }),
+      options,
+    );
+
+    expect(
+      result.checks.find((check) => check.name === "Holder signature"),
+    ).toMatchObject({
+      passed: false,
+      detail: expect.stringMatching(/differs/),
+    });
+  });
+
+  it("rejects a credential not signed by its issuer", async () => {
+    const [issuer, forger, holder] = await Promise.all([
+      createKey(),
+      createKey(),
+      createKey(),
+    ]);
+    const credential = await forger.sign(credentialPayload(issuer, holder.did));
+    const token = await holder.sign(presentationPayload(holder, credential));
+
+    const result = await verifyPresentation(token, options);
+
+    expect(failed(result)).toEqual(["Issuer signature"]);
+  });
+
+  it("rejects an expired credential", async () => {
+    const result = await verifyPresentation(
+      await present({ credential: { exp: now - 60 } }),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Not expired (exp)"]);
+  });
+
+  it("accepts an expired credential within the clock skew", async () => {
+    const result = await verifyPresentation(
+      await present({ credential: { exp: now - 60 } }),
+      { ...options, clockSkewSeconds: 120 },
+    );
+
+    expect(failed(result)).toEqual([]);
+  });
+
+  it("rejects a credential that is not valid yet", async () => {
+    const result = await verifyPresentation(
+      await present({ credential: { nbf: now + HOUR } }),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Already valid (nbf)"]);
+  });
+
+  it("rejects an expired presentation", async () => {
+    const result = await verifyPresentation(
+      await present({ presentation: { exp: now - 60 } }),
+      options,
+    );
+
+    expect(result.checks.filter((check) => !check.passed)).toEqual([
+      expect.objectContaining({
+        target: "Presentation",
+        name: "Not expired (exp)",
+      }),
+    ]);
+  });
+
+  it("rejects a credential issued to someone other than the holder", async () => {
+    const [issuer, holder, other] = await Promise.all([
+      createKey(),
+      createKey(),
+      createKey(),
+    ]);
+    const credential = await issuer.sign(credentialPayload(issuer, other.did));
+    const token = await holder.sign(presentationPayload(holder, credential));
+
+    const result = await verifyPresentation(token, options);
+
+    expect(failed(result)).toEqual(["Holder binding"]);
+  });
+
+  it("rejects a JWT that is not a presentation", async () => {
+    const holder = await createKey();
+    const result = await verifyPresentation(
+      await holder.sign({ iss: holder.did }),
+      options,
+    );
+
+    expect(result.checks).toEqual([
+      expect.objectContaining({
+        name: "Format",
+        passed: false,
+        detail: "The JWT has no vp claim",
+      }),
+    ]);
+  });
+});
+
+describe("verifySdJwtPresentation", () => {
+  const disclosure = base64UrlEncode(
+    JSON.stringify(["salt-1", "degree", "MSc"]),
+  );
+
+  async function issue(issuer: Key, holder: Key) {
+    const jwt = await issuer.sign(
+      {
+        iss: issuer.did,
+        vct: "EducationCredential",
+        iat: now - HOUR,
+        exp: now + HOUR,
+        cnf: { jwk: holder.jwk },
+        _sd_alg: "sha-256",
+        _sd: [await sha256Base64Url(disclosure)],
+      },
+      "vc+sd-jwt",
+    );
+    return joinSdJwt(jwt, [disclosure]);
+  }
+
+  const keyBinding = async (
+    holder: Key,
+    credential: string,
+    patch: Record<string, unknown> = {},
+  ) =>
+    holder.sign(
+      {
+        iat: now,
+        aud: AUDIENCE,
+        nonce: NONCE,
+        sd_hash: await sdHash(credential),
+        ...patch,
+      },
+      KEY_BINDING_TYPE,
+    );
+
+  async function present(patch?: Record<string, unknown>) {
+    const [issuer, holder] = await Promise.all([createKey(), createKey()]);
+    const credential = await issue(issuer, holder);
+    return credential + (await keyBinding(holder, credential, patch));
+  }
+
+  it("passes every check for a key-bound presentation", async () => {
+    const result = await verifySdJwtPresentation(await present(), options);
+
+    expect(failed(result)).toEqual([]);
+    expect(result.credentials[0].claims).toMatchObject({ degree: "MSc" });
+  });
+
+  it("rejects a key binding JWT over other disclosures", async () => {
+    const result = await verifySdJwtPresentation(
+      await present({ sd_hash: await sha256Base64Url("other") }),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Presentation hash (sd_hash)"]);
+  });
+
+  it("rejects a presentation that drops a disclosure after binding", async () => {
+    const [issuer, holder] = await Promise.all([createKey(), createKey()]);
+    const credential = await issue(issuer, holder);
+    const binding = await keyBinding(holder, credential);
+    const [jwt] = credential.split("~");
+
+    const result = await verifySdJwtPresentation(
+      `${joinSdJwt(jwt, [])}${binding}`,
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Presentation hash (sd_hash)"]);
+  });
+
+  it("rejects a key binding JWT with the wrong nonce or audience", async () => {
+    const result = await verifySdJwtPresentation(
+      await present({ nonce: "nonce-2", aud: "https://other.example" }),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Nonce", "Audience (aud)"]);
+  });
+
+  it("rejects a key binding JWT not signed with the bound key", async () => {
+    const [issuer, holder, other] = await Promise.all([
+      createKey(),
+      createKey(),
+      createKey(),
+    ]);
+    const credential = await issue(issuer, holder);
+
+    const result = await verifySdJwtPresentation(
+      credential + (await keyBinding(other, credential)),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Holder signature"]);
+  });
+
+  it("rejects a presentation without a key binding JWT", async () => {
+    const [issuer, holder] = await Promise.all([createKey(), createKey()]);
+
+    const result = await verifySdJwtPresentation(
+      await issue(issuer, holder),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Key binding"]);
+  });
+
+  it("rejects a disclosure the issuer did not sign", async () => {
+    const [issuer, holder] = await Promise.all([createKey(), createKey()]);
+    const [jwt] = (await issue(issuer, holder)).split("~");
+    const forged = joinSdJwt(jwt, [
+      base64UrlEncode(JSON.stringify(["salt-1", "degree", "PhD"])),
+    ]);
+
+    const result = await verifySdJwtPresentation(
+      forged + (await keyBinding(holder, forged)),
+      options,
+    );
+
+    expect(failed(result)).toEqual(["Disclosure digests"]);
+  });
+});
@@ -0,0 +1,651 @@
+import { getConfig } from "../config/configService";
+import { getErrorMessage } from "../unicore/errors";
+import type { CallOptions } from "../unicore/http";
+import { initializeWasm } from "../../utils/wasm-loader";
+import { fetchCredentialStatus, readStatusEntries } from "./credentialStatus";
+import { resolveDid } from "./didResolver";
+import { base64UrlEncode, decodeJwt, type DecodedJwt } from "./jwt";
+import {
+  checkRevocationBitmap,
+  readRevocationBitmapEntries,
+} from "./revocationBitmap";
+import {
+  KEY_BINDING_TYPE,
+  formatClaimPath,
+  isSdJwt,
+  revealSdJwt,
+  sdHash,
+  sdJwtVcClaims,
+  splitSdJwt,
+  type RevealedSdJwt,
+} from "./sdJwt";
+
+/*
+ * Cryptographic verification of a received `vp_token`: the holder's
+ * signature on each JWT VP and the issuer's on each embedded JWT VC, both
+ * against the signer's resolved DID document, plus validity times and holder
+ * binding. SD-JWT presentations get their disclosures checked against the
+ * signed digests and the holder's key binding JWT verified instead.
+ * Credentials with a `credentialStatus` are looked up in their issuer's
+ * status list or, for IOTA revocation bitmaps, the issuer's DID document.
+ * Every check is reported so a failure can be explained.
+ */
+
+export interface VerificationCheck {
+  /** "Presentation" or the credential the check applies to. */
+  target: string;
+  name: string;
+  passed: boolean;
+  detail?: string;
+  /** Why the result, pass or fail, cannot be fully relied on. */
+  caveat?: string;
+}
+
+export interface VerifiedCredential {
+  target: string;
+  issuer?: string;
+  subject?: string;
+  types: string[];
+  claims: Record<string, unknown>;
+  /**
+   * For SD-JWTs: the claims the holder chose to reveal, as paths within
+   * `claims` (or the payload, for claims outside the subject).
+   */
+  disclosed?: string[];
+}
+
+export interface PresentationVerification {
+  /** True when every check passed. */
+  verified: boolean;
+  holder?: string;
+  checks: VerificationCheck[];
+  credentials: VerifiedCredential[];
+}
+
+export interface VerifyPresentationOptions extends CallOptions {
+  /** Leeway for `exp`, `nbf` and `iat`; defaults to the configured skew. */
+  clockSkewSeconds?: number;
+  now?: Date;
+  /** `nonce` we issued; the VP must be signed over it. */
+  nonce?: string;
+  /** Our `client_id`; the VP's `aud` must name it. */
+  audience?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonObject | undefined =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as JsonObject)
+    : undefined;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+const toArray = (value: unknown): unknown[] =>
+  value === null || value === undefined
+    ? []
+    : Array.isArray(value)
+      ? value
+      : [value];
+
+/** The DID part of a DID or DID URL. */
+const toDid = (value: string) => value.split("#")[0].split("?")[0];
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+/** Identity WASM errors are often plain strings or objects. */
+const describe = (error: unknown) =>
+  getErrorMessage(
+    error,
+    typeof error === "string" ? error : JSON.stringify(error),
+  );
+
+/**
+ * Verifies the compact JWS `token` with the key its `kid` names in the
+ * document of `signer`. Throws with the reason when it does not verify.
+ */
+async function verifyJwtSignature(
+  token: string,
+  header: JsonObject,
+  signer: string,
+  options: CallOptions,
+): Promise<void> {
+  const identity = await initializeWasm();
+  const document = await resolveDid(signer, options);
+  const kid = asString(header.kid);
+  if (kid && !kid.startsWith("#") && toDid(kid) !== signer) {
+    throw new Error(`Signed with ${kid}, which is not a key of ${signer}`);
+  }
+  const methodId = !kid
+    ? document.methods()[0]?.id()
+    : kid.startsWith("#")
+      ? identity.DIDUrl.parse(`${signer}${kid}`)
+      : undefined;
+  document.verifyJws(
+    new identity.Jws(token),
+    new identity.JwsVerificationOptions(methodId ? { methodId } : {}),
+    new identity.EdDSAJwsVerifier(),
+  );
+}
+
+class CheckList {
+  readonly checks: VerificationCheck[] = [];
+
+  constructor(private readonly target: string) {}
+
+  add(name: string, passed: boolean, detail?: string, caveat?: string) {
+    this.checks.push({ target: this.target, name, passed, detail, caveat });
+    return passed;
+  }
+
+  /** Runs `check`; it passes unless it throws. */
+  async run(
+    name: string,
+    check: () => Promise<string | void>,
+    caveat?: string,
+  ) {
+    try {
+      return this.add(name, true, (await check()) ?? undefined, caveat);
+    } catch (error) {
+      return this.add(name, false, describe(error), caveat);
+    }
+  }
+
+  /** Checks the `nonce` and `aud` we asked for, when given. */
+  request(payload: JsonObject, options: VerifyPresentationOptions) {
+    if (options.nonce !== undefined) {
+      this.add(
+        "Nonce",
+        payload.nonce === options.nonce,
+        typeof payload.nonce === "string"
+          ? payload.nonce === options.nonce
+            ? "Matches the request"
+            : "Does not match the nonce we issued"
+          : "The presentation has no nonce",
+      );
+    }
+    if (options.audience !== undefined) {
+      const audiences = toArray(payload.aud);
+      this.add(
+        "Audience (aud)",
+        audiences.includes(options.audience),
+        audiences.length > 0
+          ? `Addressed to ${audiences.join(", ")}`
+          : "The presentation names no audience",
+      );
+    }
+  }
+
+  /** Checks `exp`, `nbf` and `iat` where present. */
+  times(payload: JsonObject, now: number, skew: number) {
+    const { exp, nbf, iat } = payload;
+    if (typeof exp === "number") {
+      this.add(
+        "Not expired (exp)",
+        exp > now - skew,
+        `Expires ${formatTime(exp)}`,
+      );
+    }
+    if (typeof nbf === "number") {
+      this.add(
+        "Already valid (nbf)",
+        nbf <= now + skew,
+        `Valid from ${formatTime(nbf)}`,
+      );
+    }
+    if (typeof iat === "number") {
+      this.add(
+        "Not issued in the future (iat)",
+        iat <= now + skew,
+        `Issued ${formatTime(iat)}`,
+      );
+    }
+  }
+}
+
+/** Check name and failure reason per status purpose we act on. */
+const STATUS_CHECKS: Record<string, { name: string; reason: string }> = {
+  revocation: { name: "Not revoked", reason: "Revoked by the issuer" },
+  suspension: { name: "Not suspended", reason: "Suspended by the issuer" },
+};
+
+/**
+ * Status lists are fetched as published: unsigned, or signed but not
+ * verified, and not tied to the credential's issuer.
+ */
+const STATUS_LIST_CAVEAT =
+  "Unauthenticated: the status list's signature and issuer are not checked, so whoever controls its URL controls this result";
+
+/**
+ * Looks up each revocation and suspension entry in its status list, and
+ * each revocation bitmap entry in the issuer's DID document.
+ */
+async function checkStatus(
+  list: CheckList,
+  payload: JsonObject,
+  options: CallOptions,
+) {
+  for (const entry of readStatusEntries(payload)) {
+    const check = STATUS_CHECKS[entry.statusPurpose];
+    if (!check) continue;
+    const where = `index ${entry.statusListIndex} of ${entry.statusListCredential}`;
+    await list.run(
+      check.name,
+      async () => {
+        if (await fetchCredentialStatus(entry, options)) {
+          throw new Error(`${check.reason} (${where})`);
+        }
+        return `Clear at ${where}`;
+      },
+      STATUS_LIST_CAVEAT,
+    );
+  }
+  for (const entry of readRevocationBitmapEntries(payload)) {
+    const { name, reason } = STATUS_CHECKS.revocation;
+    await list.run(name, async () => {
+      if (await checkRevocationBitmap(entry, options)) {
+        throw new Error(`${reason} (${entry.id} in the issuer DID document)`);
+      }
+      return `Clear at ${entry.id}`;
+    });
+  }
+}
+
+/**
+ * Applies the disclosures of an SD-JWT, recording whether they match the
+ * signed digests. Returns undefined when they do not.
+ */
+async function revealDisclosures(
+  list: CheckList,
+  credential: string,
+): Promise<RevealedSdJwt | undefined> {
+  try {
+    const revealed = await revealSdJwt(credential);
+    list.add(
+      "Disclosure digests",
+      true,
+      `${revealed.disclosed.length} disclosure(s) match the signed digests`,
+    );
+    return revealed;
+  } catch (error) {
+    list.add("Disclosure digests", false, describe(error));
+    return undefined;
+  }
+}
+
+/**
+ * Where the revealed claims are relative to the subject claims, so they can
+ * be shown next to them.
+ */
+function disclosedPaths(revealed: RevealedSdJwt): string[] {
+  const { payload } = revealed;
+  const prefix = asRecord(asRecord(payload.vc)?.credentialSubject)
+    ? ["vc", "credentialSubject"]
+    : asRecord(payload.credentialSubject)
+      ? ["credentialSubject"]
+      : [];
+  return revealed.disclosed.map(({ path }) =>
+    formatClaimPath(
+      prefix.every((segment, index) => path[index] === segment)
+        ? path.slice(prefix.length)
+        : path,
+    ),
+  );
+}
+
+/**
+ * Verifies one credential. `holder` is who presented it: its subject must
+ * be that holder, unless `keyBound`, when the caller checks a key binding
+ * JWT instead.
+ */
+async function verifyCredential(
+  credential: unknown,
+  target: string,
+  holder: string | undefined,
+  now: number,
+  skew: number,
+  options: CallOptions,
+  keyBound = false,
+): Promise<{ checks: VerificationCheck[]; credential: VerifiedCredential }> {
+  const list = new CheckList(target);
+  const summary: VerifiedCredential = { target, types: [], claims: {} };
+
+  if (typeof credential !== "string") {
+    list.add(
+      "Format",
+      false,
+      "Only JWT credentials can be verified; this one is embedded as JSON",
+    );
+    return { checks: list.checks, credential: summary };
+  }
+
+  // An SD-JWT carries disclosures after the issuer-signed JWT.
+  const jwt = credential.split("~")[0];
+  let decoded: DecodedJwt;
+  try {
+    decoded = decodeJwt(jwt);
+  } catch (error) {
+    list.add("Format", false, describe(error));
+    return { checks: list.checks, credential: summary };
+  }
+
+  const { header } = decoded;
+  const revealed = isSdJwt(credential)
+    ? await revealDisclosures(list, credential)
+    : undefined;
+  // Claims are read from the revealed payload; the signature covers the
+  // digests in the original one.
+  const payload = revealed?.payload ?? decoded.payload;
+  const vc = asRecord(payload.vc) ?? payload;
+  const subject = isSdJwt(credential)
+    ? sdJwtVcClaims(payload)
+    : (asRecord(vc.credentialSubject) ?? {});
+  const issuer =
+    asString(payload.iss) ??
+    asString(vc.issuer) ??
+    asString(asRecord(vc.issuer)?.id);
+  const subjectId = asString(payload.sub) ?? asString(subject.id);
+  const claims = Object.fromEntries(
+    Object.entries(subject).filter(([key]) => key !== "id"),
+  );
+
+  Object.assign(summary, {
+    issuer,
+    subject: subjectId,
+    types: toArray(vc.type ?? payload.vct).filter(
+      (type): type is string => typeof type === "string",
+    ),
+    claims,
+    ...(revealed && { disclosed: disclosedPaths(revealed) }),
+  });
+
+  if (!issuer) {
+    list.add("Issuer signature", false, "The credential names no issuer");
+  } else {
+    await list.run("Issuer signature", async () => {
+      await verifyJwtSignature(jwt, header, toDid(issuer), options);
+      return `Signed by ${issuer}`;
+    });
+  }
+  list.times(payload, now, skew);
+  await checkStatus(list, payload, options);
+
+  if (keyBound) {
+    // The caller proves possession of the bound key.
+  } else if (!holder) {
+    list.add("Holder binding", false, "The presentation names no holder");
+  } else if (!subjectId) {
+    list.add(
+      "Holder binding",
+      false,
+      "The credential has no subject to bind to the holder",
+    );
+  } else {
+    list.add(
+      "Holder binding",
+      toDid(subjectId) === toDid(holder),
+      `Subject ${subjectId}, holder ${holder}`,
+    );
+  }
+
+  return { checks: list.checks, credential: summary };
+}
+
+/** Verifies one JWT VP and the JWT VCs inside it. */
+export async function verifyPresentation(
+  presentation: string,
+  options: VerifyPresentationOptions = {},
+  target = "Presentation",
+): Promise<PresentationVerification> {
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const skew = options.clockSkewSeconds ?? getConfig().clockSkewSeconds;
+  const list = new CheckList(target);
+  const result: PresentationVerification = {
+    verified: false,
+    checks: list.checks,
+    credentials: [],
+  };
+
+  let decoded: DecodedJwt;
+  try {
+    decoded = decodeJwt(presentation);
+  } catch (error) {
+    list.add("Format", false, describe(error));
+    return result;
+  }
+  const { header, payload } = decoded;
+  const vp = asRecord(payload.vp);
+  if (!list.add("Format", !!vp, vp ? "JWT VP" : "The JWT has no vp claim")) {
+    return result;
+  }
+
+  const iss = asString(payload.iss);
+  const vpHolder = asString(vp!.holder) ?? asString(asRecord(vp!.holder)?.id);
+  const holder = iss ?? vpHolder;
+  result.holder = holder;
+  if (!holder) {
+    list.add("Holder signature", false, "The presentation names no holder");
+  } else if (iss && vpHolder && toDid(iss) !== toDid(vpHolder)) {
+    list.add(
+      "Holder signature",
+      false,
+      `iss ${iss} differs from vp.holder ${vpHolder}`,
+    );
+  } else {
+    await list.run("Holder signature", async () => {
+      await verifyJwtSignature(presentation, header, toDid(holder), options);
+      return `Signed by ${holder}`;
+    });
+  }
+  list.times(payload, now, skew);
+  list.request(payload, options);
+
+  const credentials = toArray(vp!.verifiableCredential);
+  list.add(
+    "Contains credentials",
+    credentials.length > 0,
+    `${credentials.length} credential(s)`,
+  );
+  for (const [index, credential] of credentials.entries()) {
+    const verified = await verifyCredential(
+      credential,
+      `${target} · credential ${index + 1}`,
+      holder,
+      now,
+      skew,
+      options,
+    );
+    list.checks.push(...verified.checks);
+    result.credentials.push(verified.credential);
+  }
+
+  result.verified = list.checks.every((check) => check.passed);
+  return result;
+}
+
+/**
+ * The DID of the key an SD-JWT is bound to: `cnf.kid`, a `cnf.jwk` as a
+ * `did:jwk`, or a DID subject.
+ */
+function boundHolder(payload: JsonObject): string | undefined {
+  const cnf = asRecord(payload.cnf);
+  const kid = asString(cnf?.kid);
+  if (kid) {
+    return toDid(kid);
+  }
+  const jwk = asRecord(cnf?.jwk);
+  if (jwk) {
+    return `did:jwk:${base64UrlEncode(JSON.stringify(jwk))}`;
+  }
+  const sub = asString(payload.sub);
+  return sub?.startsWith("did:") ? toDid(sub) : undefined;
+}
+
+/**
+ * Verifies an SD-JWT presentation: the issuer-signed credential with its
+ * disclosures, and the key binding JWT proving the holder of the bound key
+ * presented exactly these disclosures to us.
+ */
+export async function verifySdJwtPresentation(
+  presentation: string,
+  options: VerifyPresentationOptions = {},
+  target = "Presentation",
+): Promise<PresentationVerification> {
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const skew = options.clockSkewSeconds ?? getConfig().clockSkewSeconds;
+  const list = new CheckList(target);
+  const result: PresentationVerification = {
+    verified: false,
+    checks: list.checks,
+    credentials: [],
+  };
+
+  const { jwt, keyBindingJwt } = splitSdJwt(presentation);
+  let payload: JsonObject;
+  try {
+    payload = decodeJwt(jwt).payload;
+  } catch (error) {
+    list.add("Format", false, describe(error));
+    return result;
+  }
+  list.add("Format", true, "SD-JWT");
+
+  const holder = boundHolder(payload);
+  result.holder = holder;
+  const verified = await verifyCredential(
+    presentation,
+    `${target} · credential`,
+    holder,
+    now,
+    skew,
+    options,
+    true,
+  );
+
+  if (!keyBindingJwt) {
+    list.add(
+      "Key binding",
+      false,
+      "The presentation has no key binding JWT, so anyone holding the credential could have sent it",
+    );
+  } else {
+    let keyBinding: DecodedJwt | undefined;
+    try {
+      keyBinding = decodeJwt(keyBindingJwt);
+    } catch (error) {
+      list.add("Key binding", false, describe(error));
+    }
+    if (keyBinding) {
+      const { header, payload: claims } = keyBinding;
+      list.add(
+        "Key binding JWT type",
+        header.typ === KEY_BINDING_TYPE,
+        `typ ${String(header.typ ?? "missing")}`,
+      );
+      if (!holder) {
+        list.add(
+          "Holder signature",
+          false,
+          "The credential is bound to no key (no cnf claim)",
+        );
+      } else {
+        await list.run("Holder signature", async () => {
+          // A `cnf.jwk` is checked as such, whatever `kid` the header names.
+          const signedHeader = asRecord(payload.cnf)?.kid
+            ? header
+            : { ...header, kid: undefined };
+          await verifyJwtSignature(
+            keyBindingJwt,
+            signedHeader,
+            holder,
+            options,
+          );
+          return "Signed with the key bound to the credential";
+        });
+      }
+      const expected = await sdHash(presentation);
+      list.add(
+        "Presentation hash (sd_hash)",
+        claims.sd_hash === expected,
+        claims.sd_hash === expected
+          ? "Covers the presented disclosures"
+          : typeof claims.sd_hash === "string"
+            ? "Does not match the presented disclosures"
+            : "The key binding JWT has no sd_hash",
+      );
+      list.times(claims, now, skew);
+      list.request(claims, options);
+    }
+  }
+
+  list.checks.push(...verified.checks);
+  result.credentials.push(verified.credential);
+  result.verified = list.checks.every((check) => check.passed);
+  return result;
+}
+
+/**
+ * Verifies every presentation in a `vp_token`: a single JWT VP or SD-JWT, a
+ * list of them, or a DCQL object of lists keyed by credential query ID.
+ */
+export async function verifyVpToken(
+  vpToken: unknown,
+  options: VerifyPresentationOptions = {},
+): Promise<PresentationVerification> {
+  let parsed = vpToken;
+  if (typeof vpToken === "string" && /^\s*[[{]/.test(vpToken)) {
+    try {
+      parsed = JSON.parse(vpToken);
+    } catch {
+      // Not JSON after all; verified as a JWT below.
+    }
+  }
+
+  const labelled: Array<[string, unknown]> = asRecord(parsed)
+    ? Object.entries(parsed as JsonObject).flatMap(([id, value]) =>
+        toArray(value).map((item): [string, unknown] => [
+          `Presentation for ${id}`,
+          item,
+        ]),
+      )
+    : toArray(parsed).map((item, index, all) => [
+        all.length > 1 ? `Presentation ${index + 1}` : "Presentation",
+        item,
+      ]);
+
+  const combined: PresentationVerification = {
+    verified: false,
+    checks: [],
+    credentials: [],
+  };
+  if (labelled.length === 0) {
+    combined.checks.push({
+      target: "Presentation",
+      name: "Format",
+      passed: false,
+      detail: "The vp_token is empty",
+    });
+    return combined;
+  }
+
+  for (const [target, presentation] of labelled) {
+    if (typeof presentation !== "string") {
+      combined.checks.push({
+        target,
+        name: "Format",
+        passed: false,
+        detail: "Only JWT and SD-JWT presentations can be verified",
+      });
+      continue;
+    }
+    const result = isSdJwt(presentation)
+      ? await verifySdJwtPresentation(presentation, options, target)
+      : await verifyPresentation(presentation, options, target);
+    combined.holder ??= result.holder;
+    combined.checks.push(...result.checks);
+    combined.credentials.push(...result.credentials);
+  }
+  combined.verified = combined.checks.every((check) => check.passed);
+  return combined;
+}
@@ -0,0 +1,105 @@
+import * as identity from "@iota/identity-wasm/node";
+import { describe, expect, it, vi } from "vitest";
+import {
+  checkRevocationBitmap,
+  mergeRevocationBitmap,
+  parseRevocationBitmapEntry,
+  revocationBitmapEntry,
+} from "./revocationBitmap";
+
+// The browser build needs its WASM fetched; tests load the Node build.
+vi.mock("../../utils/wasm-loader", () => ({
+  initializeWasm: async () => identity,
+}));
+
+/** A local in-memory issuer document, optionally already revoking `revoked`. */
+function issuerDocument(revoked: number[] = []): identity.IotaDocument {
+  const document = new identity.IotaDocument("smr");
+  if (revoked.length > 0) {
+    const bitmap = new identity.RevocationBitmap();
+    revoked.forEach((index) => bitmap.revoke(index));
+    document.insertService(bitmap.toService(document.id().join("#revocation")));
+  }
+  return document;
+}
+
+/** Publishing and resolving again, as a verifier would see the document. */
+const reResolve = (document: identity.IotaDocument) =>
+  identity.CoreDocument.fromJSON(JSON.parse(JSON.stringify(document.toJSON())));
+
+const isRevoked = (document: identity.IotaDocument, index: number) =>
+  checkRevocationBitmap(
+    revocationBitmapEntry(document.id().toString(), index),
+    { resolve: async () => reResolve(document) },
+  );
+
+describe("mergeRevocationBitmap", () => {
+  it("adds the service when the document has none", async () => {
+    const document = issuerDocument();
+    await mergeRevocationBitmap(document, [2, 5]);
+
+    expect(await isRevoked(document, 2)).toBe(true);
+    expect(await isRevoked(document, 5)).toBe(true);
+    expect(await isRevoked(document, 3)).toBe(false);
+  });
+
+  it("keeps bits already revoked in the published document", async () => {
+    const document = issuerDocument([7, 9]);
+    await mergeRevocationBitmap(document, [2]);
+
+    expect(await isRevoked(document, 2)).toBe(true);
+    expect(await isRevoked(document, 7)).toBe(true);
+    expect(await isRevoked(document, 9)).toBe(true);
+  });
+
+  it("never clears a bit when nothing is revoked locally", async () => {
+    const document = issuerDocument([7]);
+    await mergeRevocationBitmap(document, []);
+
+    expect(await isRevoked(document, 7)).toBe(true);
+  });
+
+  it("refuses to replace a service of another type", async () => {
+    const document = issuerDocument();
+    document.insertService(
+      new identity.Service({
+        id: document.id().join("#revocation"),
+        type: "LinkedDomains",
+        serviceEndpoint: "https://issuer.example",
+      }),
+    );
+
+    await expect(mergeRevocationBitmap(document, [1])).rejects.toThrow(
+      /LinkedDomains/,
+    );
+  });
+});
+
+describe("checkRevocationBitmap", () => {
+  it("fails when the issuer document has no bitmap service", async () => {
+    await expect(isRevoked(issuerDocument(), 0)).rejects.toThrow(
+      /has no service/,
+    );
+  });
+});
+
+describe("parseRevocationBitmapEntry", () => {
+  const did = "did:iota:smr:0x01";
+
+  it("reads the DID, service and index", () => {
+    expect(parseRevocationBitmapEntry(revocationBitmapEntry(did, 4))).toEqual({
+      did,
+      serviceUrl: `${did}#revocation`,
+      index: 4,
+    });
+  });
+
+  it("rejects an index that disagrees with the id", () => {
+    expect(() =>
+      parseRevocationBitmapEntry({
+        ...revocationBitmapEntry(did, 4),
+        revocationBitmapIndex: "5",
+      }),
+    ).toThrow(/index 4/);
+  });
+});
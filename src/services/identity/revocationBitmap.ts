@@ -0,0 +1,163 @@
+import type { CoreDocument, IotaDocument } from "@iota/identity-wasm/web";
+import type { CallOptions } from "../unicore/http";
+import { initializeWasm } from "../../utils/wasm-loader";
+import { resolveDid } from "./didResolver";
+
+/*
+ * IOTA Identity revocation: the issuer's DID document carries a
+ * `RevocationBitmap2022` service whose endpoint is a compressed bitmap, and
+ * a credential's `credentialStatus` names that service and its index. A set
+ * bit means the credential is revoked. Changing a bit is a DID document
+ * update, which only the DID's controller can publish.
+ */
+
+export const REVOCATION_BITMAP_TYPE = "RevocationBitmap2022";
+
+/** Fragment of the service in the issuer document, `did:iota:...#revocation`. */
+export const REVOCATION_SERVICE_FRAGMENT = "revocation";
+
+export interface RevocationBitmapEntry {
+  /** `<issuer DID>?index=<index>#<service fragment>` */
+  id: string;
+  type: typeof REVOCATION_BITMAP_TYPE;
+  revocationBitmapIndex: string;
+}
+
+/** Either kind of document; both resolve and update services the same way. */
+export type RevocableDocument = CoreDocument | IotaDocument;
+
+export interface RevocationCheckOptions extends CallOptions {
+  /**
+   * Resolves the issuer document; defaults to `resolveDid`. Pass a local
+   * in-memory document to check without a network.
+   */
+  resolve?: (did: string) => Promise<RevocableDocument>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonObject | undefined =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as JsonObject)
+    : undefined;
+
+export function revocationBitmapEntry(
+  did: string,
+  index: number,
+  fragment = REVOCATION_SERVICE_FRAGMENT,
+): RevocationBitmapEntry {
+  return {
+    id: `${did}?index=${index}#${fragment}`,
+    type: REVOCATION_BITMAP_TYPE,
+    revocationBitmapIndex: String(index),
+  };
+}
+
+/** The revocation bitmap entries of a credential (or its `vc` claim). */
+export function readRevocationBitmapEntries(
+  credential: JsonObject,
+): RevocationBitmapEntry[] {
+  const vc = asRecord(credential.vc) ?? credential;
+  const status = vc.credentialStatus ?? credential.credentialStatus;
+  const entries = Array.isArray(status) ? status : status ? [status] : [];
+  return entries.filter(
+    (entry): entry is RevocationBitmapEntry =>
+      asRecord(entry)?.type === REVOCATION_BITMAP_TYPE,
+  );
+}
+
+/**
+ * The issuer DID, service URL and index an entry points at. Throws when the
+ * index is missing or disagrees with the one in the `id` query.
+ */
+export function parseRevocationBitmapEntry(entry: RevocationBitmapEntry): {
+  did: string;
+  serviceUrl: string;
+  index: number;
+} {
+  const [base, fragment] = String(entry.id).split("#");
+  const [did, query] = base.split("?");
+  const index = Number(entry.revocationBitmapIndex);
+  if (!did.startsWith("did:") || !fragment) {
+    throw new Error(`${entry.id} does not name a DID service`);
+  }
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(
+      `Invalid revocation bitmap index ${entry.revocationBitmapIndex}`,
+    );
+  }
+  const queried = new URLSearchParams(query ?? "").get("index");
+  if (queried !== null && Number(queried) !== index) {
+    throw new Error(
+      `The status id names index ${queried}, but revocationBitmapIndex is ${index}`,
+    );
+  }
+  return { did, serviceUrl: `${did}#${fragment}`, index };
+}
+
+/**
+ * Whether `index` is revoked in the bitmap service `serviceUrl` of
+ * `document`. Throws when the document has no such bitmap service.
+ */
+export async function isRevokedInDocument(
+  document: RevocableDocument,
+  serviceUrl: string,
+  index: number,
+): Promise<boolean> {
+  const identity = await initializeWasm();
+  const service = document.resolveService(serviceUrl);
+  if (!service) {
+    throw new Error(`The issuer DID document has no service ${serviceUrl}`);
+  }
+  if (!service.type().includes(REVOCATION_BITMAP_TYPE)) {
+    throw new Error(`${serviceUrl} is not a ${REVOCATION_BITMAP_TYPE} service`);
+  }
+  return identity.RevocationBitmap.fromEndpoint(service).isRevoked(index);
+}
+
+/**
+ * Whether the credential `entry` points at is revoked, read from the
+ * issuer's DID document. Throws when the status cannot be determined.
+ */
+export async function checkRevocationBitmap(
+  entry: RevocationBitmapEntry,
+  options: RevocationCheckOptions = {},
+): Promise<boolean> {
+  const { did, serviceUrl, index } = parseRevocationBitmapEntry(entry);
+  const document = await (
+    options.resolve ?? ((value) => resolveDid(value, options))
+  )(did);
+  return isRevokedInDocument(document, serviceUrl, index);
+}
+
+/**
+ * Revokes `revoked` in the bitmap service `fragment` of `document`, adding
+ * the service when the document has none. Bits the document already revokes
+ * stay set, since they may have been published from elsewhere; no bit is
+ * ever cleared. This is the DID document update to publish.
+ */
+export async function mergeRevocationBitmap(
+  document: RevocableDocument,
+  revoked: Iterable<number>,
+  fragment = REVOCATION_SERVICE_FRAGMENT,
+): Promise<void> {
+  const identity = await initializeWasm();
+  const serviceId = document.id().join(`#${fragment}`);
+  const existing = document.resolveService(serviceId);
+  if (existing && !existing.type().includes(REVOCATION_BITMAP_TYPE)) {
+    throw new Error(
+      `${serviceId.toString()} is already used by a ${existing.type().join(", ")} service`,
+    );
+  }
+
+  const bitmap = existing
+    ? identity.RevocationBitmap.fromEndpoint(existing)
+    : new identity.RevocationBitmap();
+  for (const index of revoked) {
+    bitmap.revoke(index);
+  }
+  if (existing) {
+    document.removeService(serviceId);
+  }
+  document.insertService(bitmap.toService(serviceId));
+}
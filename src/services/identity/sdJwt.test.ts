@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { base64UrlEncode } from "./jwt";
+import { joinSdJwt, revealSdJwt, sha256Base64Url } from "./sdJwt";
+
+const disclosure = (name: string, value: unknown) =>
+  base64UrlEncode(JSON.stringify([crypto.randomUUID(), name, value]));
+
+/** An SD-JWT whose payload hides `disclosures`; the signature is not checked here. */
+async function sdJwt(
+  disclosures: string[],
+  claims: Record<string, unknown> = {},
+) {
+  const payload = {
+    _sd_alg: "sha-256",
+    ...claims,
+    _sd: await Promise.all(disclosures.map(sha256Base64Url)),
+  };
+  const jwt = [
+    base64UrlEncode(JSON.stringify({ alg: "EdDSA", typ: "vc+sd-jwt" })),
+    base64UrlEncode(JSON.stringify(payload)),
+    "signature",
+  ].join(".");
+  return joinSdJwt(jwt, disclosures);
+}
+
+describe("revealSdJwt", () => {
+  it.each(["constructor", "toString", "hasOwnProperty"])(
+    "reveals a claim named %s",
+    async (name) => {
+      const { payload, disclosed } = await revealSdJwt(
+        await sdJwt([disclosure(name, "value")]),
+      );
+
+      expect(Object.getOwnPropertyDescriptor(payload, name)?.value).toBe(
+        "value",
+      );
+      expect(disclosed.map(({ path }) => path)).toEqual([[name]]);
+    },
+  );
+
+  it("rejects a disclosure that would overwrite a plain claim", async () => {
+    await expect(
+      revealSdJwt(
+        await sdJwt([disclosure("given_name", "Eve")], { given_name: "Ada" }),
+      ),
+    ).rejects.toThrow(/overwrite/);
+  });
+
+  it("rejects a disclosure the credential has no digest for", async () => {
+    const [jwt] = (await sdJwt([disclosure("degree", "MSc")])).split("~");
+
+    await expect(
+      revealSdJwt(joinSdJwt(jwt, [disclosure("degree", "PhD")])),
+    ).rejects.toThrow(/not referenced/);
+  });
+
+  it("rejects a disclosure included twice", async () => {
+    const encoded = disclosure("degree", "MSc");
+    const [jwt] = (await sdJwt([encoded])).split("~");
+
+    await expect(
+      revealSdJwt(joinSdJwt(jwt, [encoded, encoded])),
+    ).rejects.toThrow(/included twice/);
+  });
+
+  it("rejects an unsupported digest algorithm", async () => {
+    await expect(
+      revealSdJwt(
+        await sdJwt([disclosure("degree", "MSc")], { _sd_alg: "md5" }),
+      ),
+    ).rejects.toThrow(/Unsupported disclosure digest algorithm/);
+  });
+});
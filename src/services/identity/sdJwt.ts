@@ -0,0 +1,286 @@
+import { base64UrlDecode, base64UrlEncodeBytes, decodeJwt } from "./jwt";
+
+/*
+ * Selective Disclosure JWTs (SD-JWT, RFC 9901): an issuer-signed JWT whose
+ * payload holds digests of claims, followed by the disclosures the holder
+ * chose to reveal and, when presented, a key binding JWT:
+ * `<jwt>~<disclosure>~...~<kb-jwt>`. Only the `sha-256` digest algorithm is
+ * supported.
+ */
+
+export const SD_JWT_FORMAT = "vc+sd-jwt";
+export const KEY_BINDING_TYPE = "kb+jwt";
+
+const DIGEST_ALGORITHM = "sha-256";
+
+type JsonObject = Record<string, unknown>;
+
+/** Position of a claim in the payload: property names and array indices. */
+export type ClaimPath = Array<string | number>;
+
+export interface SdJwtParts {
+  jwt: string;
+  disclosures: string[];
+  keyBindingJwt?: string;
+}
+
+export interface Disclosure {
+  /** The base64url text the digest is computed over. */
+  encoded: string;
+  salt: string;
+  /** Claim name; absent for array element disclosures. */
+  name?: string;
+  value: unknown;
+}
+
+export interface DisclosedClaim {
+  path: ClaimPath;
+  value: unknown;
+  /** The disclosure that reveals the claim. */
+  disclosure: string;
+}
+
+export interface RevealedSdJwt {
+  /** The payload with every disclosure applied and digests removed. */
+  payload: JsonObject;
+  disclosed: DisclosedClaim[];
+}
+
+/** Registered SD-JWT VC claims, which are not about the subject. */
+const REGISTERED_CLAIMS = new Set([
+  "iss",
+  "sub",
+  "aud",
+  "iat",
+  "nbf",
+  "exp",
+  "jti",
+  "cnf",
+  "vct",
+  "vct#integrity",
+  "status",
+]);
+
+const asRecord = (value: unknown): JsonObject | undefined =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as JsonObject)
+    : undefined;
+
+export function isSdJwt(value: unknown): value is string {
+  return typeof value === "string" && value.includes("~");
+}
+
+/**
+ * Subject claims of a revealed SD-JWT VC: `credentialSubject` when the
+ * issuer nests them like a W3C credential, otherwise the top-level claims
+ * that are not registered ones.
+ */
+export function sdJwtVcClaims(payload: JsonObject): JsonObject {
+  const document = asRecord(payload.vc) ?? payload;
+  const subject = asRecord(document.credentialSubject);
+  if (subject) {
+    return subject;
+  }
+  return Object.fromEntries(
+    Object.entries(payload).filter(([key]) => !REGISTERED_CLAIMS.has(key)),
+  );
+}
+
+/** Splits an SD-JWT; the trailing part is a key binding JWT unless empty. */
+export function splitSdJwt(token: string): SdJwtParts {
+  const parts = token.trim().split("~");
+  if (parts.length === 1) {
+    return { jwt: parts[0], disclosures: [] };
+  }
+  const keyBindingJwt = parts[parts.length - 1];
+  return {
+    jwt: parts[0],
+    disclosures: parts.slice(1, -1).filter(Boolean),
+    ...(keyBindingJwt && { keyBindingJwt }),
+  };
+}
+
+/** Joins a JWT and disclosures into an SD-JWT without key binding. */
+export function joinSdJwt(jwt: string, disclosures: string[]): string {
+  return [jwt, ...disclosures].join("~") + "~";
+}
+
+export function decodeDisclosure(encoded: string): Disclosure {
+  let value: unknown;
+  try {
+    value = JSON.parse(base64UrlDecode(encoded));
+  } catch {
+    throw new Error("A disclosure is not valid base64url JSON");
+  }
+  if (Array.isArray(value) && typeof value[0] === "string") {
+    if (value.length === 3 && typeof value[1] === "string") {
+      return { encoded, salt: value[0], name: value[1], value: value[2] };
+    }
+    if (value.length === 2) {
+      return { encoded, salt: value[0], value: value[1] };
+    }
+  }
+  throw new Error("A disclosure is not a [salt, name, value] array");
+}
+
+/** Base64url SHA-256 of `text`, as used for disclosure digests and `sd_hash`. */
+export async function sha256Base64Url(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return base64UrlEncodeBytes(new Uint8Array(digest));
+}
+
+/** The `sd_hash` a key binding JWT carries for `presentation`. */
+export function sdHash(presentation: string): Promise<string> {
+  const { jwt, disclosures } = splitSdJwt(presentation);
+  return sha256Base64Url(joinSdJwt(jwt, disclosures));
+}
+
+/** `credentialSubject.allergies[0]` style text for a claim path. */
+export function formatClaimPath(path: ClaimPath): string {
+  return path.reduce<string>(
+    (text, segment) =>
+      typeof segment === "number"
+        ? `${text}[${segment}]`
+        : text
+          ? `${text}.${segment}`
+          : segment,
+    "",
+  );
+}
+
+/**
+ * Whether `claim` has to be disclosed to reveal what `target` selects: it
+ * lies on the way to the target or inside it. `*` matches any segment.
+ */
+export function claimCovers(
+  claim: ClaimPath,
+  target: Array<string | number>,
+): boolean {
+  const length = Math.min(claim.length, target.length);
+  for (let index = 0; index < length; index++) {
+    if (target[index] !== "*" && target[index] !== claim[index]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Applies the disclosures of `token` to its payload. Throws when the payload
+ * uses another digest algorithm, a digest is referenced twice, a disclosure
+ * does not fit where it is referenced, or a disclosure is referenced nowhere;
+ * any of these means the SD-JWT was tampered with. The signature is not
+ * checked here.
+ */
+export async function revealSdJwt(token: string): Promise<RevealedSdJwt> {
+  const { jwt, disclosures } = splitSdJwt(token);
+  const { payload } = decodeJwt(jwt);
+  const algorithm = payload._sd_alg ?? DIGEST_ALGORITHM;
+  if (algorithm !== DIGEST_ALGORITHM) {
+    throw new Error(`Unsupported disclosure digest algorithm ${algorithm}`);
+  }
+
+  const byDigest = new Map<string, Disclosure>();
+  for (const encoded of disclosures) {
+    const digest = await sha256Base64Url(encoded);
+    if (byDigest.has(digest)) {
+      throw new Error("A disclosure is included twice");
+    }
+    byDigest.set(digest, decodeDisclosure(encoded));
+  }
+
+  const referenced = new Set<string>();
+  const disclosed: DisclosedClaim[] = [];
+  // Digests without a disclosure stand for claims the holder kept back.
+  const take = (digest: unknown): Disclosure | undefined => {
+    if (typeof digest !== "string") {
+      throw new Error("A disclosure digest is not a string");
+    }
+    if (referenced.has(digest)) {
+      throw new Error("A disclosure digest is referenced twice");
+    }
+    referenced.add(digest);
+    return byDigest.get(digest);
+  };
+
+  const walk = (node: unknown, path: ClaimPath): unknown => {
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (const item of node) {
+        const reference = asRecord(item);
+        if (!reference || Object.keys(reference).join() !== "...") {
+          items.push(walk(item, [...path, items.length]));
+          continue;
+        }
+        const disclosure = take(reference["..."]);
+        if (!disclosure) continue;
+        if (disclosure.name !== undefined) {
+          throw new Error(
+            `Disclosure of ${disclosure.name} is referenced as an array element`,
+          );
+        }
+        const itemPath = [...path, items.length];
+        const value = walk(disclosure.value, itemPath);
+        items.push(value);
+        disclosed.push({
+          path: itemPath,
+          value,
+          disclosure: disclosure.encoded,
+        });
+      }
+      return items;
+    }
+
+    const object = asRecord(node);
+    if (!object) {
+      return node;
+    }
+    const result: JsonObject = {};
+    for (const [key, value] of Object.entries(object)) {
+      if (key !== "_sd" && !(key === "_sd_alg" && path.length === 0)) {
+        result[key] = walk(value, [...path, key]);
+      }
+    }
+    const digests = object._sd ?? [];
+    if (!Array.isArray(digests)) {
+      throw new Error("_sd is not an array of digests");
+    }
+    for (const digest of digests) {
+      const disclosure = take(digest);
+      if (!disclosure) continue;
+      const { name } = disclosure;
+      if (name === undefined) {
+        throw new Error("An array element disclosure is referenced as a claim");
+      }
+      // Own keys only: `in` would also find `constructor`, `toString`, ...
+      if (
+        name === "_sd" ||
+        name === "..." ||
+        Object.prototype.hasOwnProperty.call(result, name)
+      ) {
+        throw new Error(`Disclosure of ${name} would overwrite a claim`);
+      }
+      const claimPath = [...path, name];
+      result[name] = walk(disclosure.value, claimPath);
+      disclosed.push({
+        path: claimPath,
+        value: result[name],
+        disclosure: disclosure.encoded,
+      });
+    }
+    return result;
+  };
+
+  const revealed = walk(payload, []) as JsonObject;
+  for (const [digest, disclosure] of byDigest) {
+    if (!referenced.has(digest)) {
+      throw new Error(
+        `Disclosure ${disclosure.name ?? disclosure.encoded} is not referenced by the credential`,
+      );
+    }
+  }
+  return { payload: revealed, disclosed };
+}
@@ -0,0 +1,78 @@
+import * as identity from "@iota/identity-wasm/node";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { base64UrlDecode, base64UrlDecodeBytes, decodeJwt } from "./jwt";
+
+vi.mock("../../utils/wasm-loader", () => ({
+  initializeWasm: async () => identity,
+}));
+
+/** A fresh module instance, as in a new tab or after a reload. */
+async function loadHolder() {
+  vi.resetModules();
+  const { getTestHolder } = await import("./testHolder");
+  return getTestHolder();
+}
+
+describe("getTestHolder", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("keeps the same key across page loads", async () => {
+    const first = await loadHolder();
+    const second = await loadHolder();
+
+    expect(second.did).toBe(first.did);
+    expect(first.did).toMatch(/^did:jwk:/);
+    expect(first.kid).toBe(`${first.did}#0`);
+  });
+
+  it("marks the stored key as test only", async () => {
+    const { TEST_HOLDER_STORAGE_KEY } = await import("./testHolder");
+    await loadHolder();
+
+    const stored = JSON.parse(localStorage.getItem(TEST_HOLDER_STORAGE_KEY)!);
+    expect(stored.testOnly).toBe(true);
+    expect(stored.jwk).toMatchObject({ kty: "OKP", crv: "Ed25519" });
+  });
+
+  it("starts a new key when the stored one is not a test key", async () => {
+    const { TEST_HOLDER_STORAGE_KEY } = await import("./testHolder");
+    const first = await loadHolder();
+    const stored = JSON.parse(localStorage.getItem(TEST_HOLDER_STORAGE_KEY)!);
+    localStorage.setItem(
+      TEST_HOLDER_STORAGE_KEY,
+      JSON.stringify({ jwk: stored.jwk }),
+    );
+
+    expect((await loadHolder()).did).not.toBe(first.did);
+  });
+
+  it("signs with the key its did:jwk names", async () => {
+    const holder = await loadHolder();
+    const token = await holder.signJwt({ nonce: "n-1" }, "JWT");
+
+    const { header, payload } = decodeJwt(token);
+    expect(header).toMatchObject({ alg: "EdDSA", typ: "JWT", kid: holder.kid });
+    expect(payload.nonce).toBe("n-1");
+
+    const jwk = JSON.parse(
+      base64UrlDecode(holder.did.slice("did:jwk:".length)),
+    );
+    const key = await crypto.subtle.importKey("jwk", jwk, "Ed25519", false, [
+      "verify",
+    ]);
+    const [signingInput, signature] = [
+      token.slice(0, token.lastIndexOf(".")),
+      token.slice(token.lastIndexOf(".") + 1),
+    ];
+    expect(
+      await crypto.subtle.verify(
+        "Ed25519",
+        key,
+        base64UrlDecodeBytes(signature),
+        new TextEncoder().encode(signingInput),
+      ),
+    ).toBe(true);
+  });
+});
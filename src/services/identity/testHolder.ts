@@ -0,0 +1,110 @@
+import { initializeWasm } from "../../utils/wasm-loader";
+import { base64UrlEncode } from "./jwt";
+
+/**
+ * Key holder of the built-in test wallet. The Ed25519 key signs through IOTA
+ * Identity; it is exposed as a `did:jwk` so the agent can check holder proofs
+ * without resolving an unpublished IOTA DID.
+ */
+export interface TestHolder {
+  did: string;
+  /** DID URL of the key, used as `kid` in signed JWTs. */
+  kid: string;
+  /** Signs `payload` as a compact JWS with the holder key. */
+  signJwt(payload: Record<string, unknown>, typ: string): Promise<string>;
+}
+
+/**
+ * The holder's private key, kept in local storage so every tab and every
+ * page load present with the key credentials were bound to. TEST ONLY: the
+ * key is readable by any script on this origin.
+ */
+export const TEST_HOLDER_STORAGE_KEY = "unicore-test-wallet-holder-key";
+
+interface StoredHolderKey {
+  /** Marks the entry as the throwaway key of the test wallet. */
+  testOnly: true;
+  jwk: { kty: "OKP"; crv: "Ed25519"; x: string; d: string };
+}
+
+// Only used to host the key; the document is never published.
+const HOLDER_NETWORK = "tst";
+const METHOD_FRAGMENT = "holder-key";
+
+let holder: Promise<TestHolder> | null = null;
+
+/** The test holder, with the same key across tabs and reloads. */
+export function getTestHolder(): Promise<TestHolder> {
+  holder ??= createTestHolder().catch((error) => {
+    holder = null;
+    throw error;
+  });
+  return holder;
+}
+
+function loadHolderKey(): StoredHolderKey["jwk"] | undefined {
+  try {
+    const stored = localStorage.getItem(TEST_HOLDER_STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as StoredHolderKey) : undefined;
+    return parsed?.testOnly && parsed.jwk?.d ? parsed.jwk : undefined;
+  } catch (error) {
+    console.error("Failed to load the test holder key:", error);
+    return undefined;
+  }
+}
+
+async function generateHolderKey(): Promise<StoredHolderKey["jwk"]> {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const { x, d } = await crypto.subtle.exportKey("jwk", pair.privateKey);
+  if (!x || !d) {
+    throw new Error("The browser did not export the test holder key");
+  }
+  const jwk = { kty: "OKP" as const, crv: "Ed25519" as const, x, d };
+  const stored: StoredHolderKey = { testOnly: true, jwk };
+  localStorage.setItem(TEST_HOLDER_STORAGE_KEY, JSON.stringify(stored));
+  return jwk;
+}
+
+async function createTestHolder(): Promise<TestHolder> {
+  const identity = await initializeWasm();
+  const { d, ...publicKey } = loadHolderKey() ?? (await generateHolderKey());
+  const publicJwk = { ...publicKey, alg: "EdDSA" };
+
+  const storage = new identity.Storage(
+    new identity.JwkMemStore(),
+    new identity.KeyIdMemStore(),
+  );
+  const document = new identity.IotaDocument(HOLDER_NETWORK);
+  const method = identity.VerificationMethod.newFromJwk(
+    document.id(),
+    identity.Jwk.fromJSON(publicJwk),
+    METHOD_FRAGMENT,
+  );
+  document.insertMethod(method, identity.MethodScope.VerificationMethod());
+  const keyId = await storage
+    .keyStorage()
+    .insert(identity.Jwk.fromJSON({ ...publicJwk, d }));
+  await storage
+    .keyIdStorage()
+    .insertKeyId(new identity.MethodDigest(method), keyId);
+
+  const did = `did:jwk:${base64UrlEncode(JSON.stringify(publicJwk))}`;
+  const kid = `${did}#0`;
+
+  return {
+    did,
+    kid,
+    async signJwt(payload, typ) {
+      const jws = await document.createJws(
+        storage,
+        METHOD_FRAGMENT,
+        JSON.stringify(payload),
+        new identity.JwsSignatureOptions({ typ, kid }),
+      );
+      return jws.toString();
+    },
+  };
+}
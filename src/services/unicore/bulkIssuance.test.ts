@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  renderQrSheet,
+  resultsToCsv,
+  resultsToJson,
+  resultsToPinCsv,
+  type BulkRowResult,
+} from "./bulkIssuance";
+
+const OFFER_URL = "openid-credential-offer://?credential_offer_uri=x";
+
+const results: BulkRowResult[] = [
+  {
+    index: 1,
+    type: "TravelDocument",
+    holder: "Ada Lovelace",
+    status: "issued",
+    offerId: "offer-1",
+    offerUrl: OFFER_URL,
+    txCode: "482913",
+  },
+  {
+    index: 2,
+    type: "WorkAuthorization",
+    holder: "Alan Turing",
+    status: "issued",
+    offerId: "offer-2",
+    offerUrl: `${OFFER_URL}2`,
+  },
+];
+
+describe("bulk exports", () => {
+  it("keeps PINs out of the offer exports", () => {
+    const csv = resultsToCsv(results);
+    const json = resultsToJson(results);
+
+    expect(csv).toContain(OFFER_URL);
+    expect(csv).not.toContain("482913");
+    expect(csv.split("\r\n")[0]).not.toMatch(/tx_code/);
+    expect(json).toContain(OFFER_URL);
+    expect(json).not.toContain("482913");
+    expect(JSON.parse(json)[0]).not.toHaveProperty("txCode");
+  });
+
+  it.each([
+    ['=HYPERLINK("http://evil")', `"'=HYPERLINK(""http://evil"")"`],
+    ["+1+1", "'+1+1"],
+    ["-2+3", "'-2+3"],
+    ["@SUM(A1)", "'@SUM(A1)"],
+    ["\tcmd", "'\tcmd"],
+    ["\rcmd", `"'\rcmd"`],
+    ["Ada Lovelace", "Ada Lovelace"],
+  ])("neutralises the holder %j in the CSV", (holder, cell) => {
+    const [, line] = resultsToCsv([{ ...results[1], holder }]).split("\r\n");
+    expect(line.split(",")[2]).toBe(cell);
+  });
+
+  it("exports the PINs apart from the offers, keyed by row", () => {
+    const pins = resultsToPinCsv(results);
+
+    expect(pins.split("\r\n")).toEqual([
+      "row,holder,tx_code",
+      "1,Ada Lovelace,482913",
+    ]);
+    expect(pins).not.toContain(OFFER_URL);
+  });
+
+  it("flags PIN-protected rows on the QR sheet without printing the PIN", () => {
+    const qrCodes = new Map(
+      results.map((result) => [result.offerUrl!, "data:image/png;base64,"]),
+    );
+    const sheet = renderQrSheet(results, qrCodes);
+
+    expect(sheet).not.toContain("482913");
+    expect(sheet.match(/PIN required/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,447 @@
+import {
+  CREDENTIAL_TYPES,
+  SUBJECT_FIELDS,
+  buildCredentialRequest,
+  isCredentialType,
+  validateSubject,
+  type SubjectFieldKey,
+  type SubjectValues,
+} from "./credentialSubject";
+import {
+  UniCoreAbortError,
+  getErrorKind,
+  getErrorMessage,
+  type UniCoreErrorKind,
+} from "./errors";
+import {
+  unicoreService,
+  type CredentialRequest,
+  type IssuanceResult,
+} from "./unicoreService";
+
+export const MAX_BULK_ROWS = 500;
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 8;
+
+/** Mapping target that selects the credential type per row. */
+export const TYPE_COLUMN = "type";
+
+export type ColumnTarget = SubjectFieldKey | typeof TYPE_COLUMN | "";
+export type ColumnMapping = Record<string, ColumnTarget>;
+
+export interface BulkSource {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface BulkRow {
+  /** 1-based data row number (header excluded), shown in progress and exports. */
+  index: number;
+  type: string;
+  values: SubjectValues;
+  errors: string[];
+}
+
+export type BulkRowStatus =
+  "pending" | "issuing" | "issued" | "failed" | "skipped" | "cancelled";
+
+export interface BulkRowResult {
+  index: number;
+  type: string;
+  holder: string;
+  status: BulkRowStatus;
+  offerId?: string;
+  offerUrl?: string;
+  offerExpiresAt?: string;
+  /** PIN the wallet must enter; only ever exported apart from the offer. */
+  txCode?: string;
+  /** The request the row was issued with, kept so the offer can be re-issued. */
+  request?: CredentialRequest;
+  issuance?: IssuanceResult;
+  error?: string;
+  errorKind?: UniCoreErrorKind;
+}
+
+export interface BulkIssueOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** Called whenever a row changes status. */
+  onProgress?: (result: BulkRowResult) => void;
+}
+
+/**
+ * Parses a CSV (comma or semicolon separated, RFC 4180 quoting) or JSON
+ * (array of flat objects) upload into string cells keyed by column name.
+ */
+export function parseBulkFile(fileName: string, text: string): BulkSource {
+  const content = text.replace(/^\uFEFF/, "");
+  const isJson =
+    fileName.toLowerCase().endsWith(".json") || /^\s*\[/.test(content);
+  const source = isJson ? parseJson(content) : parseCsv(content);
+
+  if (source.rows.length === 0) {
+    throw new Error("The file contains no rows");
+  }
+  if (source.rows.length > MAX_BULK_ROWS) {
+    throw new Error(
+      `The file has ${source.rows.length} rows; at most ${MAX_BULK_ROWS} can be issued in one batch`,
+    );
+  }
+  return source;
+}
+
+function parseJson(text: string): BulkSource {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (!Array.isArray(data)) {
+    throw new Error("JSON uploads must be an array of objects");
+  }
+
+  const columns = new Set<string>();
+  const rows = data.map((item, i) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error(`JSON item ${i + 1} is not an object`);
+    }
+    const row: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (value !== null && typeof value === "object") {
+        throw new Error(`JSON item ${i + 1}: "${key}" must be a plain value`);
+      }
+      columns.add(key);
+      row[key] = value == null ? "" : String(value);
+    }
+    return row;
+  });
+
+  return { columns: [...columns], rows };
+}
+
+function parseCsv(text: string): BulkSource {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter =
+    firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+  const records = splitCsv(text, delimiter).filter((record) =>
+    record.some((cell) => cell.trim() !== ""),
+  );
+
+  if (records.length === 0) {
+    throw new Error("The file is empty");
+  }
+
+  const columns = records[0].map((column) => column.trim());
+  const duplicate = columns.find(
+    (column, i) => column && columns.indexOf(column) !== i,
+  );
+  if (duplicate) {
+    throw new Error(`Duplicate column "${duplicate}"`);
+  }
+
+  const rows = records.slice(1).map((record) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (column) row[column] = record[i]?.trim() ?? "";
+    });
+    return row;
+  });
+
+  return { columns: columns.filter(Boolean), rows };
+}
+
+function splitCsv(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("Unterminated quoted value in CSV");
+  }
+  record.push(cell);
+  records.push(record);
+  return records;
+}
+
+const normalize = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Maps columns whose name matches a field key, claim name or label. */
+export function suggestColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const column of columns) {
+    const name = normalize(column);
+    const field = SUBJECT_FIELDS.find((candidate) =>
+      [candidate.key, candidate.claim, candidate.label]
+        .map(normalize)
+        .includes(name),
+    );
+    mapping[column] =
+      field?.key ??
+      (name === "type" || name === "credentialtype" ? TYPE_COLUMN : "");
+  }
+  return mapping;
+}
+
+/** Applies the mapping to every row and validates the result. */
+export function prepareRows(
+  source: BulkSource,
+  mapping: ColumnMapping,
+  defaultType: string,
+): BulkRow[] {
+  return source.rows.map((row, i) => {
+    const values: SubjectValues = {};
+    let type = defaultType;
+
+    for (const [column, target] of Object.entries(mapping)) {
+      const value = row[column];
+      if (!target || !value) continue;
+      if (target === TYPE_COLUMN) {
+        type = value;
+      } else {
+        values[target] = value;
+      }
+    }
+
+    const errors = validateSubject(values);
+    if (!isCredentialType(type)) {
+      errors.unshift(
+        `Unknown credential type "${type}" (expected one of ${CREDENTIAL_TYPES.join(", ")})`,
+      );
+    }
+    return { index: i + 1, type, values, errors };
+  });
+}
+
+export function describeHolder(values: SubjectValues): string {
+  return [values.firstName, values.lastName].filter(Boolean).join(" ");
+}
+
+/**
+ * Issues one credential per valid row with at most `concurrency` requests in
+ * flight. Invalid rows are reported as skipped; aborting stops new rows from
+ * starting and marks them cancelled. Results keep the input order.
+ */
+export async function issueBatch(
+  rows: BulkRow[],
+  options: BulkIssueOptions = {},
+): Promise<BulkRowResult[]> {
+  const { signal, onProgress } = options;
+  const concurrency = Math.min(
+    MAX_CONCURRENCY,
+    Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY),
+  );
+  const results: BulkRowResult[] = rows.map((row) => ({
+    index: row.index,
+    type: row.type,
+    holder: describeHolder(row.values),
+    status: "pending",
+  }));
+
+  const update = (i: number, patch: Partial<BulkRowResult>) => {
+    results[i] = { ...results[i], ...patch };
+    onProgress?.(results[i]);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < rows.length) {
+      const i = next++;
+      const row = rows[i];
+
+      if (row.errors.length > 0) {
+        update(i, { status: "skipped", error: row.errors.join("; ") });
+        continue;
+      }
+      if (signal?.aborted) {
+        update(i, { status: "cancelled", errorKind: "aborted" });
+        continue;
+      }
+
+      update(i, { status: "issuing" });
+      try {
+        const request = buildCredentialRequest(row.type, row.values);
+        const result = await unicoreService.issueCredential(request, {
+          signal,
+        });
+        if (result.success) {
+          update(i, {
+            status: "issued",
+            offerId: result.offerId,
+            offerUrl: result.offerUrl,
+            offerExpiresAt: result.offerExpiresAt,
+            txCode: result.txCode?.value,
+            request,
+            issuance: result,
+          });
+        } else {
+          update(i, {
+            status: result.errorKind === "aborted" ? "cancelled" : "failed",
+            error: result.error,
+            errorKind: result.errorKind,
+          });
+        }
+      } catch (error) {
+        update(i, {
+          status: error instanceof UniCoreAbortError ? "cancelled" : "failed",
+          error: getErrorMessage(error),
+          errorKind: getErrorKind(error),
+        });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, rows.length) }, worker),
+  );
+  return results;
+}
+
+const EXPORT_COLUMNS = [
+  "row",
+  "type",
+  "holder",
+  "status",
+  "offer_id",
+  "offer_url",
+  "offer_expires_at",
+  "error",
+] as const;
+
+/**
+ * Quotes a CSV cell. Text starting like a formula gets a leading `'` so a
+ * spreadsheet shows it instead of evaluating it; holder names come from the
+ * uploaded file.
+ */
+function csvCell(value: string | number | undefined): string {
+  const raw = value === undefined ? "" : String(value);
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function resultsToCsv(results: BulkRowResult[]): string {
+  const lines = results.map((result) =>
+    [
+      result.index,
+      result.type,
+      result.holder,
+      result.status,
+      result.offerId,
+      result.offerUrl,
+      result.offerExpiresAt,
+      result.error,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return [EXPORT_COLUMNS.join(","), ...lines].join("\r\n");
+}
+
+export function resultsToJson(results: BulkRowResult[]): string {
+  return JSON.stringify(
+    results,
+    (key, value) =>
+      key === "issuance" || key === "request" || key === "txCode"
+        ? undefined
+        : value,
+    2,
+  );
+}
+
+const PIN_COLUMNS = ["row", "holder", "tx_code"] as const;
+
+/**
+ * The PINs of the protected rows, keyed by row number. Kept out of the offer
+ * exports so that no single file can redeem an offer.
+ */
+export function resultsToPinCsv(results: BulkRowResult[]): string {
+  const lines = results
+    .filter((result) => result.txCode)
+    .map((result) =>
+      [result.index, result.holder, result.txCode].map(csvCell).join(","),
+    );
+  return [PIN_COLUMNS.join(","), ...lines].join("\r\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Renders a printable page with one QR code per issued row. `qrCodes` maps
+ * offer URLs to image data URLs. PIN-protected rows are flagged, but the PIN
+ * itself stays off the page so the printout alone cannot redeem the offer.
+ */
+export function renderQrSheet(
+  results: BulkRowResult[],
+  qrCodes: Map<string, string>,
+): string {
+  const cards = results
+    .filter((result) => result.offerUrl && qrCodes.has(result.offerUrl))
+    .map(
+      (result) => `
+    <figure>
+      <img src="${qrCodes.get(result.offerUrl!)}" alt="Credential offer QR code" />
+      <figcaption>
+        <strong>#${result.index} ${escapeHtml(result.holder)}</strong><br />
+        ${escapeHtml(result.type)}<br />
+        <small>${escapeHtml(result.offerId ?? "")}</small>${result.txCode ? "<br /><em>PIN required (handed over separately)</em>" : ""}
+      </figcaption>
+    </figure>`,
+    )
+    .join("");
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Credential offers</title>
+    <style>
+      body { font-family: sans-serif; margin: 1rem; }
+      main { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; }
+      figure { margin: 0; padding: 0.5rem; border: 1px solid #ccc; text-align: center; break-inside: avoid; }
+      img { width: 100%; max-width: 220px; }
+      small { color: #555; word-break: break-all; }
+    </style>
+  </head>
+  <body>
+    <main>${cards}
+    </main>
+  </body>
+</html>
+`;
+}
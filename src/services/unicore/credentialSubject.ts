@@ -0,0 +1,225 @@
+import type { CredentialRequest } from "./unicoreService";
+
+export const CREDENTIAL_TYPES = [
+  "TravelDocument",
+  "WorkAuthorization",
+  "ProfessionalSkills",
+  "HealthRecord",
+  "EducationCredential",
+] as const;
+
+export type CredentialType = (typeof CREDENTIAL_TYPES)[number];
+
+export interface SubjectField {
+  /** Form field name, also accepted as a bulk import column. */
+  key: string;
+  /** Claim name inside `credentialSubject`. */
+  claim: string;
+  label: string;
+  required?: boolean;
+  date?: boolean;
+  /** Credential types the field belongs to; shared fields omit it. */
+  types?: readonly CredentialType[];
+}
+
+export const SUBJECT_FIELDS = [
+  {
+    key: "firstName",
+    claim: "first_name",
+    label: "First Name",
+    required: true,
+  },
+  { key: "lastName", claim: "last_name", label: "Last Name", required: true },
+  {
+    key: "dateOfBirth",
+    claim: "dob",
+    label: "Date of Birth",
+    required: true,
+    date: true,
+  },
+  {
+    key: "nationality",
+    claim: "nationality",
+    label: "Nationality",
+    required: true,
+  },
+  {
+    key: "passportNumber",
+    claim: "passport_number",
+    label: "Passport Number",
+    types: ["TravelDocument"],
+  },
+  {
+    key: "documentNumber",
+    claim: "document_number",
+    label: "Document Number",
+    types: ["TravelDocument"],
+  },
+  {
+    key: "issueDate",
+    claim: "issue_date",
+    label: "Issue Date",
+    date: true,
+    types: ["TravelDocument"],
+  },
+  {
+    key: "expiryDate",
+    claim: "expiry_date",
+    label: "Expiry Date",
+    date: true,
+    types: ["TravelDocument"],
+  },
+  {
+    key: "employerName",
+    claim: "employer_name",
+    label: "Employer Name",
+    types: ["WorkAuthorization"],
+  },
+  {
+    key: "position",
+    claim: "position",
+    label: "Position",
+    types: ["WorkAuthorization"],
+  },
+  {
+    key: "workCountry",
+    claim: "work_country",
+    label: "Work Country",
+    types: ["WorkAuthorization"],
+  },
+  {
+    key: "validFrom",
+    claim: "valid_from",
+    label: "Valid From",
+    date: true,
+    types: ["WorkAuthorization"],
+  },
+  {
+    key: "validUntil",
+    claim: "valid_until",
+    label: "Valid Until",
+    date: true,
+    types: ["WorkAuthorization"],
+  },
+  {
+    key: "skillName",
+    claim: "skill_name",
+    label: "Skill Name",
+    types: ["ProfessionalSkills"],
+  },
+  {
+    key: "skillLevel",
+    claim: "skill_level",
+    label: "Skill Level",
+    types: ["ProfessionalSkills"],
+  },
+  {
+    key: "certificationBody",
+    claim: "certification_body",
+    label: "Certification Body",
+    types: ["ProfessionalSkills"],
+  },
+  {
+    key: "certificationNumber",
+    claim: "certification_number",
+    label: "Certification Number",
+    types: ["ProfessionalSkills"],
+  },
+  {
+    key: "healthRecordId",
+    claim: "health_record_id",
+    label: "Health Record ID",
+    types: ["HealthRecord"],
+  },
+  {
+    key: "bloodType",
+    claim: "blood_type",
+    label: "Blood Type",
+    types: ["HealthRecord"],
+  },
+  {
+    key: "vaccinationStatus",
+    claim: "vaccination_status",
+    label: "Vaccination Status",
+    types: ["HealthRecord"],
+  },
+  {
+    key: "allergies",
+    claim: "allergies",
+    label: "Allergies",
+    types: ["HealthRecord"],
+  },
+  {
+    key: "degree",
+    claim: "degree",
+    label: "Degree",
+    types: ["EducationCredential"],
+  },
+  {
+    key: "institution",
+    claim: "institution",
+    label: "Institution",
+    types: ["EducationCredential"],
+  },
+  {
+    key: "graduationYear",
+    claim: "graduation_year",
+    label: "Graduation Year",
+    types: ["EducationCredential"],
+  },
+  {
+    key: "fieldOfStudy",
+    claim: "field_of_study",
+    label: "Field of Study",
+    types: ["EducationCredential"],
+  },
+] as const satisfies readonly SubjectField[];
+
+export type SubjectFieldKey = (typeof SUBJECT_FIELDS)[number]["key"];
+export type SubjectValues = Partial<Record<SubjectFieldKey, string>>;
+
+export function isCredentialType(value: string): value is CredentialType {
+  return (CREDENTIAL_TYPES as readonly string[]).includes(value);
+}
+
+export function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/** Returns one message per problem; an empty list means the values are valid. */
+export function validateSubject(values: SubjectValues): string[] {
+  const errors: string[] = [];
+  for (const field of SUBJECT_FIELDS as readonly SubjectField[]) {
+    const value = values[field.key as SubjectFieldKey]?.trim();
+    if (field.required && !value) {
+      errors.push(`${field.label} is required`);
+    } else if (value && field.date && !isValidDate(value)) {
+      errors.push(`${field.label} must be a date (YYYY-MM-DD)`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Builds the service request from form-style values. Empty fields are left
+ * out, and the credential expires with `validUntil` or `expiryDate`.
+ */
+export function buildCredentialRequest(
+  type: string,
+  values: SubjectValues,
+): CredentialRequest {
+  const credentialSubject: Record<string, string> = {};
+  for (const field of SUBJECT_FIELDS) {
+    const value = values[field.key]?.trim();
+    if (value) {
+      credentialSubject[field.claim] = value;
+    }
+  }
+
+  const expirationDate = values.expiryDate || values.validUntil;
+  return {
+    type,
+    credentialSubject,
+    ...(expirationDate && { expirationDate }),
+  };
+}
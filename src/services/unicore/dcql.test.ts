@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDcqlQuery,
+  dcqlPathToJsonPath,
+  dcqlToInputDescriptor,
+  requiredCredentialIds,
+} from "./dcql";
+import { matchDescriptor, payloadRoots } from "./presentationExchange";
+import type { DescriptorSpec } from "./presentationDefinition";
+
+/** The roots a JWT VC payload is matched on. */
+const credential = (type: string, claims: Record<string, unknown>) =>
+  payloadRoots({
+    vc: {
+      type: ["VerifiableCredential", type],
+      credentialSubject: { id: "did:example:holder", ...claims },
+    },
+  });
+
+/** Whether the credential answers the only credential query of `spec`. */
+function answers(spec: DescriptorSpec, roots: unknown[]) {
+  const [credentialQuery] = buildDcqlQuery([spec]).query.credentials;
+  return matchDescriptor(dcqlToInputDescriptor(credentialQuery), roots).matched;
+}
+
+describe("DCQL matching", () => {
+  const spec: DescriptorSpec = {
+    type: "EducationCredential",
+    constraints: [{ claim: "degree", operator: "in", value: "BSc, MSc" }],
+  };
+
+  it("accepts a credential with one of the requested values", () => {
+    expect(
+      answers(spec, credential("EducationCredential", { degree: "MSc" })),
+    ).toBe(true);
+  });
+
+  it("rejects a credential with another value", () => {
+    expect(
+      answers(spec, credential("EducationCredential", { degree: "PhD" })),
+    ).toBe(false);
+  });
+
+  it("rejects a credential without the claim", () => {
+    expect(answers(spec, credential("EducationCredential", {}))).toBe(false);
+  });
+
+  it("rejects a credential of another type", () => {
+    expect(answers(spec, credential("DriverLicense", { degree: "MSc" }))).toBe(
+      false,
+    );
+  });
+
+  it("leaves optional claims out of the required claim set", () => {
+    const optional: DescriptorSpec = {
+      type: "EducationCredential",
+      constraints: [
+        { claim: "degree", operator: "exists" },
+        { claim: "honours", operator: "exists", optional: true },
+      ],
+    };
+    const [credentialQuery] = buildDcqlQuery([optional]).query.credentials;
+
+    expect(credentialQuery.claim_sets).toEqual([
+      ["degree_0", "honours_1"],
+      ["degree_0"],
+    ]);
+    const presented = credential("EducationCredential", { degree: "MSc" });
+    expect(
+      matchDescriptor(dcqlToInputDescriptor(credentialQuery), presented)
+        .matched,
+    ).toBe(false);
+    expect(
+      matchDescriptor(
+        dcqlToInputDescriptor(credentialQuery, credentialQuery.claim_sets![1]),
+        presented,
+      ).matched,
+    ).toBe(true);
+  });
+
+  it("reports the rules DCQL cannot ask for", () => {
+    const { query, unenforced } = buildDcqlQuery([
+      {
+        type: "EducationCredential",
+        constraints: [
+          { claim: "graduation_year", operator: "atLeast", value: 2015 },
+        ],
+      },
+    ]);
+
+    expect(unenforced).toEqual(["EducationCredential: graduation_year ≥ 2015"]);
+    expect(query.credentials[0].claims).toEqual([
+      {
+        id: "graduation_year_0",
+        path: ["credentialSubject", "graduation_year"],
+      },
+    ]);
+  });
+
+  it("rejects an invalid spec", () => {
+    expect(() =>
+      buildDcqlQuery([
+        {
+          type: "EducationCredential",
+          constraints: [{ claim: "degree", operator: "equals" }],
+        },
+      ]),
+    ).toThrow(/Invalid DCQL query/);
+  });
+});
+
+describe("dcqlPathToJsonPath", () => {
+  it("quotes segments that are not identifiers", () => {
+    expect(
+      dcqlPathToJsonPath(["credentialSubject", "it's", null, 0, "name"]),
+    ).toBe("$.credentialSubject['it\\'s'][*][0].name");
+  });
+});
+
+describe("requiredCredentialIds", () => {
+  it("requires the first option of each required credential set", () => {
+    expect(
+      requiredCredentialIds({
+        credentials: [
+          { id: "pid", format: "jwt_vc_json" },
+          { id: "license", format: "jwt_vc_json" },
+          { id: "degree", format: "jwt_vc_json" },
+        ],
+        credential_sets: [
+          { options: [["pid"], ["license"]] },
+          { options: [["degree"]], required: false },
+        ],
+      }),
+    ).toEqual(["pid"]);
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  CONSTRAINT_OPERATORS,
+  buildInputDescriptor,
+  validateDescriptorSpec,
+  type DescriptorSpec,
+} from "./presentationDefinition";
+import type {
+  DcqlClaim,
+  DcqlCredentialQuery,
+  DcqlQuery,
+  InputDescriptor,
+  PresentationField,
+} from "./schemas";
+
+/*
+ * Digital Credentials Query Language (OpenID4VP). DCQL can only require a
+ * claim to be present or to have one of a list of values, so richer rules
+ * from a `DescriptorSpec` are reported back and enforced when the response
+ * is evaluated instead.
+ */
+
+const JWT_VC_FORMAT = "jwt_vc_json";
+
+export interface DcqlBuildResult {
+  query: DcqlQuery;
+  /**
+   * The full rules per credential query ID, as input descriptors, for
+   * checking the response against what DCQL could not ask for.
+   */
+  rules: Record<string, InputDescriptor>;
+  /** Rules DCQL cannot express, as "<credential id>: <claim> <operator>". */
+  unenforced: string[];
+}
+
+/** Converts a DCQL claim path to the equivalent JSONPath. */
+export function dcqlPathToJsonPath(path: DcqlClaim["path"]): string {
+  return path.reduce<string>((jsonPath, segment) => {
+    if (segment === null) return `${jsonPath}[*]`;
+    if (typeof segment === "number") return `${jsonPath}[${segment}]`;
+    return /^[A-Za-z_$][\w$]*$/.test(segment)
+      ? `${jsonPath}.${segment}`
+      : `${jsonPath}['${segment.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}']`;
+  }, "$");
+}
+
+/**
+ * Builds a DCQL query with one credential query per spec. `equals` and `in`
+ * become `values`; every other rule only requires the claim to be present.
+ * Throws when a spec is invalid, like `buildPresentationDefinition`.
+ */
+export function buildDcqlQuery(
+  specs: DescriptorSpec[],
+  now: Date = new Date(),
+): DcqlBuildResult {
+  if (specs.length === 0) {
+    throw new Error("A DCQL query needs at least one credential query");
+  }
+  const errors = specs.flatMap(validateDescriptorSpec);
+  if (errors.length > 0) {
+    throw new Error(`Invalid DCQL query: ${errors.join("; ")}`);
+  }
+
+  const rules: Record<string, InputDescriptor> = {};
+  const unenforced: string[] = [];
+  const ids = new Set<string>();
+
+  const credentials = specs.map((spec, index): DcqlCredentialQuery => {
+    let id = (spec.id ?? spec.type).replace(/[^\w-]/g, "_");
+    if (ids.has(id)) {
+      id = `${id}_${index + 1}`;
+    }
+    ids.add(id);
+    rules[id] = buildInputDescriptor({ ...spec, id }, now);
+
+    const constraints = spec.constraints ?? [];
+    const claims: DcqlClaim[] = constraints.map((constraint, claimIndex) => {
+      const { claim, operator, value } = constraint;
+      const values =
+        operator === "equals"
+          ? [String(value ?? "")]
+          : operator === "in"
+            ? (Array.isArray(value) ? value : String(value ?? "").split(","))
+                .map((item) => item.trim())
+                .filter(Boolean)
+            : undefined;
+      if (operator !== "exists" && !values) {
+        unenforced.push(
+          `${id}: ${claim} ${CONSTRAINT_OPERATORS[operator].label} ${value ?? ""}`.trim(),
+        );
+      }
+      return {
+        id: `${claim}_${claimIndex}`,
+        path: ["credentialSubject", claim],
+        ...(values && { values }),
+      };
+    });
+
+    const constrained = new Set(constraints.map(({ claim }) => claim));
+    for (const claim of spec.disclose ?? []) {
+      if (!constrained.has(claim)) {
+        claims.push({ id: claim, path: ["credentialSubject", claim] });
+      }
+    }
+
+    // Optional rules go into a second claim set that leaves them out.
+    const required = claims
+      .filter((_, claimIndex) => !constraints[claimIndex]?.optional)
+      .map((claim) => claim.id!);
+    const claimSets =
+      required.length < claims.length
+        ? [claims.map((claim) => claim.id!), required]
+        : undefined;
+
+    return {
+      id,
+      format: JWT_VC_FORMAT,
+      meta: { type_values: [["VerifiableCredential", spec.type]] },
+      ...(claims.length > 0 && { claims }),
+      ...(claimSets && { claim_sets: claimSets }),
+    };
+  });
+
+  return { query: { credentials }, rules, unenforced };
+}
+
+/**
+ * Expresses a credential query as an input descriptor so the Presentation
+ * Exchange matcher can evaluate it. Claims outside `claimSet` become
+ * optional; it defaults to the first claim set, or all claims.
+ */
+export function dcqlToInputDescriptor(
+  credentialQuery: DcqlCredentialQuery,
+  claimSet: (string | undefined)[] = credentialQuery.claim_sets?.[0] ??
+    (credentialQuery.claims ?? []).map((claim) => claim.id),
+): InputDescriptor {
+  const requiredIds = new Set(claimSet);
+  const typeFields: PresentationField[] = (
+    credentialQuery.meta?.type_values?.[0] ?? []
+  ).map((type) => ({
+    path: ["$.type", "$.vc.type"],
+    filter: { type: "array", contains: { const: type } },
+  }));
+  const vctValues = credentialQuery.meta?.vct_values;
+  if (vctValues) {
+    typeFields.push({ path: ["$.vct"], filter: { enum: vctValues } });
+  }
+  const claimFields: PresentationField[] = (credentialQuery.claims ?? []).map(
+    (claim) => ({
+      path: [dcqlPathToJsonPath(claim.path)],
+      name: claim.id ?? claim.path.join("."),
+      ...(claim.values && { filter: { enum: claim.values } }),
+      ...(!requiredIds.has(claim.id) && { optional: true }),
+    }),
+  );
+
+  return {
+    id: credentialQuery.id,
+    name: credentialQuery.id,
+    format: { [credentialQuery.format]: {} },
+    constraints: { fields: [...typeFields, ...claimFields] },
+  };
+}
+
+/**
+ * Credential query IDs that must be answered: every query when there are no
+ * credential sets, otherwise the first option of each required set.
+ */
+export function requiredCredentialIds(query: DcqlQuery): string[] {
+  if (!query.credential_sets) {
+    return query.credentials.map((credential) => credential.id);
+  }
+  return query.credential_sets
+    .filter((set) => set.required !== false)
+    .flatMap((set) => set.options[0]);
+}
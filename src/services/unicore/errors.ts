@@ -0,0 +1,128 @@
+export type UniCoreErrorKind =
+  | "network"
+  | "client"
+  | "server"
+  | "content-type"
+  | "timeout"
+  | "aborted"
+  | "contract"
+  | "correlation";
+
+export class UniCoreError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: UniCoreErrorKind,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "UniCoreError";
+  }
+}
+
+/** The agent could not be reached at all (DNS, refused connection, CORS). */
+export class UniCoreNetworkError extends UniCoreError {
+  constructor(message: string, cause?: unknown) {
+    super(message, "network", cause);
+    this.name = "UniCoreNetworkError";
+  }
+}
+
+/** The agent answered with a 4xx; `body` holds its error payload. */
+export class UniCoreClientError extends UniCoreError {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body?: unknown,
+  ) {
+    super(message, "client");
+    this.name = "UniCoreClientError";
+  }
+}
+
+/** The agent answered with a 5xx. */
+export class UniCoreServerError extends UniCoreError {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body?: unknown,
+  ) {
+    super(message, "server");
+    this.name = "UniCoreServerError";
+  }
+}
+
+export class UniCoreContentTypeError extends UniCoreError {
+  constructor(
+    message: string,
+    public readonly expected: string,
+    public readonly received: string | null,
+  ) {
+    super(message, "content-type");
+    this.name = "UniCoreContentTypeError";
+  }
+}
+
+export class UniCoreTimeoutError extends UniCoreError {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(message, "timeout");
+    this.name = "UniCoreTimeoutError";
+  }
+}
+
+/** The caller cancelled the call through its `AbortSignal`. */
+export class UniCoreAbortError extends UniCoreError {
+  constructor(message: string) {
+    super(message, "aborted");
+    this.name = "UniCoreAbortError";
+  }
+}
+
+/**
+ * The agent answered successfully but the payload does not match the schema
+ * this app was written against, usually an incompatible agent version.
+ */
+export class UniCoreContractError extends UniCoreError {
+  constructor(
+    message: string,
+    public readonly issues: Array<{ path: string; message: string }>,
+    public readonly payload?: unknown,
+  ) {
+    super(message, "contract");
+    this.name = "UniCoreContractError";
+  }
+}
+
+/**
+ * The agent created something but its answer does not say which record it
+ * is. Rather than guess, and risk handing out another operator's session, the
+ * call fails.
+ */
+export class UniCoreCorrelationError extends UniCoreError {
+  constructor(
+    message: string,
+    public readonly state?: string,
+  ) {
+    super(message, "correlation");
+    this.name = "UniCoreCorrelationError";
+  }
+}
+
+export function isUniCoreError(error: unknown): error is UniCoreError {
+  return error instanceof UniCoreError;
+}
+
+export function getErrorKind(error: unknown): UniCoreErrorKind | undefined {
+  return isUniCoreError(error) ? error.kind : undefined;
+}
+
+/** True when the failure means the agent itself is down or unreachable. */
+export function isAgentUnavailable(kind: UniCoreErrorKind | undefined) {
+  return kind === "network" || kind === "timeout" || kind === "server";
+}
+
+export function getErrorMessage(error: unknown, fallback = "Unknown error") {
+  return error instanceof Error ? error.message : fallback;
+}
@@ -0,0 +1,381 @@
+import type { z } from "zod";
+import {
+  UniCoreAbortError,
+  UniCoreClientError,
+  UniCoreContentTypeError,
+  UniCoreContractError,
+  UniCoreError,
+  UniCoreNetworkError,
+  UniCoreServerError,
+  UniCoreTimeoutError,
+} from "./errors";
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+type ResponseType = "json" | "text";
+
+/** Per-call controls accepted by every public service method. */
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+};
+
+export interface RequestOptions extends CallOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  /** Sent as JSON, or form encoded when given as `URLSearchParams`. */
+  body?: unknown;
+  headers?: Record<string, string>;
+  responseType?: ResponseType;
+  /** Defaults to `DEFAULT_RETRY` for GET and no retries otherwise. */
+  retry?: RetryOptions | false;
+  /**
+   * Cache validators for a conditional GET. A 304 then resolves with
+   * `notModified` set and no `data`, so callers must check it first.
+   */
+  validators?: CacheValidators;
+}
+
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface HttpResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
+  notModified?: boolean;
+}
+
+/**
+ * Single request pipeline for agent calls. `operation` reads as a verb phrase
+ * ("get offer") and is used for both the error message and the log line.
+ * With a `schema` the body is validated and typed from it.
+ */
+export async function request<T>(
+  operation: string,
+  url: string,
+  options: RequestOptions & { schema: z.ZodType<T> },
+): Promise<HttpResponse<T>>;
+export async function request<T = unknown>(
+  operation: string,
+  url: string,
+  options?: RequestOptions,
+): Promise<HttpResponse<T>>;
+export async function request<T>(
+  operation: string,
+  url: string,
+  options: RequestOptions & { schema?: z.ZodType<T> } = {},
+): Promise<HttpResponse<T>> {
+  const retry =
+    options.retry ?? ((options.method ?? "GET") === "GET" && DEFAULT_RETRY);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest<T>(operation, url, options);
+    } catch (error) {
+      if (retry && attempt < retry.retries && isRetryable(error)) {
+        console.warn(
+          `Retrying ${operation} (attempt ${attempt + 2}/${retry.retries + 1}):`,
+          error,
+        );
+        await sleep(backoffDelay(retry, attempt), options.signal);
+        continue;
+      }
+      if (!(error instanceof UniCoreAbortError)) {
+        console.error(`Failed to ${operation}:`, error);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Settles like `promise`, or rejects with `UniCoreAbortError` as soon as
+ * `signal` aborts. The work behind `promise` carries on either way.
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new UniCoreAbortError("Operation cancelled"));
+      return;
+    }
+    const onAbort = () => reject(new UniCoreAbortError("Operation cancelled"));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Resolves after `ms`, or rejects with `UniCoreAbortError` as soon as `signal`
+ * aborts. Used for backoff and polling intervals.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UniCoreAbortError("Operation cancelled"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UniCoreAbortError("Operation cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof UniCoreClientError) {
+    return error.status === 408 || error.status === 429;
+  }
+  return (
+    error instanceof UniCoreNetworkError ||
+    error instanceof UniCoreTimeoutError ||
+    error instanceof UniCoreServerError
+  );
+}
+
+/** Exponential backoff with full jitter. */
+function backoffDelay(retry: RetryOptions, attempt: number): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+async function attemptRequest<T>(
+  operation: string,
+  url: string,
+  options: RequestOptions & { schema?: z.ZodType<T> },
+): Promise<HttpResponse<T>> {
+  const { signal } = options;
+  if (signal?.aborted) {
+    throw new UniCoreAbortError(`Cancelled ${operation}`);
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const responseType = options.responseType ?? "json";
+
+  const headers: Record<string, string> = {
+    Accept: responseType === "json" ? "application/json" : "text/plain",
+    ...options.headers,
+  };
+  const isForm = options.body instanceof URLSearchParams;
+  if (options.body !== undefined) {
+    headers["Content-Type"] = isForm
+      ? "application/x-www-form-urlencoded"
+      : "application/json";
+  }
+  if (options.validators?.etag) {
+    headers["If-None-Match"] = options.validators.etag;
+  }
+  if (options.validators?.lastModified) {
+    headers["If-Modified-Since"] = options.validators.lastModified;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: options.method ?? "GET",
+      headers,
+      body: isForm
+        ? String(options.body)
+        : options.body !== undefined
+          ? JSON.stringify(options.body)
+          : undefined,
+      signal: controller.signal,
+    });
+
+    if (response.status === 304 && options.validators) {
+      return {
+        data: undefined as T,
+        status: response.status,
+        headers: response.headers,
+        notModified: true,
+      };
+    }
+
+    if (!response.ok) {
+      throw await toHttpError(operation, response);
+    }
+
+    const body = await readBody(operation, response, responseType);
+    const data = options.schema
+      ? validate(operation, options.schema, body)
+      : (body as T);
+    return { data, status: response.status, headers: response.headers };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new UniCoreAbortError(`Cancelled ${operation}`);
+    }
+    if (timedOut) {
+      throw new UniCoreTimeoutError(
+        `Failed to ${operation}: no response within ${timeoutMs}ms`,
+        timeoutMs,
+      );
+    }
+    if (error instanceof UniCoreError) {
+      throw error;
+    }
+    throw new UniCoreNetworkError(
+      `Failed to ${operation}: agent is not reachable`,
+      error,
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export function validate<T>(
+  operation: string,
+  schema: z.ZodType<T>,
+  payload: unknown,
+): T {
+  const result = schema.safeParse(payload);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join(".") || "(root)",
+    message: issue.message,
+  }));
+  const summary = issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path}: ${issue.message}`)
+    .join("; ");
+  throw new UniCoreContractError(
+    `Agent contract mismatch: ${operation} returned an unexpected payload (${summary})`,
+    issues,
+    payload,
+  );
+}
+
+async function toHttpError(
+  operation: string,
+  response: Response,
+): Promise<UniCoreError> {
+  const body = await readErrorBody(response);
+  const detail = describeErrorBody(body);
+  const message = `Failed to ${operation}: ${response.status}${detail ? ` - ${detail}` : ""}`;
+
+  return response.status >= 500
+    ? new UniCoreServerError(message, response.status, body)
+    : new UniCoreClientError(message, response.status, body);
+}
+
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+function describeErrorBody(body: unknown): string {
+  if (typeof body === "string") {
+    return body;
+  }
+  if (body && typeof body === "object") {
+    const fields = body as Record<string, unknown>;
+    for (const key of ["error_description", "message", "error"]) {
+      if (typeof fields[key] === "string") {
+        return fields[key] as string;
+      }
+    }
+    return JSON.stringify(body);
+  }
+  return "";
+}
+
+async function readBody(
+  operation: string,
+  response: Response,
+  responseType: ResponseType,
+): Promise<unknown> {
+  const contentType = response.headers.get("content-type");
+  const text = await response.text();
+
+  if (responseType === "text") {
+    return text;
+  }
+
+  if (!text) {
+    return null;
+  }
+
+  if (contentType && !contentType.includes("json")) {
+    throw new UniCoreContentTypeError(
+      `Failed to ${operation}: expected JSON but got ${contentType}`,
+      "application/json",
+      contentType,
+    );
+  }
+
+  return parseJson(operation, text, contentType);
+}
+
+/**
+ * Parses a JSON response body, throwing `UniCoreContentTypeError` when it is
+ * not valid JSON. For callers that read the body as text first.
+ */
+export function parseJson(
+  operation: string,
+  text: string,
+  contentType: string | null,
+): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UniCoreContentTypeError(
+      `Failed to ${operation}: response is not valid JSON`,
+      "application/json",
+      contentType,
+    );
+  }
+}
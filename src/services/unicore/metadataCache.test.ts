@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { UniCoreAbortError } from "./errors";
+import type { HttpResponse } from "./http";
+import { MetadataCache } from "./metadataCache";
+
+/** A loader whose single response is released by `respond`. */
+function deferredLoader<T>() {
+  let respond!: (data: T) => void;
+  let calls = 0;
+  const load = () => {
+    calls++;
+    return new Promise<HttpResponse<T>>((resolve) => {
+      respond = (data) =>
+        resolve({ data, status: 200, headers: new Headers() });
+    });
+  };
+  return { load, respond: (data: T) => respond(data), calls: () => calls };
+}
+
+describe("MetadataCache", () => {
+  it("shares one request between concurrent callers", async () => {
+    const cache = new MetadataCache();
+    const loader = deferredLoader<string>();
+
+    const first = cache.get("issuer", loader.load);
+    const second = cache.get("issuer", loader.load);
+    loader.respond("metadata");
+
+    expect(await first).toBe("metadata");
+    expect(await second).toBe("metadata");
+    expect(loader.calls()).toBe(1);
+  });
+
+  it.each([
+    ["first", 0],
+    ["second", 1],
+  ])(
+    "lets the %s caller cancel without failing the other",
+    async (_, aborting) => {
+      const cache = new MetadataCache();
+      const loader = deferredLoader<string>();
+      const controllers = [new AbortController(), new AbortController()];
+
+      const [first, second] = controllers.map((controller) =>
+        cache.get("issuer", loader.load, { signal: controller.signal }),
+      );
+      controllers[aborting].abort();
+      loader.respond("metadata");
+
+      const results = await Promise.allSettled([first, second]);
+      expect(results[aborting]).toMatchObject({
+        status: "rejected",
+        reason: expect.any(UniCoreAbortError),
+      });
+      expect(results[1 - aborting]).toEqual({
+        status: "fulfilled",
+        value: "metadata",
+      });
+    },
+  );
+
+  it("caches a response whose only caller cancelled", async () => {
+    const cache = new MetadataCache();
+    const loader = deferredLoader<string>();
+    const controller = new AbortController();
+
+    const cancelled = cache.get("issuer", loader.load, {
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(UniCoreAbortError);
+    loader.respond("metadata");
+
+    await expect(cache.get("issuer", loader.load)).resolves.toBe("metadata");
+    expect(loader.calls()).toBe(1);
+  });
+});
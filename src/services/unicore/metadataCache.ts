@@ -0,0 +1,97 @@
+import { raceAbort, type CacheValidators, type HttpResponse } from "./http";
+
+export const METADATA_TTL_MS = 5 * 60 * 1000;
+
+export interface CacheOptions {
+  /** Skip the cached copy and the validators and fetch a fresh one. */
+  forceRefresh?: boolean;
+  /** Stops this caller waiting; a request shared with others carries on. */
+  signal?: AbortSignal;
+}
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+  validators: CacheValidators;
+}
+
+type Loader<T> = (
+  validators: CacheValidators | undefined,
+) => Promise<HttpResponse<T>>;
+
+/**
+ * In-memory cache for agent metadata documents. Fresh entries are served
+ * without a request; stale ones are revalidated with ETag/Last-Modified so an
+ * unchanged document costs a 304. Concurrent callers share one request, so
+ * `load` must not be bound to any one caller's signal; each caller's own
+ * signal only cancels its wait.
+ */
+export class MetadataCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly ttlMs: number = METADATA_TTL_MS) {}
+
+  async get<T>(
+    key: string,
+    load: Loader<T>,
+    options: CacheOptions = {},
+  ): Promise<T> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (
+      entry &&
+      !options.forceRefresh &&
+      Date.now() - entry.fetchedAt < this.ttlMs
+    ) {
+      return entry.data;
+    }
+
+    const inFlight = this.pending.get(key) as Promise<T> | undefined;
+    if (inFlight && !options.forceRefresh) {
+      return raceAbort(inFlight, options.signal);
+    }
+
+    const promise = this.revalidate(
+      key,
+      load,
+      options.forceRefresh ? undefined : entry,
+    );
+    this.pending.set(key, promise);
+    const settle = () => {
+      if (this.pending.get(key) === promise) {
+        this.pending.delete(key);
+      }
+    };
+    promise.then(settle, settle);
+    return raceAbort(promise, options.signal);
+  }
+
+  clear() {
+    this.entries.clear();
+    this.pending.clear();
+  }
+
+  private async revalidate<T>(
+    key: string,
+    load: Loader<T>,
+    entry: CacheEntry<T> | undefined,
+  ): Promise<T> {
+    const response = await load(entry?.validators);
+
+    if (response.notModified && entry) {
+      entry.fetchedAt = Date.now();
+      return entry.data;
+    }
+
+    this.entries.set(key, {
+      data: response.data,
+      fetchedAt: Date.now(),
+      validators: {
+        etag: response.headers.get("etag") ?? undefined,
+        lastModified: response.headers.get("last-modified") ?? undefined,
+      },
+    });
+    return response.data;
+  }
+}
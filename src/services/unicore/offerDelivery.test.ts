@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  getChannelConflictError,
+  recordTxCodeHandoff,
+  type OfferDelivery,
+} from "./offerDelivery";
+
+const delivery = (
+  content: OfferDelivery["content"],
+  status: OfferDelivery["status"],
+): OfferDelivery => ({
+  id: crypto.randomUUID(),
+  content,
+  method: "email",
+  recipient: "holder@example.com",
+  attemptedAt: new Date().toISOString(),
+  status,
+});
+
+describe("getChannelConflictError", () => {
+  it.each([
+    ["offer sent", [delivery("offer", "sent")], "tx_code", true],
+    ["legacy offer", [delivery(undefined, "sent")], "tx_code", true],
+    ["PIN copied", [delivery("tx_code", "copied")], "offer", true],
+    ["failed offer", [delivery("offer", "failed")], "tx_code", false],
+    ["failed PIN", [delivery("tx_code", "failed")], "offer", false],
+    ["offer again", [delivery("offer", "sent")], "offer", false],
+  ] as const)(
+    "%s, then %s by email → conflict %s",
+    (_, deliveries, content, conflict) => {
+      const error = getChannelConflictError([...deliveries], content, "email");
+      expect(error !== null).toBe(conflict);
+      expect(getChannelConflictError([...deliveries], content, "sms")).toBe(
+        null,
+      );
+    },
+  );
+});
+
+describe("recordTxCodeHandoff", () => {
+  it("records a copied PIN without contacting the agent", () => {
+    expect(recordTxCodeHandoff("sms", "+41 79 123 45 67")).toMatchObject({
+      content: "tx_code",
+      method: "sms",
+      recipient: "+41791234567",
+      status: "copied",
+    });
+  });
+
+  it("rejects an invalid recipient", () => {
+    expect(recordTxCodeHandoff("sms", "0791234567")).toMatchObject({
+      status: "failed",
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { getErrorKind, getErrorMessage, type UniCoreErrorKind } from "./errors";
+import type { CallOptions } from "./http";
+import {
+  unicoreService,
+  type DeliveryMethod,
+  type SendOfferRequest,
+} from "./unicoreService";
+
+export const DELIVERY_METHODS: readonly DeliveryMethod[] = [
+  "email",
+  "sms",
+  "webhook",
+];
+
+/** One attempt to deliver an offer or its PIN, kept on the issued credential. */
+export interface OfferDelivery {
+  id: string;
+  /** What was sent; entries recorded before PINs existed are offers. */
+  content?: "offer" | "tx_code";
+  method: DeliveryMethod;
+  recipient: string;
+  attemptedAt: string;
+  /**
+   * `copied` is a PIN the operator copied to send to `recipient` through
+   * `method` themselves; the agent has no way to send PINs.
+   */
+  status: "sent" | "failed" | "copied";
+  error?: string;
+  errorKind?: UniCoreErrorKind;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// E.164: leading +, country code, at most 15 digits in total.
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+/** Strips the separators people type in phone numbers. */
+export function normalizeRecipient(
+  method: DeliveryMethod,
+  recipient: string,
+): string {
+  const value = recipient.trim();
+  return method === "sms" ? value.replace(/[\s().-]/g, "") : value;
+}
+
+/** Returns why `recipient` cannot be used with `method`, or null if it can. */
+export function validateRecipient(
+  method: DeliveryMethod,
+  recipient: string,
+): string | null {
+  const value = normalizeRecipient(method, recipient);
+  if (!value) {
+    return "Recipient is required";
+  }
+
+  switch (method) {
+    case "email":
+      return EMAIL_PATTERN.test(value) ? null : "Enter a valid email address";
+    case "sms":
+      return PHONE_PATTERN.test(value)
+        ? null
+        : "Enter the phone number in international format, e.g. +41791234567";
+    case "webhook":
+      try {
+        const url = new URL(value);
+        return url.protocol === "https:" || url.protocol === "http:"
+          ? null
+          : "Webhook URL must use http or https";
+      } catch {
+        return "Enter a valid webhook URL";
+      }
+  }
+}
+
+/**
+ * Asks the agent to deliver the offer and records the outcome. Never throws:
+ * a failed attempt is returned with its error so it can be shown and retried.
+ */
+export function deliverOffer(
+  offerId: string,
+  method: DeliveryMethod,
+  recipient: string,
+  options: CallOptions = {},
+): Promise<OfferDelivery> {
+  return attemptDelivery({ offerId, method, recipient }, options);
+}
+
+/**
+ * Records that the operator copied the offer's PIN to send it to `recipient`
+ * through `method`. The agent's send endpoint only delivers offers, so the
+ * PIN never goes through it.
+ */
+export function recordTxCodeHandoff(
+  method: DeliveryMethod,
+  recipient: string,
+): OfferDelivery {
+  const attempt = {
+    id: crypto.randomUUID(),
+    content: "tx_code" as const,
+    method,
+    recipient: normalizeRecipient(method, recipient),
+    attemptedAt: new Date().toISOString(),
+  };
+  const invalid = validateRecipient(method, recipient);
+  return invalid
+    ? { ...attempt, status: "failed", error: invalid }
+    : { ...attempt, status: "copied" };
+}
+
+/**
+ * A PIN sent the same way as the offer protects nothing: whoever intercepts
+ * one gets both. Returns why `content` cannot go through `method` because
+ * the other one already did, or null.
+ */
+export function getChannelConflictError(
+  deliveries: OfferDelivery[],
+  content: NonNullable<OfferDelivery["content"]>,
+  method: DeliveryMethod,
+): string | null {
+  const other = content === "offer" ? "tx_code" : "offer";
+  const conflict = deliveries.some(
+    (delivery) =>
+      (delivery.content ?? "offer") === other &&
+      delivery.status !== "failed" &&
+      delivery.method === method,
+  );
+  if (!conflict) {
+    return null;
+  }
+  return other === "offer"
+    ? `The offer was already sent by ${method}; send the PIN through another channel`
+    : `The PIN was already sent by ${method}; send the offer through another channel`;
+}
+
+async function attemptDelivery(
+  request: SendOfferRequest,
+  options: CallOptions,
+): Promise<OfferDelivery> {
+  const { method, recipient } = request;
+  const attempt = {
+    id: crypto.randomUUID(),
+    content: "offer" as const,
+    method,
+    recipient: normalizeRecipient(method, recipient),
+    attemptedAt: new Date().toISOString(),
+  };
+
+  const invalid = validateRecipient(method, recipient);
+  if (invalid) {
+    return { ...attempt, status: "failed", error: invalid };
+  }
+
+  try {
+    await unicoreService.sendOffer(
+      { ...request, recipient: attempt.recipient },
+      options,
+    );
+    return { ...attempt, status: "sent" };
+  } catch (error) {
+    return {
+      ...attempt,
+      status: "failed",
+      error: getErrorMessage(error),
+      errorKind: getErrorKind(error),
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { getConfig, type AppConfig } from "../config/configService";
+import type { CredentialType } from "./credentialSubject";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+/**
+ * How long a new offer stays redeemable, in minutes. Sensitive types get the
+ * shortest lifetimes; `offerLifetimes` in the config overrides them per type.
+ */
+export const DEFAULT_OFFER_LIFETIMES: Record<CredentialType, number> = {
+  TravelDocument: DAY,
+  WorkAuthorization: 7 * DAY,
+  ProfessionalSkills: 30 * DAY,
+  HealthRecord: HOUR,
+  EducationCredential: 30 * DAY,
+};
+
+const FALLBACK_OFFER_LIFETIME = DAY;
+
+/** Choices offered when overriding the lifetime at issuance. */
+export const OFFER_LIFETIME_PRESETS = [
+  15,
+  HOUR,
+  8 * HOUR,
+  DAY,
+  7 * DAY,
+  30 * DAY,
+] as const;
+
+export function getOfferLifetime(
+  type: string,
+  config: AppConfig = getConfig(),
+): number {
+  return (
+    config.offerLifetimes[type] ??
+    DEFAULT_OFFER_LIFETIMES[type as CredentialType] ??
+    FALLBACK_OFFER_LIFETIME
+  );
+}
+
+export function getOfferExpiry(
+  lifetimeMinutes: number,
+  from: number = Date.now(),
+): string {
+  return new Date(from + lifetimeMinutes * MINUTE_MS).toISOString();
+}
+
+/** Milliseconds until `expiresAt`; zero or less once it has passed. */
+export function getTimeRemaining(
+  expiresAt: string,
+  now: number = Date.now(),
+): number {
+  return Date.parse(expiresAt) - now;
+}
+
+export function formatLifetime(minutes: number): string {
+  if (minutes % DAY === 0) {
+    return `${minutes / DAY} day${minutes === DAY ? "" : "s"}`;
+  }
+  if (minutes % HOUR === 0) {
+    return `${minutes / HOUR} hour${minutes === HOUR ? "" : "s"}`;
+  }
+  return `${minutes} min`;
+}
+
+/** Countdown text such as "2d 03h", "1h 05m" or "04:59". */
+export function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  if (days > 0) return `${days}d ${pad(hours)}h`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${pad(minutes)}:${pad(seconds)}`;
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { UniCoreClientError } from "./errors";
+import { fetchOfferStatuses, isTerminalOfferStatus } from "./offerStatus";
+import { unicoreService } from "./unicoreService";
+
+const clientError = (status: number) =>
+  new UniCoreClientError(`Failed to get offer: ${status}`, status);
+
+describe("fetchOfferStatuses", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reports an offer the agent no longer has as removed, not failed", async () => {
+    vi.spyOn(unicoreService, "getAllOffers").mockResolvedValue([]);
+    vi.spyOn(unicoreService, "getOffer").mockRejectedValue(clientError(404));
+
+    const update = (await fetchOfferStatuses(["offer-1"])).get("offer-1");
+
+    expect(update?.status).toBe("removed");
+    expect(isTerminalOfferStatus(update!.status)).toBe(true);
+  });
+
+  it("keeps the last known status when the lookup is refused", async () => {
+    vi.spyOn(unicoreService, "getAllOffers").mockResolvedValue([]);
+    vi.spyOn(unicoreService, "getOffer").mockRejectedValue(clientError(403));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect((await fetchOfferStatuses(["offer-2"])).has("offer-2")).toBe(false);
+  });
+
+  it("looks up an offer missing from the list only once", async () => {
+    vi.spyOn(unicoreService, "getAllOffers").mockResolvedValue([]);
+    const getOffer = vi
+      .spyOn(unicoreService, "getOffer")
+      .mockResolvedValue({ id: "offer-3" });
+
+    const first = await fetchOfferStatuses(["offer-3"]);
+    const second = await fetchOfferStatuses(["offer-3"]);
+
+    expect(first.get("offer-3")?.status).toBe("offered");
+    expect(second.has("offer-3")).toBe(false);
+    expect(getOffer).toHaveBeenCalledTimes(1);
+  });
+});
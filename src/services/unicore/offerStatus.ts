@@ -0,0 +1,132 @@
+import { UniCoreClientError, getErrorMessage } from "./errors";
+import type { CallOptions } from "./http";
+import type { OfferRecord } from "./schemas";
+import { unicoreService } from "./unicoreService";
+
+/**
+ * Lifecycle of an issued offer. Only `offered` changes over time; the others
+ * are terminal and are not checked again. `removed` means the agent no longer
+ * knows the offer, which says nothing about how it ended.
+ */
+export type OfferStatus =
+  "offered" | "redeemed" | "expired" | "failed" | "removed";
+
+export const OFFER_STATUS_POLL_MS = 15000;
+
+export interface OfferStatusUpdate {
+  status: OfferStatus;
+  reason?: string;
+}
+
+export function isTerminalOfferStatus(status: OfferStatus): boolean {
+  return status !== "offered";
+}
+
+/**
+ * Maps statuses stored before offer tracking existed: everything that was
+ * "issued" or "pending" is an open offer, "error" means it failed.
+ */
+export function migrateOfferStatus(status: string): OfferStatus {
+  switch (status) {
+    case "offered":
+    case "redeemed":
+    case "expired":
+    case "failed":
+    case "removed":
+      return status;
+    case "error":
+      return "failed";
+    default:
+      return "offered";
+  }
+}
+
+/**
+ * Reads the offer state from the agent record. An explicit `status` wins;
+ * otherwise a credential response means the wallet has redeemed the offer.
+ */
+export function deriveOfferStatus(record: OfferRecord): OfferStatusUpdate {
+  const status = record.status?.toLowerCase() ?? "";
+
+  if (/expire/.test(status)) {
+    return { status: "expired", reason: `Agent reports "${record.status}"` };
+  }
+  if (/fail|error|reject|revoke/.test(status)) {
+    return { status: "failed", reason: `Agent reports "${record.status}"` };
+  }
+  if (
+    /redeem|credential_?response|complete|accepted/.test(status) ||
+    record.credential_response != null
+  ) {
+    return { status: "redeemed" };
+  }
+  return { status: "offered" };
+}
+
+const offerIdOf = (record: OfferRecord) => record.offer_id ?? record.id;
+
+/**
+ * Offers already looked up one by one. An offer missing from the list is
+ * looked up once per session rather than on every poll.
+ */
+const lookedUp = new Set<string>();
+
+/**
+ * Looks up the current state of the given offers: one list request, then a
+ * single individual lookup for each offer the list does not contain. Offers
+ * that were looked up before, or that the agent rejects a lookup for, are
+ * left out so they keep their previous status; any other failure propagates.
+ */
+export async function fetchOfferStatuses(
+  offerIds: string[],
+  options: CallOptions = {},
+): Promise<Map<string, OfferStatusUpdate>> {
+  const updates = new Map<string, OfferStatusUpdate>();
+  if (offerIds.length === 0) {
+    return updates;
+  }
+
+  const records = await unicoreService.getAllOffers(options);
+  const byId = new Map(
+    records.flatMap((record) => {
+      const id = offerIdOf(record);
+      return id ? [[id, record] as const] : [];
+    }),
+  );
+
+  for (const offerId of offerIds) {
+    const listed = byId.get(offerId);
+    if (listed) {
+      updates.set(offerId, deriveOfferStatus(listed));
+      continue;
+    }
+    if (lookedUp.has(offerId)) {
+      continue;
+    }
+
+    try {
+      const record = await unicoreService.getOffer(offerId, options);
+      lookedUp.add(offerId);
+      updates.set(offerId, deriveOfferStatus(record));
+    } catch (error) {
+      if (!(error instanceof UniCoreClientError)) {
+        throw error;
+      }
+      lookedUp.add(offerId);
+      if (error.status === 404) {
+        updates.set(offerId, {
+          status: "removed",
+          reason:
+            "The agent no longer has this offer; it may have been redeemed, expired or deleted",
+        });
+      } else {
+        console.warn(
+          `Could not read status of offer ${offerId}:`,
+          getErrorMessage(error),
+        );
+      }
+    }
+  }
+
+  return updates;
+}
@@ -0,0 +1,298 @@
+import type {
+  InputDescriptor,
+  PresentationDefinition,
+  PresentationField,
+} from "./schemas";
+
+/*
+ * Typed builder for DIF Presentation Exchange definitions. Constraints are
+ * written against `credentialSubject` claims and compiled to JSONPath fields
+ * with JSON Schema filters, so callers never assemble filters by hand.
+ */
+
+export type ConstraintOperator =
+  | "exists"
+  | "equals"
+  | "in"
+  | "startsWith"
+  | "matches"
+  | "before"
+  | "onOrBefore"
+  | "after"
+  | "onOrAfter"
+  | "lessThan"
+  | "atMost"
+  | "greaterThan"
+  | "atLeast";
+
+/** Value that date operators resolve to the current date when built. */
+export const TODAY = "today";
+
+export interface ConstraintOperatorInfo {
+  label: string;
+  /** What the operator compares, which decides the value input. */
+  kind: "none" | "text" | "list" | "regex" | "date" | "number";
+}
+
+export const CONSTRAINT_OPERATORS: Record<
+  ConstraintOperator,
+  ConstraintOperatorInfo
+> = {
+  exists: { label: "is present", kind: "none" },
+  equals: { label: "equals", kind: "text" },
+  in: { label: "is one of", kind: "list" },
+  startsWith: { label: "starts with", kind: "text" },
+  matches: { label: "matches regex", kind: "regex" },
+  before: { label: "is before", kind: "date" },
+  onOrBefore: { label: "is on or before", kind: "date" },
+  after: { label: "is after", kind: "date" },
+  onOrAfter: { label: "is on or after", kind: "date" },
+  lessThan: { label: "<", kind: "number" },
+  atMost: { label: "≤", kind: "number" },
+  greaterThan: { label: ">", kind: "number" },
+  atLeast: { label: "≥", kind: "number" },
+};
+
+export interface ClaimConstraint {
+  /** Claim name inside `credentialSubject`. */
+  claim: string;
+  operator: ConstraintOperator;
+  /** A list for `in`, a number for numeric operators, otherwise text. */
+  value?: string | number | string[];
+  /** The credential still matches when the claim is missing. */
+  optional?: boolean;
+  purpose?: string;
+}
+
+export interface DescriptorSpec {
+  /** Credential type the descriptor asks for. */
+  type: string;
+  id?: string;
+  name?: string;
+  purpose?: string;
+  constraints?: ClaimConstraint[];
+  /**
+   * Claims the verifier needs to see. When set, the wallet is asked to
+   * reveal only these and the constrained claims (`limit_disclosure`).
+   */
+  disclose?: string[];
+  /** Defaults to "required" when `disclose` is set. */
+  limitDisclosure?: "required" | "preferred";
+}
+
+export interface DefinitionOptions {
+  id?: string;
+  name?: string;
+  purpose?: string;
+  /** Date `TODAY` resolves to; defaults to now. */
+  now?: Date;
+}
+
+/** Escapes `value` so it matches literally inside a regular expression. */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** JSONPaths for a subject claim, as a plain VC and inside a JWT `vc`. */
+export function claimPaths(claim: string): string[] {
+  const segment = IDENTIFIER.test(claim)
+    ? `.${claim}`
+    : `['${claim.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}']`;
+  return [`$.credentialSubject${segment}`, `$.vc.credentialSubject${segment}`];
+}
+
+function resolveDate(value: unknown, now: Date): string {
+  const text = String(value ?? "").trim();
+  return text.toLowerCase() === TODAY ? now.toISOString().slice(0, 10) : text;
+}
+
+function toList(value: ClaimConstraint["value"]): string[] {
+  const items = Array.isArray(value) ? value : String(value ?? "").split(",");
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+/** The JSON Schema filter for one constraint; `exists` has none. */
+function buildFilter(
+  constraint: ClaimConstraint,
+  now: Date,
+): Record<string, unknown> | undefined {
+  const { operator, value } = constraint;
+  switch (operator) {
+    case "exists":
+      return undefined;
+    case "equals":
+      return { type: "string", const: String(value ?? "") };
+    case "in":
+      return { type: "string", enum: toList(value) };
+    case "startsWith":
+      return {
+        type: "string",
+        pattern: `^${escapeRegex(String(value ?? ""))}`,
+      };
+    case "matches":
+      return { type: "string", pattern: String(value ?? "") };
+    case "before":
+      return dateFilter("formatExclusiveMaximum", value, now);
+    case "onOrBefore":
+      return dateFilter("formatMaximum", value, now);
+    case "after":
+      return dateFilter("formatExclusiveMinimum", value, now);
+    case "onOrAfter":
+      return dateFilter("formatMinimum", value, now);
+    // No `type`: claims issued here are strings, so "2015" must count too.
+    case "lessThan":
+      return { exclusiveMaximum: Number(value) };
+    case "atMost":
+      return { maximum: Number(value) };
+    case "greaterThan":
+      return { exclusiveMinimum: Number(value) };
+    case "atLeast":
+      return { minimum: Number(value) };
+  }
+}
+
+function dateFilter(keyword: string, value: unknown, now: Date) {
+  return { type: "string", format: "date", [keyword]: resolveDate(value, now) };
+}
+
+/** Problems with a constraint's value; empty when it can be built. */
+export function validateConstraint(constraint: ClaimConstraint): string[] {
+  const errors: string[] = [];
+  const { claim, operator, value } = constraint;
+  const kind = CONSTRAINT_OPERATORS[operator].kind;
+  const text = Array.isArray(value) ? "" : String(value ?? "").trim();
+
+  if (!claim.trim()) {
+    errors.push("A claim name is required");
+  }
+  if (kind === "text" && !text) {
+    errors.push(`${claim}: a value is required`);
+  }
+  if (kind === "list" && toList(value).length === 0) {
+    errors.push(`${claim}: list at least one value`);
+  }
+  if (kind === "regex") {
+    try {
+      new RegExp(text, "u");
+    } catch {
+      errors.push(`${claim}: "${text}" is not a valid regular expression`);
+    }
+  }
+  if (
+    kind === "date" &&
+    text.toLowerCase() !== TODAY &&
+    (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(Date.parse(text)))
+  ) {
+    errors.push(`${claim}: use a date (YYYY-MM-DD) or "${TODAY}"`);
+  }
+  if (kind === "number" && (text === "" || !Number.isFinite(Number(text)))) {
+    errors.push(`${claim}: a number is required`);
+  }
+  return errors;
+}
+
+export function validateDescriptorSpec(spec: DescriptorSpec): string[] {
+  const errors = (spec.constraints ?? []).flatMap(validateConstraint);
+  if (!spec.type.trim()) {
+    errors.unshift("A credential type is required");
+  }
+  return errors;
+}
+
+export function buildField(
+  constraint: ClaimConstraint,
+  now: Date = new Date(),
+): PresentationField {
+  const filter = buildFilter(constraint, now);
+  return {
+    path: claimPaths(constraint.claim),
+    name: constraint.claim,
+    ...(constraint.purpose && { purpose: constraint.purpose }),
+    ...(filter && { filter }),
+    ...(constraint.optional && { optional: true }),
+  };
+}
+
+/**
+ * Requires the credential type: in `type` for W3C credentials, or as the
+ * last segment of an SD-JWT VC's `vct`.
+ */
+export function typeField(type: string): PresentationField {
+  return {
+    path: ["$.type", "$.vc.type", "$.vct"],
+    filter: {
+      anyOf: [
+        { type: "array", contains: { const: type } },
+        { type: "string", pattern: `(^|[/#:])${escapeRegex(type)}$` },
+      ],
+    },
+  };
+}
+
+export function buildInputDescriptor(
+  spec: DescriptorSpec,
+  now: Date = new Date(),
+): InputDescriptor {
+  const constraints = spec.constraints ?? [];
+  const constrained = new Set(constraints.map(({ claim }) => claim));
+  // Disclosed claims without a rule still have to be listed to be revealed.
+  const disclosed = (spec.disclose ?? [])
+    .filter((claim) => !constrained.has(claim))
+    .map((claim) => buildField({ claim, operator: "exists" }, now));
+
+  const limitDisclosure =
+    spec.limitDisclosure ?? (spec.disclose?.length ? "required" : undefined);
+
+  return {
+    id: spec.id ?? spec.type,
+    name: spec.name ?? `${spec.type} Credential`,
+    purpose: spec.purpose ?? `Verify ${spec.type} credential`,
+    constraints: {
+      ...(limitDisclosure && { limit_disclosure: limitDisclosure }),
+      fields: [
+        typeField(spec.type),
+        ...constraints.map((constraint) => buildField(constraint, now)),
+        ...disclosed,
+      ],
+    },
+  };
+}
+
+/**
+ * Builds a presentation definition with one input descriptor per spec.
+ * Throws when a spec is invalid; use `validateDescriptorSpec` to report
+ * problems first.
+ */
+export function buildPresentationDefinition(
+  specs: DescriptorSpec[],
+  options: DefinitionOptions = {},
+): PresentationDefinition {
+  if (specs.length === 0) {
+    throw new Error("A presentation definition needs at least one descriptor");
+  }
+  const errors = specs.flatMap(validateDescriptorSpec);
+  if (errors.length > 0) {
+    throw new Error(`Invalid presentation definition: ${errors.join("; ")}`);
+  }
+
+  const now = options.now ?? new Date();
+  const ids = new Set<string>();
+  const descriptors = specs.map((spec, index) => {
+    // Descriptor IDs must be unique; repeat types get a suffix.
+    let id = spec.id ?? spec.type;
+    if (ids.has(id)) {
+      id = `${id}-${index + 1}`;
+    }
+    ids.add(id);
+    return buildInputDescriptor({ ...spec, id }, now);
+  });
+
+  return {
+    id: options.id ?? `verification-${crypto.randomUUID()}`,
+    ...(options.name && { name: options.name }),
+    ...(options.purpose && { purpose: options.purpose }),
+    input_descriptors: descriptors,
+  };
+}
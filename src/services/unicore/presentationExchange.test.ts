@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildInputDescriptor,
+  type ClaimConstraint,
+} from "./presentationDefinition";
+import { matchDescriptor } from "./presentationExchange";
+
+/** A JWT VC payload as this app's issuer builds it: every claim a string. */
+const credential = (claims: Record<string, unknown>) => ({
+  vc: {
+    type: ["VerifiableCredential", "EducationCredential"],
+    credentialSubject: { id: "did:example:holder", ...claims },
+  },
+});
+
+const matches = (
+  constraint: ClaimConstraint,
+  claims: Record<string, unknown>,
+) =>
+  matchDescriptor(
+    buildInputDescriptor({
+      type: "EducationCredential",
+      constraints: [constraint],
+    }),
+    [credential(claims)],
+  ).matched;
+
+describe("numeric constraints", () => {
+  it.each([
+    ["atLeast", "2015", "2018", true],
+    ["atLeast", "2015", "2015", true],
+    ["atLeast", "2015", "2012", false],
+    ["greaterThan", "2015", "2015", false],
+    ["atMost", "2015", "2015", true],
+    ["lessThan", "2015", "2012", true],
+    ["atLeast", "2015", 2018, true],
+    ["atLeast", "2015", "recent", false],
+    ["atLeast", "2015", "", false],
+  ] as const)(
+    "graduation_year %s %s holds for %j: %s",
+    (operator, value, claim, expected) => {
+      expect(
+        matches(
+          { claim: "graduation_year", operator, value },
+          { graduation_year: claim },
+        ),
+      ).toBe(expected);
+    },
+  );
+});
+
+describe("claim constraints", () => {
+  it.each([
+    [{ operator: "equals", value: "MSc" }, "MSc", true],
+    [{ operator: "equals", value: "MSc" }, "BSc", false],
+    [{ operator: "in", value: "BSc, MSc" }, "MSc", true],
+    [{ operator: "in", value: "BSc, MSc" }, "PhD", false],
+    [{ operator: "startsWith", value: "M.(" }, "M.(Eng)", true],
+    [{ operator: "startsWith", value: "M.(" }, "MA(Eng)", false],
+    [{ operator: "exists" }, "anything", true],
+    [{ operator: "before", value: "2020-01-01" }, "2019-12-31", true],
+    [{ operator: "before", value: "2020-01-01" }, "2020-01-01", false],
+    [{ operator: "onOrAfter", value: "2020-01-01" }, "2020-01-01", true],
+    [{ operator: "onOrAfter", value: "2020-01-01" }, "not a date", false],
+    [{ operator: "equals", value: "1" }, 1, false],
+  ] as const)("degree %j holds for %j: %s", (rule, claim, expected) => {
+    expect(matches({ claim: "degree", ...rule }, { degree: claim })).toBe(
+      expected,
+    );
+  });
+
+  it("rejects a credential without a required claim", () => {
+    expect(matches({ claim: "degree", operator: "exists" }, {})).toBe(false);
+  });
+
+  it("accepts a credential without an optional claim", () => {
+    expect(
+      matches({ claim: "degree", operator: "exists", optional: true }, {}),
+    ).toBe(true);
+  });
+
+  it("rejects a credential of another type", () => {
+    const match = matchDescriptor(
+      buildInputDescriptor({ type: "DriverLicense" }),
+      [credential({ degree: "MSc" })],
+    );
+
+    expect(match.matched).toBe(false);
+    expect(match.fields[0].matched).toBe(false);
+  });
+
+  it("rejects a credential in a format the descriptor does not accept", () => {
+    const match = matchDescriptor(
+      {
+        ...buildInputDescriptor({ type: "EducationCredential" }),
+        format: { jwt_vc_json: {} },
+      },
+      [credential({})],
+      "vc+sd-jwt",
+    );
+
+    expect(match.formatAccepted).toBe(false);
+    expect(match.matched).toBe(false);
+  });
+});
+
+describe("invalid filters", () => {
+  it("fails the field with the pattern error instead of logging it", () => {
+    const warn = vi.spyOn(console, "warn");
+    const match = matchDescriptor(
+      {
+        id: "education",
+        constraints: {
+          fields: [
+            {
+              path: ["$.vc.credentialSubject.degree"],
+              filter: { pattern: "(" },
+            },
+          ],
+        },
+      },
+      [credential({ degree: "MSc" })],
+    );
+
+    expect(match.matched).toBe(false);
+    expect(match.fields[0].error).toMatch(/Invalid filter pattern/);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,291 @@
+import { decodeJwt } from "../identity/jwt";
+import { isSdJwt, revealSdJwt } from "../identity/sdJwt";
+import { getErrorMessage } from "./errors";
+import type { InputDescriptor, PresentationField } from "./schemas";
+
+/*
+ * Evaluation of DIF Presentation Exchange input descriptors against
+ * credentials. Paths support the JSONPath subset definitions use in practice
+ * (`$.a.b`, `$['a']`, `$.a[0]`, `[*]`); filters the JSON Schema keywords
+ * below. Unknown filter keywords are ignored rather than failing a match.
+ */
+
+export type PathSegment = string | number | "*";
+
+const SEGMENT =
+  /^(?:\.([A-Za-z_$@][\w$@-]*)|\.\*|\[(\d+)\]|\[\*\]|\[(['"])(.*?)\3\])/;
+
+export function parsePath(path: string): PathSegment[] {
+  if (!path.startsWith("$")) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+  const segments: PathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest) {
+    const match = rest.match(SEGMENT);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath: ${path}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else if (match[4] !== undefined) segments.push(match[4]);
+    else segments.push("*");
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+/** All values `path` selects in `document`; empty when nothing matches. */
+export function evaluatePath(document: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [document];
+  for (const segment of parsePath(path)) {
+    nodes = nodes.flatMap((node) => {
+      if (!node || typeof node !== "object") return [];
+      if (segment === "*") return Object.values(node);
+      const value = (node as Record<string | number, unknown>)[segment];
+      return value === undefined ? [] : [value];
+    });
+  }
+  return nodes;
+}
+
+const isDateFormat = (format: unknown) =>
+  format === "date" || format === "date-time";
+
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return !!value && typeof value === "object" && !Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/** A number, or a string holding one; claims are often issued as strings. */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Compares numbers or numeric strings, or ISO dates when the filter declares
+ * a date format.
+ */
+function compare(
+  value: unknown,
+  bound: unknown,
+  format: unknown,
+): number | null {
+  if (isDateFormat(format)) {
+    const left = Date.parse(String(value));
+    const right = Date.parse(String(bound));
+    return Number.isNaN(left) || Number.isNaN(right) ? null : left - right;
+  }
+  const left = toNumber(value);
+  return left === null || typeof bound !== "number" ? null : left - bound;
+}
+
+function testPattern(pattern: string, value: string): boolean {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, "u");
+  } catch {
+    throw new Error(`Invalid filter pattern: ${pattern}`);
+  }
+  return regex.test(value);
+}
+
+/**
+ * Checks `value` against the JSON Schema subset used by field filters.
+ * Throws when a `pattern` is not a valid regular expression.
+ */
+export function matchesFilter(
+  value: unknown,
+  filter: Record<string, unknown>,
+): boolean {
+  if (filter.type !== undefined) {
+    const types = Array.isArray(filter.type) ? filter.type : [filter.type];
+    if (!types.some((type) => matchesType(value, type))) return false;
+  }
+  if (
+    "const" in filter &&
+    JSON.stringify(value) !== JSON.stringify(filter.const)
+  ) {
+    return false;
+  }
+  if (
+    Array.isArray(filter.enum) &&
+    !filter.enum.some((item) => JSON.stringify(item) === JSON.stringify(value))
+  ) {
+    return false;
+  }
+  if (typeof filter.pattern === "string") {
+    if (typeof value !== "string" || !testPattern(filter.pattern, value)) {
+      return false;
+    }
+  }
+  if (typeof value === "string") {
+    const { minLength, maxLength } = filter;
+    if (typeof minLength === "number" && value.length < minLength) {
+      return false;
+    }
+    if (typeof maxLength === "number" && value.length > maxLength) {
+      return false;
+    }
+  }
+
+  const bounds: Array<[string, (difference: number) => boolean]> = [
+    ["minimum", (d) => d >= 0],
+    ["maximum", (d) => d <= 0],
+    ["exclusiveMinimum", (d) => d > 0],
+    ["exclusiveMaximum", (d) => d < 0],
+    ["formatMinimum", (d) => d >= 0],
+    ["formatMaximum", (d) => d <= 0],
+    ["formatExclusiveMinimum", (d) => d > 0],
+    ["formatExclusiveMaximum", (d) => d < 0],
+  ];
+  for (const [keyword, accepts] of bounds) {
+    if (filter[keyword] === undefined) continue;
+    const difference = compare(value, filter[keyword], filter.format);
+    if (difference === null || !accepts(difference)) return false;
+  }
+
+  if (filter.contains && typeof filter.contains === "object") {
+    const contains = filter.contains as Record<string, unknown>;
+    if (
+      !Array.isArray(value) ||
+      !value.some((item) => matchesFilter(item, contains))
+    ) {
+      return false;
+    }
+  }
+  if (
+    Array.isArray(filter.anyOf) &&
+    !filter.anyOf.some(
+      (option) =>
+        !!option &&
+        typeof option === "object" &&
+        matchesFilter(value, option as Record<string, unknown>),
+    )
+  ) {
+    return false;
+  }
+  if (filter.not && typeof filter.not === "object") {
+    if (matchesFilter(value, filter.not as Record<string, unknown>)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export interface FieldMatch {
+  field: PresentationField;
+  matched: boolean;
+  /** The path that produced `value`. */
+  path?: string;
+  value?: unknown;
+  /** Why the field could not be checked, such as an invalid filter pattern. */
+  error?: string;
+}
+
+export interface DescriptorMatch {
+  descriptor: InputDescriptor;
+  /** True when every required field matched and the format is accepted. */
+  matched: boolean;
+  formatAccepted: boolean;
+  fields: FieldMatch[];
+}
+
+/**
+ * Finds the first value on the field's paths that passes its filter. A path
+ * or filter that cannot be evaluated fails the field with its error, unless
+ * another path matches.
+ */
+function matchField(field: PresentationField, roots: unknown[]): FieldMatch {
+  let error: string | undefined;
+  for (const path of field.path) {
+    for (const root of roots) {
+      try {
+        const value = evaluatePath(root, path).find(
+          (candidate) =>
+            !field.filter || matchesFilter(candidate, field.filter),
+        );
+        if (value !== undefined) {
+          return { field, matched: true, path, value };
+        }
+      } catch (cause) {
+        error ??= getErrorMessage(cause);
+      }
+    }
+  }
+  return { field, matched: false, ...(error && { error }) };
+}
+
+/**
+ * Matches a credential against an input descriptor. Each path is tried on
+ * every root in order, so a JWT VC can be checked both as its JWT payload
+ * and as the embedded `vc` object.
+ */
+export function matchDescriptor(
+  descriptor: InputDescriptor,
+  roots: unknown[],
+  format?: string,
+): DescriptorMatch {
+  const formatAccepted =
+    !descriptor.format || !format || format in descriptor.format;
+  const fields = (descriptor.constraints.fields ?? []).map((field) =>
+    matchField(field, roots),
+  );
+  return {
+    descriptor,
+    formatAccepted,
+    fields,
+    matched:
+      formatAccepted &&
+      fields.every((match) => match.matched || match.field.optional),
+  };
+}
+
+/** A JWT payload, followed by its embedded `vc` if it has one. */
+export function payloadRoots(payload: Record<string, unknown>): unknown[] {
+  return payload.vc ? [payload, payload.vc] : [payload];
+}
+
+/**
+ * The documents descriptor paths are evaluated on: a JSON credential as is,
+ * a JWT credential as its payload and the embedded `vc`. SD-JWTs are read
+ * from the signed payload only; see `revealedCredentialRoots`.
+ */
+export function credentialRoots(credential: unknown): unknown[] {
+  if (typeof credential !== "string") {
+    return [credential];
+  }
+  return payloadRoots(decodeJwt(credential.split("~")[0]).payload);
+}
+
+/**
+ * Like `credentialRoots`, with the disclosures of an SD-JWT applied so
+ * paths reach the claims the holder revealed. Throws when the disclosures
+ * do not match the credential's digests.
+ */
+export async function revealedCredentialRoots(
+  credential: unknown,
+): Promise<unknown[]> {
+  return isSdJwt(credential)
+    ? payloadRoots((await revealSdJwt(credential)).payload)
+    : credentialRoots(credential);
+}
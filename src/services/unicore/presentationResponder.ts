@@ -0,0 +1,451 @@
+import { getTestHolder } from "../identity/testHolder";
+import { decodeJwt } from "../identity/jwt";
+import {
+  KEY_BINDING_TYPE,
+  SD_JWT_FORMAT,
+  claimCovers,
+  formatClaimPath,
+  isSdJwt,
+  joinSdJwt,
+  sdHash,
+  splitSdJwt,
+  type DisclosedClaim,
+} from "../identity/sdJwt";
+import { validate, type CallOptions } from "./http";
+import {
+  credentialRoots,
+  matchDescriptor,
+  parsePath,
+  payloadRoots,
+  type DescriptorMatch,
+} from "./presentationExchange";
+import { dcqlToInputDescriptor, requiredCredentialIds } from "./dcql";
+import {
+  authorizationRequestObjectSchema,
+  type AuthorizationRequestObject,
+  type InputDescriptor,
+  type PresentationDefinition,
+} from "./schemas";
+import type { WalletCredential } from "./testWallet";
+import { unicoreService } from "./unicoreService";
+import type { VerificationQuery } from "./verificationQuery";
+
+const SUPPORTED_RESPONSE_MODE = "direct_post";
+const VP_FORMAT = "jwt_vp_json";
+
+/** An OpenID4VP request the test wallet can answer. */
+export interface PresentationRequest {
+  authorizationUrl: string;
+  request: AuthorizationRequestObject;
+  query: VerificationQuery;
+  /** What to present; DCQL credential queries are expressed as descriptors. */
+  descriptors: InputDescriptor[];
+  /** IDs of the descriptors that must be answered. */
+  required: string[];
+  purpose?: string;
+  /** Where the `direct_post` response goes. */
+  responseUri: string;
+}
+
+export interface CandidateMatch {
+  credential: WalletCredential;
+  match: DescriptorMatch;
+}
+
+export interface DescriptorCandidates {
+  descriptor: InputDescriptor;
+  /** Stored credentials that satisfy the descriptor. */
+  candidates: CandidateMatch[];
+}
+
+export interface SubmitOptions extends CallOptions {
+  /**
+   * Further SD-JWT claims the holder chose to reveal, per credential ID, as
+   * `formatClaimPath` text. Claims the request needs are always revealed.
+   */
+  disclose?: Record<string, string[]>;
+}
+
+/** Request parameters passed directly in the URL rather than by reference. */
+function readInlineRequest(params: URLSearchParams): unknown {
+  const inline: Record<string, unknown> = Object.fromEntries(params);
+  for (const name of ["presentation_definition", "dcql_query"]) {
+    const value = params.get(name);
+    if (value) {
+      try {
+        inline[name] = JSON.parse(value);
+      } catch {
+        throw new Error(`${name} is not valid JSON`);
+      }
+    }
+  }
+  return inline;
+}
+
+/** The request's query; a DCQL query wins when both are present. */
+function readQuery(request: AuthorizationRequestObject): VerificationQuery {
+  if (request.dcql_query) {
+    return { language: "dcql", query: request.dcql_query };
+  }
+  if (request.presentation_definition) {
+    return {
+      language: "presentation_exchange",
+      definition: request.presentation_definition,
+    };
+  }
+  throw new Error(
+    request.presentation_definition_uri
+      ? "presentation_definition_uri is not supported by the test wallet"
+      : "The request has neither a dcql_query nor a presentation_definition",
+  );
+}
+
+/**
+ * Parses an `openid4vp://` authorization URL and loads its request object,
+ * whether it is referenced by `request_uri`, passed as a `request` JWT or
+ * spelled out in the query.
+ */
+export async function loadPresentationRequest(
+  authorizationUrl: string,
+  options: CallOptions = {},
+): Promise<PresentationRequest> {
+  const operation = "read authorization request";
+  const trimmed = authorizationUrl.trim();
+  const queryStart = trimmed.indexOf("?");
+  if (queryStart < 0) {
+    throw new Error("Not an authorization request URL");
+  }
+  const params = new URLSearchParams(trimmed.slice(queryStart + 1));
+
+  const requestUri = params.get("request_uri");
+  const requestJwt = params.get("request");
+  const request = requestUri
+    ? await unicoreService.getAuthorizationRequestObject(requestUri, options)
+    : validate(
+        operation,
+        authorizationRequestObjectSchema,
+        requestJwt ? decodeJwt(requestJwt).payload : readInlineRequest(params),
+      );
+
+  const query = readQuery(request);
+  const responseMode = request.response_mode ?? "fragment";
+  if (responseMode !== SUPPORTED_RESPONSE_MODE) {
+    throw new Error(
+      `Response mode ${responseMode} is not supported by the test wallet`,
+    );
+  }
+  const responseUri = request.response_uri ?? request.redirect_uri;
+  if (!responseUri) {
+    throw new Error("The request has no response_uri to post the answer to");
+  }
+
+  return {
+    authorizationUrl: trimmed,
+    request,
+    query,
+    ...(query.language === "dcql"
+      ? {
+          descriptors: query.query.credentials.map((credentialQuery) =>
+            dcqlToInputDescriptor(credentialQuery),
+          ),
+          required: requiredCredentialIds(query.query),
+        }
+      : {
+          descriptors: query.definition.input_descriptors,
+          required: query.definition.input_descriptors.map(({ id }) => id),
+          purpose: query.definition.purpose,
+        }),
+    responseUri,
+  };
+}
+
+/** SD-JWTs are matched with all their disclosures applied. */
+function walletCredentialRoots(credential: WalletCredential): unknown[] {
+  return credential.revealed
+    ? payloadRoots(credential.revealed)
+    : credentialRoots(credential.credential);
+}
+
+/**
+ * The SD-JWT claims `match` needs revealed: those on the way to, or inside,
+ * each claim a matched field read.
+ */
+export function requiredDisclosures(
+  credential: WalletCredential,
+  match: DescriptorMatch,
+): DisclosedClaim[] {
+  const targets = match.fields.flatMap(({ matched, path }) => {
+    if (!matched || !path) return [];
+    const segments = parsePath(path);
+    // The path may have been read on the embedded `vc`.
+    return [segments, ["vc", ...segments]];
+  });
+  return (credential.disclosed ?? []).filter((claim) =>
+    targets.some((target) => claimCovers(claim.path, target)),
+  );
+}
+
+/** Lists, per input descriptor, the stored credentials that satisfy it. */
+export function findCandidates(
+  presentationRequest: PresentationRequest,
+  credentials: WalletCredential[],
+): DescriptorCandidates[] {
+  const roots = new Map(
+    credentials.map((credential) => {
+      try {
+        return [credential.id, walletCredentialRoots(credential)];
+      } catch (error) {
+        console.warn(`Cannot read credential ${credential.id}:`, error);
+        return [credential.id, []];
+      }
+    }),
+  );
+
+  return presentationRequest.descriptors.map((descriptor) => ({
+    descriptor,
+    candidates: credentials
+      .map((credential) => ({
+        credential,
+        match: matchDescriptor(
+          descriptor,
+          roots.get(credential.id)!,
+          credential.format,
+        ),
+      }))
+      .filter(({ match }) => match.matched),
+  }));
+}
+
+/** Signs a JWT VP over `credentials` for the request's verifier. */
+async function signPresentation(
+  request: AuthorizationRequestObject,
+  credentials: WalletCredential[],
+): Promise<string> {
+  const holder = await getTestHolder();
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return holder.signJwt(
+    {
+      iss: holder.did,
+      aud: request.client_id,
+      nonce: request.nonce,
+      iat: issuedAt,
+      nbf: issuedAt,
+      jti: `urn:uuid:${crypto.randomUUID()}`,
+      vp: {
+        "@context": ["https://www.w3.org/2018/credentials/v1"],
+        type: ["VerifiablePresentation"],
+        holder: holder.did,
+        verifiableCredential: credentials.map(
+          (credential) => credential.credential,
+        ),
+      },
+    },
+    "JWT",
+  );
+}
+
+/**
+ * Presents an SD-JWT with the disclosures `descriptors` need plus those the
+ * holder chose, and a key binding JWT over them for the request's verifier.
+ */
+async function presentSdJwt(
+  request: AuthorizationRequestObject,
+  credential: WalletCredential,
+  descriptors: InputDescriptor[],
+  chosen: string[] = [],
+): Promise<string> {
+  const roots = walletCredentialRoots(credential);
+  const required = descriptors.flatMap((descriptor) =>
+    requiredDisclosures(
+      credential,
+      matchDescriptor(descriptor, roots, credential.format),
+    ),
+  );
+  const disclosures = new Set(required.map((claim) => claim.disclosure));
+  const disclosable = credential.disclosed ?? [];
+  const chosenPaths = disclosable
+    .filter((claim) => chosen.includes(formatClaimPath(claim.path)))
+    .map((claim) => claim.path);
+  for (const claim of disclosable) {
+    // A chosen claim also needs the disclosures of the claims it is in.
+    if (
+      chosenPaths.some(
+        (path) =>
+          path.length >= claim.path.length && claimCovers(claim.path, path),
+      )
+    ) {
+      disclosures.add(claim.disclosure);
+    }
+  }
+
+  const { jwt } = splitSdJwt(credential.credential as string);
+  const presented = joinSdJwt(jwt, [...disclosures]);
+  const holder = await getTestHolder();
+  const keyBinding = await holder.signJwt(
+    {
+      iat: Math.floor(Date.now() / 1000),
+      aud: request.client_id,
+      nonce: request.nonce,
+      sd_hash: await sdHash(presented),
+    },
+    KEY_BINDING_TYPE,
+  );
+  return `${presented}${keyBinding}`;
+}
+
+/**
+ * The `vp_token` and `presentation_submission` for a PE request. JWT
+ * credentials go into one JWT VP; each SD-JWT is its own presentation, and
+ * with several presentations the `vp_token` is a JSON array.
+ */
+async function buildSubmission(
+  request: AuthorizationRequestObject,
+  definition: PresentationDefinition,
+  selection: Record<string, WalletCredential>,
+  disclose: Record<string, string[]>,
+): Promise<Record<string, string>> {
+  const inVp: WalletCredential[] = [];
+  const sdJwts: WalletCredential[] = [];
+  for (const descriptor of definition.input_descriptors) {
+    const credential = selection[descriptor.id];
+    if (!credential) {
+      throw new Error(`No credential chosen for ${descriptor.id}`);
+    }
+    const list = isSdJwt(credential.credential) ? sdJwts : inVp;
+    if (!list.includes(credential)) {
+      list.push(credential);
+    }
+  }
+
+  const count = sdJwts.length + (inVp.length > 0 ? 1 : 0);
+  const pathOf = (index: number) => (count === 1 ? "$" : `$[${index}]`);
+  const descriptorMap = definition.input_descriptors.map((descriptor) => {
+    const credential = selection[descriptor.id];
+    if (isSdJwt(credential.credential)) {
+      return {
+        id: descriptor.id,
+        format: credential.format ?? SD_JWT_FORMAT,
+        path: pathOf((inVp.length > 0 ? 1 : 0) + sdJwts.indexOf(credential)),
+      };
+    }
+    return {
+      id: descriptor.id,
+      format: VP_FORMAT,
+      path: pathOf(0),
+      path_nested: {
+        id: descriptor.id,
+        format: credential.format ?? "jwt_vc_json",
+        path: `$.vp.verifiableCredential[${inVp.indexOf(credential)}]`,
+      },
+    };
+  });
+
+  const presentations: string[] = [];
+  if (inVp.length > 0) {
+    presentations.push(await signPresentation(request, inVp));
+  }
+  for (const credential of sdJwts) {
+    const answered = definition.input_descriptors.filter(
+      (descriptor) => selection[descriptor.id] === credential,
+    );
+    presentations.push(
+      await presentSdJwt(
+        request,
+        credential,
+        answered,
+        disclose[credential.id],
+      ),
+    );
+  }
+
+  return {
+    vp_token:
+      presentations.length === 1
+        ? presentations[0]
+        : JSON.stringify(presentations),
+    presentation_submission: JSON.stringify({
+      id: crypto.randomUUID(),
+      definition_id: definition.id,
+      descriptor_map: descriptorMap,
+    }),
+  };
+}
+
+/**
+ * The DCQL `vp_token`: a JSON object with a list of presentations per
+ * answered credential query, one credential each.
+ */
+async function buildDcqlResponse(
+  presentationRequest: PresentationRequest,
+  selection: Record<string, WalletCredential>,
+  disclose: Record<string, string[]>,
+): Promise<Record<string, string>> {
+  const { request, required, descriptors } = presentationRequest;
+  const missing = required.filter((id) => !selection[id]);
+  if (missing.length > 0) {
+    throw new Error(`No credential chosen for ${missing.join(", ")}`);
+  }
+  const vpToken: Record<string, string[]> = {};
+  for (const [id, credential] of Object.entries(selection)) {
+    vpToken[id] = [
+      isSdJwt(credential.credential)
+        ? await presentSdJwt(
+            request,
+            credential,
+            descriptors.filter((descriptor) => descriptor.id === id),
+            disclose[credential.id],
+          )
+        : await signPresentation(request, [credential]),
+    ];
+  }
+  return { vp_token: JSON.stringify(vpToken) };
+}
+
+/**
+ * Signs and posts the presentation. `selection` maps descriptor (or DCQL
+ * credential query) IDs to credentials. Presentation Exchange answers get a
+ * single VP and a presentation submission, where a credential chosen for
+ * several descriptors is sent once; DCQL answers get a VP per query.
+ * SD-JWTs are presented on their own, revealing only the claims the request
+ * needs and those in `options.disclose`.
+ */
+export async function submitPresentation(
+  presentationRequest: PresentationRequest,
+  selection: Record<string, WalletCredential>,
+  options: SubmitOptions = {},
+): Promise<unknown> {
+  const { disclose = {}, ...callOptions } = options;
+  const { request, query, responseUri } = presentationRequest;
+  const response = new URLSearchParams(
+    query.language === "dcql"
+      ? await buildDcqlResponse(presentationRequest, selection, disclose)
+      : await buildSubmission(request, query.definition, selection, disclose),
+  );
+  if (request.state) {
+    response.set("state", request.state);
+  }
+  return unicoreService.postAuthorizationResponse(
+    responseUri,
+    response,
+    callOptions,
+  );
+}
+
+/** Tells the verifier the holder refused to share anything. */
+export async function declinePresentation(
+  presentationRequest: PresentationRequest,
+  options: CallOptions = {},
+): Promise<unknown> {
+  const response = new URLSearchParams({
+    error: "access_denied",
+    error_description: "The holder declined to share credentials",
+  });
+  if (presentationRequest.request.state) {
+    response.set("state", presentationRequest.request.state);
+  }
+  return unicoreService.postAuthorizationResponse(
+    presentationRequest.responseUri,
+    response,
+    options,
+  );
+}
@@ -0,0 +1,190 @@
+import { decodeJwt } from "../identity/jwt";
+import { getErrorMessage } from "./errors";
+import {
+  evaluatePath,
+  matchDescriptor,
+  revealedCredentialRoots,
+  type FieldMatch,
+} from "./presentationExchange";
+import {
+  presentationSubmissionSchema,
+  type DescriptorMapEntry,
+  type InputDescriptor,
+  type PresentationDefinition,
+  type PresentationSubmission,
+} from "./schemas";
+
+/*
+ * Checks a wallet's `presentation_submission` against the definition it
+ * answers: every descriptor_map entry is followed into the `vp_token` and the
+ * credential it points at must satisfy its input descriptor.
+ */
+
+export interface DescriptorResult {
+  id: string;
+  name?: string;
+  satisfied: boolean;
+  reason?: string;
+  /** Field matches of the credential the descriptor_map points at. */
+  fields?: FieldMatch[];
+}
+
+export interface SubmissionEvaluation {
+  satisfied: boolean;
+  descriptors: DescriptorResult[];
+  /** Problems with the submission itself rather than a descriptor. */
+  errors: string[];
+}
+
+/** Parses a submission passed as JSON text or an object. */
+export function parsePresentationSubmission(
+  submission: unknown,
+): PresentationSubmission {
+  const value =
+    typeof submission === "string" ? JSON.parse(submission) : submission;
+  const parsed = presentationSubmissionSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(
+      `presentation_submission is malformed: ${parsed.error.issues[0]?.message}`,
+    );
+  }
+  return parsed.data;
+}
+
+/** A JSON `vp_token` (several presentations) is addressed as an array. */
+function vpTokenRoot(vpToken: unknown): unknown {
+  if (typeof vpToken === "string" && /^\s*[[{]/.test(vpToken)) {
+    try {
+      return JSON.parse(vpToken);
+    } catch {
+      return vpToken;
+    }
+  }
+  return vpToken;
+}
+
+/** JWTs are followed into their payload before a nested path is applied. */
+function openEnvelope(value: unknown): unknown {
+  return typeof value === "string"
+    ? decodeJwt(value.split("~")[0]).payload
+    : value;
+}
+
+/**
+ * Follows `entry` and its `path_nested` chain from `root` to the credential
+ * it designates, with the format of the innermost entry.
+ */
+function resolveEntry(
+  root: unknown,
+  entry: DescriptorMapEntry,
+): { credential: unknown; format: string } {
+  const [value] = evaluatePath(root, entry.path);
+  if (value === undefined) {
+    throw new Error(`${entry.path} selects nothing in the vp_token`);
+  }
+  if (!entry.path_nested) {
+    return { credential: value, format: entry.format };
+  }
+  return resolveEntry(openEnvelope(value), entry.path_nested);
+}
+
+/** Finds an entry for `descriptor` whose credential satisfies it. */
+async function evaluateDescriptor(
+  descriptor: InputDescriptor,
+  descriptorMap: DescriptorMapEntry[],
+  root: unknown,
+): Promise<DescriptorResult> {
+  const base = { id: descriptor.id, name: descriptor.name };
+  const entries = descriptorMap.filter((entry) => entry.id === descriptor.id);
+  if (entries.length === 0) {
+    return { ...base, satisfied: false, reason: "Not in descriptor_map" };
+  }
+
+  // Several entries may answer one descriptor; one satisfying it is enough.
+  let failure: DescriptorResult | null = null;
+  for (const entry of entries) {
+    let resolved: { credential: unknown; format: string };
+    let roots: unknown[];
+    try {
+      resolved = resolveEntry(root, entry);
+      roots = await revealedCredentialRoots(resolved.credential);
+    } catch (error) {
+      failure ??= {
+        ...base,
+        satisfied: false,
+        reason: getErrorMessage(error, "The descriptor path cannot be read"),
+      };
+      continue;
+    }
+    const match = matchDescriptor(descriptor, roots, resolved.format);
+    if (match.matched) {
+      return { ...base, satisfied: true, fields: match.fields };
+    }
+    const missing = match.fields
+      .filter((field) => !field.matched && !field.field.optional)
+      .map((field) => {
+        const name = field.field.name ?? field.field.id ?? field.field.path[0];
+        return field.error ? `${name} (${field.error})` : name;
+      });
+    failure ??= {
+      ...base,
+      satisfied: false,
+      fields: match.fields,
+      reason: !match.formatAccepted
+        ? `Format ${resolved.format} is not accepted`
+        : `Constraints not met: ${missing.join(", ")}`,
+    };
+  }
+  return failure!;
+}
+
+/**
+ * Evaluates the submission. Every input descriptor is required (submission
+ * requirements are not supported) and must be answered by an entry whose
+ * credential satisfies its constraints. SD-JWT credentials are judged on
+ * the claims their disclosures reveal.
+ */
+export async function evaluateSubmission(
+  definition: PresentationDefinition,
+  submission: unknown,
+  vpToken: unknown,
+): Promise<SubmissionEvaluation> {
+  const errors: string[] = [];
+  let parsed: PresentationSubmission;
+  try {
+    parsed = parsePresentationSubmission(submission);
+  } catch (error) {
+    return {
+      satisfied: false,
+      descriptors: [],
+      errors: [getErrorMessage(error, "presentation_submission is not JSON")],
+    };
+  }
+
+  if (parsed.definition_id !== definition.id) {
+    errors.push(
+      `The submission answers definition ${parsed.definition_id}, not ${definition.id}`,
+    );
+  }
+  const known = new Set(definition.input_descriptors.map(({ id }) => id));
+  for (const entry of parsed.descriptor_map) {
+    if (!known.has(entry.id)) {
+      errors.push(`descriptor_map names unknown descriptor ${entry.id}`);
+    }
+  }
+
+  const root = vpTokenRoot(vpToken);
+  const descriptors: DescriptorResult[] = [];
+  for (const descriptor of definition.input_descriptors) {
+    descriptors.push(
+      await evaluateDescriptor(descriptor, parsed.descriptor_map, root),
+    );
+  }
+
+  return {
+    satisfied:
+      errors.length === 0 && descriptors.every((result) => result.satisfied),
+    descriptors,
+    errors,
+  };
+}
@@ -0,0 +1,113 @@
+import * as identity from "@iota/identity-wasm/node";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getConfig } from "../config/configService";
+import { checkRevocationBitmap } from "../identity/revocationBitmap";
+import {
+  REVOCATION_BITMAP_STORAGE_KEY,
+  allocateRevocationBitmapStatus,
+  buildRevocationBitmapUpdate,
+  loadRevocationBitmaps,
+  revokeInBitmap,
+  saveRevocationBitmaps,
+} from "./revocationBitmapStore";
+
+vi.mock("../../utils/wasm-loader", () => ({
+  initializeWasm: async () => identity,
+}));
+
+/** What a verifier resolves once the exported update is published. */
+const publish = (document: identity.IotaDocument) =>
+  identity.CoreDocument.fromJSON(JSON.parse(JSON.stringify(document.toJSON())));
+
+describe("revocation bitmap store", () => {
+  let document: identity.IotaDocument;
+  let did: string;
+
+  beforeEach(() => {
+    localStorage.clear();
+    document = new identity.IotaDocument("smr");
+    did = document.id().toString();
+  });
+
+  const issue = () =>
+    allocateRevocationBitmapStatus({
+      ...getConfig(),
+      revocationBitmapDid: did,
+    })!;
+
+  const revoke = (index: number) =>
+    saveRevocationBitmaps(revokeInBitmap(loadRevocationBitmaps(), did, index));
+
+  it("allocates distinct random indices under the issuer DID", () => {
+    const indices = Array.from({ length: 20 }, () =>
+      Number(issue().revocationBitmapIndex),
+    );
+
+    expect(new Set(indices).size).toBe(20);
+    expect(Math.max(...indices)).toBeGreaterThan(20);
+    expect(loadRevocationBitmaps()[did].allocated).toEqual(indices);
+  });
+
+  it("does not hand out again the indices of a sequential record", () => {
+    localStorage.setItem(
+      REVOCATION_BITMAP_STORAGE_KEY,
+      JSON.stringify({
+        [did]: { did, nextIndex: 3, revoked: [], updatedAt: "" },
+      }),
+    );
+
+    expect(loadRevocationBitmaps()[did].allocated).toEqual([0, 1, 2]);
+    expect([0, 1, 2]).not.toContain(Number(issue().revocationBitmapIndex));
+  });
+
+  it("allocates nothing without a revocation bitmap DID", () => {
+    expect(
+      allocateRevocationBitmapStatus({
+        ...getConfig(),
+        revocationBitmapDid: "",
+      }),
+    ).toBeUndefined();
+  });
+
+  it("revokes, exports and reads the status back from the re-resolved document", async () => {
+    const kept = issue();
+    const revoked = issue();
+    revoke(Number(revoked.revocationBitmapIndex));
+
+    const updated = await buildRevocationBitmapUpdate(did, document);
+    const resolve = async () => publish(updated);
+
+    expect(await checkRevocationBitmap(revoked, { resolve })).toBe(true);
+    expect(await checkRevocationBitmap(kept, { resolve })).toBe(false);
+    expect(loadRevocationBitmaps()[did].exportedAt).toBeDefined();
+  });
+
+  it("keeps revocations published from elsewhere when exporting", async () => {
+    const bitmap = new identity.RevocationBitmap();
+    bitmap.revoke(40);
+    document.insertService(bitmap.toService(document.id().join("#revocation")));
+    const ours = issue();
+    revoke(Number(ours.revocationBitmapIndex));
+
+    const updated = await buildRevocationBitmapUpdate(did, document);
+    const resolve = async () => publish(updated);
+
+    expect(await checkRevocationBitmap(ours, { resolve })).toBe(true);
+    expect(
+      await checkRevocationBitmap(
+        {
+          ...ours,
+          id: `${did}?index=40#revocation`,
+          revocationBitmapIndex: "40",
+        },
+        { resolve },
+      ),
+    ).toBe(true);
+  });
+
+  it("records a revocation once", () => {
+    revoke(3);
+    revoke(3);
+    expect(loadRevocationBitmaps()[did].revoked).toEqual([3]);
+  });
+});
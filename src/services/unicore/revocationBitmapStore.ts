@@ -0,0 +1,158 @@
+import type { IotaDocument } from "@iota/identity-wasm/web";
+import { getConfig, type AppConfig } from "../config/configService";
+import { resolveIotaDocument } from "../identity/didResolver";
+import {
+  revocationBitmapEntry,
+  mergeRevocationBitmap,
+  type RevocationBitmapEntry,
+} from "../identity/revocationBitmap";
+
+/*
+ * Issuer side of IOTA revocation bitmaps: which bitmap index each credential
+ * got and which are revoked, per issuer DID, kept in local storage. The
+ * bitmap lives in the issuer's DID document, so revoking here only takes
+ * effect once the document update built from this record is published by
+ * the DID's controller.
+ */
+
+export const REVOCATION_BITMAP_STORAGE_KEY = "unicore-revocation-bitmaps";
+
+export interface RevocationBitmapRecord {
+  did: string;
+  /** Indices handed out; never reused, even for failed issuance. */
+  allocated: number[];
+  revoked: number[];
+  updatedAt: string;
+  /** When the last DID document update was built; stale if before `updatedAt`. */
+  exportedAt?: string;
+}
+
+export type RevocationBitmaps = Record<string, RevocationBitmapRecord>;
+
+/** Records saved with a sequential `nextIndex` had handed out 0 to nextIndex - 1. */
+function migrateRecord(
+  record: Omit<RevocationBitmapRecord, "allocated"> & {
+    allocated?: number[];
+    nextIndex?: number;
+  },
+): RevocationBitmapRecord {
+  const { nextIndex, ...rest } = record;
+  return {
+    ...rest,
+    allocated:
+      record.allocated ??
+      Array.from({ length: nextIndex ?? 0 }, (_, index) => index),
+  };
+}
+
+export function loadRevocationBitmaps(): RevocationBitmaps {
+  try {
+    const stored = localStorage.getItem(REVOCATION_BITMAP_STORAGE_KEY);
+    const bitmaps: RevocationBitmaps = stored ? JSON.parse(stored) : {};
+    return Object.fromEntries(
+      Object.entries(bitmaps).map(([did, record]) => [
+        did,
+        migrateRecord(record),
+      ]),
+    );
+  } catch (error) {
+    console.error("Failed to load revocation bitmaps:", error);
+    return {};
+  }
+}
+
+export function saveRevocationBitmaps(bitmaps: RevocationBitmaps) {
+  localStorage.setItem(REVOCATION_BITMAP_STORAGE_KEY, JSON.stringify(bitmaps));
+}
+
+const emptyRecord = (did: string): RevocationBitmapRecord => ({
+  did,
+  allocated: [],
+  revoked: [],
+  updatedAt: new Date().toISOString(),
+});
+
+/** A random index, over the bitmap's whole u32 range, not yet handed out here. */
+function pickIndex(allocated: Set<number>): number {
+  const random = new Uint32Array(1);
+  for (;;) {
+    crypto.getRandomValues(random);
+    if (!allocated.has(random[0])) {
+      return random[0];
+    }
+  }
+}
+
+/**
+ * Hands out a bitmap index of the configured issuer DID, or returns
+ * undefined when no `revocationBitmapDid` is set. Other browsers and
+ * operators may issue under the same DID without seeing this record, and
+ * the published bitmap only shows revoked indices, so indices are drawn at
+ * random from the whole range: a collision, which would revoke an unrelated
+ * credential along with its own, is then vanishingly unlikely. Scattered
+ * indices compress less well, costing a few bytes of storage deposit per
+ * revocation.
+ */
+export function allocateRevocationBitmapStatus(
+  config: AppConfig = getConfig(),
+): RevocationBitmapEntry | undefined {
+  const did = config.revocationBitmapDid;
+  if (!did) {
+    return undefined;
+  }
+  const bitmaps = loadRevocationBitmaps();
+  const record = bitmaps[did] ?? emptyRecord(did);
+  const index = pickIndex(new Set(record.allocated));
+  bitmaps[did] = { ...record, allocated: [...record.allocated, index] };
+  saveRevocationBitmaps(bitmaps);
+  return revocationBitmapEntry(did, index);
+}
+
+export function isBitmapRevoked(
+  bitmaps: RevocationBitmaps,
+  did: string,
+  index: number,
+): boolean {
+  return bitmaps[did]?.revoked.includes(index) ?? false;
+}
+
+/** Marks `index` revoked in the record of `did` and returns the records. */
+export function revokeInBitmap(
+  bitmaps: RevocationBitmaps,
+  did: string,
+  index: number,
+): RevocationBitmaps {
+  const record = bitmaps[did] ?? emptyRecord(did);
+  if (record.revoked.includes(index)) {
+    return bitmaps;
+  }
+  return {
+    ...bitmaps,
+    [did]: {
+      ...record,
+      revoked: [...record.revoked, index],
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Builds the DID document update for `did`: the published document with the
+ * locally revoked indices added to its revocation bitmap, ready for the
+ * controller to publish. Pass `document` to start from a local document
+ * instead of resolving it from the node.
+ */
+export async function buildRevocationBitmapUpdate(
+  did: string,
+  document?: IotaDocument,
+): Promise<IotaDocument> {
+  const record = loadRevocationBitmaps()[did] ?? emptyRecord(did);
+  const updated = document ?? (await resolveIotaDocument(did));
+  await mergeRevocationBitmap(updated, record.revoked);
+
+  saveRevocationBitmaps({
+    ...loadRevocationBitmaps(),
+    [did]: { ...record, exportedAt: new Date().toISOString() },
+  });
+  return updated;
+}
@@ -0,0 +1,299 @@
+import { z } from "zod";
+
+/*
+ * Declared shapes of the UniCore agent responses this app relies on. Objects
+ * are loose so additive agent changes pass through; only the fields the UI
+ * reads are required.
+ */
+
+const displaySchema = z.looseObject({
+  name: z.string().optional(),
+  locale: z.string().optional(),
+});
+
+export const credentialConfigurationSchema = z.looseObject({
+  format: z.string(),
+  scope: z.string().optional(),
+  credential_definition: z
+    .looseObject({ type: z.array(z.string()).optional() })
+    .optional(),
+  display: z.array(displaySchema).optional(),
+});
+
+export const issuerMetadataSchema = z.looseObject({
+  credential_issuer: z.string(),
+  credential_endpoint: z.string(),
+  authorization_servers: z.array(z.string()).optional(),
+  credential_configurations_supported: z.record(
+    z.string(),
+    credentialConfigurationSchema,
+  ),
+  display: z.array(displaySchema).optional(),
+});
+
+export const oauthServerMetadataSchema = z.looseObject({
+  issuer: z.string(),
+  token_endpoint: z.string(),
+  grant_types_supported: z.array(z.string()).optional(),
+  "pre-authorized_grant_anonymous_access_supported": z.boolean().optional(),
+});
+
+export const didConfigurationSchema = z.looseObject({
+  "@context": z.string(),
+  linked_dids: z.array(
+    z.union([z.string(), z.record(z.string(), z.unknown())]),
+  ),
+});
+
+export const verificationMethodSchema = z.looseObject({
+  id: z.string(),
+  type: z.string(),
+  controller: z.string(),
+  publicKeyJwk: z.record(z.string(), z.unknown()).optional(),
+  publicKeyMultibase: z.string().optional(),
+});
+
+export const didDocumentSchema = z.looseObject({
+  id: z.string(),
+  verificationMethod: z.array(verificationMethodSchema).optional(),
+  service: z
+    .array(
+      z.looseObject({
+        id: z.string(),
+        type: z.union([z.string(), z.array(z.string())]),
+        serviceEndpoint: z.unknown(),
+      }),
+    )
+    .optional(),
+});
+
+export const PRE_AUTHORIZED_GRANT_TYPE =
+  "urn:ietf:params:oauth:grant-type:pre-authorized_code";
+
+const preAuthorizedGrantSchema = z.looseObject({
+  "pre-authorized_code": z.string(),
+  tx_code: z
+    .looseObject({
+      input_mode: z.enum(["numeric", "text"]).optional(),
+      length: z.number().optional(),
+      description: z.string().optional(),
+    })
+    .optional(),
+});
+
+export const credentialOfferSchema = z.looseObject({
+  credential_issuer: z.string(),
+  credential_configuration_ids: z.array(z.string()),
+  grants: z
+    .looseObject({
+      [PRE_AUTHORIZED_GRANT_TYPE]: preAuthorizedGrantSchema.optional(),
+      authorization_code: z.looseObject({}).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * An offer as wallets may receive it. Some agent versions leave out the
+ * configuration IDs, which wallet profiles can repair.
+ */
+export const credentialOfferDraftSchema = credentialOfferSchema.partial({
+  credential_configuration_ids: true,
+});
+
+export const offerUrlSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^openid-credential-offer:\/\//,
+    "Expected an openid-credential-offer URL",
+  );
+
+export const authorizationUrlSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z][a-z0-9+.-]*:\/\/\S+$/i, "Expected an authorization URL");
+
+export const offerRecordSchema = z.looseObject({
+  id: z.string().optional(),
+  offer_id: z.string().optional(),
+  credential_offer: credentialOfferSchema.optional(),
+  form_url_encoded_credential_offer: z.string().optional(),
+  pre_authorized_code: z.string().optional(),
+  token_response: z.unknown().optional(),
+  credential_response: z.unknown().optional(),
+  status: z.string().optional(),
+});
+
+export const offerListSchema = z.array(offerRecordSchema);
+
+export const credentialRecordSchema = z.looseObject({
+  offerId: z.string().optional(),
+  credentialConfigurationId: z.string().optional(),
+  credential: z.unknown().optional(),
+});
+
+export const tokenResponseSchema = z.looseObject({
+  access_token: z.string(),
+  token_type: z.string(),
+  expires_in: z.number().optional(),
+  c_nonce: z.string().optional(),
+  c_nonce_expires_in: z.number().optional(),
+});
+
+export const credentialResponseSchema = z.looseObject({
+  credential: z.unknown().optional(),
+  c_nonce: z.string().optional(),
+  c_nonce_expires_in: z.number().optional(),
+});
+
+export const presentationFieldSchema = z.looseObject({
+  path: z.array(z.string()).min(1),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  purpose: z.string().optional(),
+  optional: z.boolean().optional(),
+  filter: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const inputDescriptorSchema = z.looseObject({
+  id: z.string(),
+  name: z.string().optional(),
+  purpose: z.string().optional(),
+  format: z.record(z.string(), z.unknown()).optional(),
+  constraints: z.looseObject({
+    fields: z.array(presentationFieldSchema).optional(),
+    limit_disclosure: z.enum(["required", "preferred"]).optional(),
+  }),
+});
+
+export const presentationDefinitionSchema = z.looseObject({
+  id: z.string(),
+  name: z.string().optional(),
+  purpose: z.string().optional(),
+  input_descriptors: z.array(inputDescriptorSchema),
+});
+
+export const dcqlClaimSchema = z.looseObject({
+  id: z.string().optional(),
+  path: z
+    .array(z.union([z.string(), z.number().int().min(0), z.null()]))
+    .min(1),
+  values: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+
+export const dcqlCredentialQuerySchema = z.looseObject({
+  id: z.string(),
+  format: z.string(),
+  meta: z
+    .looseObject({
+      type_values: z.array(z.array(z.string())).optional(),
+      vct_values: z.array(z.string()).optional(),
+    })
+    .optional(),
+  claims: z.array(dcqlClaimSchema).optional(),
+  claim_sets: z.array(z.array(z.string())).optional(),
+});
+
+export const dcqlQuerySchema = z.looseObject({
+  credentials: z.array(dcqlCredentialQuerySchema).min(1),
+  credential_sets: z
+    .array(
+      z.looseObject({
+        options: z.array(z.array(z.string())).min(1),
+        required: z.boolean().optional(),
+        purpose: z.unknown().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export interface DescriptorMapEntry {
+  id: string;
+  format: string;
+  path: string;
+  path_nested?: DescriptorMapEntry;
+}
+
+export const descriptorMapEntrySchema: z.ZodType<DescriptorMapEntry> =
+  z.looseObject({
+    id: z.string(),
+    format: z.string(),
+    path: z.string(),
+    get path_nested() {
+      return descriptorMapEntrySchema.optional();
+    },
+  });
+
+export const presentationSubmissionSchema = z.looseObject({
+  id: z.string(),
+  definition_id: z.string(),
+  descriptor_map: z.array(descriptorMapEntrySchema),
+});
+
+/** OpenID4VP request object, passed by value or behind `request_uri`. */
+export const authorizationRequestObjectSchema = z.looseObject({
+  client_id: z.string(),
+  response_type: z.string(),
+  response_mode: z.string().optional(),
+  response_uri: z.string().optional(),
+  redirect_uri: z.string().optional(),
+  nonce: z.string(),
+  state: z.string().optional(),
+  presentation_definition: presentationDefinitionSchema.optional(),
+  presentation_definition_uri: z.string().optional(),
+  dcql_query: dcqlQuerySchema.optional(),
+});
+
+export const authorizationRequestRecordSchema = z.looseObject({
+  id: z.string(),
+  status: z.string().optional(),
+  state: z.string().optional(),
+  created_at: z.string().optional(),
+  vp_token: z.unknown().optional(),
+  presentation_submission: z.unknown().optional(),
+  verifiable_presentation: z.unknown().optional(),
+  response: z.unknown().optional(),
+});
+
+export const authorizationRequestListSchema = z.array(
+  authorizationRequestRecordSchema,
+);
+
+export const createdAuthorizationRequestSchema = z.looseObject({
+  id: z.string(),
+  authorization_url: z.string(),
+});
+
+export type CredentialConfiguration = z.infer<
+  typeof credentialConfigurationSchema
+>;
+export type IssuerMetadata = z.infer<typeof issuerMetadataSchema>;
+export type OAuthServerMetadata = z.infer<typeof oauthServerMetadataSchema>;
+export type DidConfiguration = z.infer<typeof didConfigurationSchema>;
+export type DidDocument = z.infer<typeof didDocumentSchema>;
+export type CredentialOffer = z.infer<typeof credentialOfferSchema>;
+export type CredentialOfferDraft = z.infer<typeof credentialOfferDraftSchema>;
+export type OfferRecord = z.infer<typeof offerRecordSchema>;
+export type CredentialRecord = z.infer<typeof credentialRecordSchema>;
+export type TokenResponse = z.infer<typeof tokenResponseSchema>;
+export type CredentialResponse = z.infer<typeof credentialResponseSchema>;
+export type PresentationField = z.infer<typeof presentationFieldSchema>;
+export type InputDescriptor = z.infer<typeof inputDescriptorSchema>;
+export type PresentationDefinition = z.infer<
+  typeof presentationDefinitionSchema
+>;
+export type DcqlClaim = z.infer<typeof dcqlClaimSchema>;
+export type DcqlCredentialQuery = z.infer<typeof dcqlCredentialQuerySchema>;
+export type DcqlQuery = z.infer<typeof dcqlQuerySchema>;
+export type PresentationSubmission = z.infer<
+  typeof presentationSubmissionSchema
+>;
+export type AuthorizationRequestObject = z.infer<
+  typeof authorizationRequestObjectSchema
+>;
+export type AuthorizationRequestRecord = z.infer<
+  typeof authorizationRequestRecordSchema
+>;
+export type CreatedAuthorizationRequest = z.infer<
+  typeof createdAuthorizationRequestSchema
+>;
@@ -0,0 +1,70 @@
+import { getConfig, type AppConfig } from "../config/configService";
+import type { CredentialType } from "./credentialSubject";
+import type { CredentialSubject } from "./unicoreService";
+
+/** Formats a credential can be issued in from the issue form. */
+export const ISSUANCE_FORMATS = ["jwt_vc_json", "vc+sd-jwt"] as const;
+
+export type IssuanceFormat = (typeof ISSUANCE_FORMATS)[number];
+
+export const ISSUANCE_FORMAT_LABELS: Record<IssuanceFormat, string> = {
+  jwt_vc_json: "JWT VC",
+  "vc+sd-jwt": "SD-JWT VC (selective disclosure)",
+};
+
+/**
+ * Subject claims a holder may withhold, per type, unless `disclosableClaims`
+ * in the config says otherwise. Claims not listed are always shown.
+ */
+export const DEFAULT_DISCLOSABLE_CLAIMS: Record<
+  CredentialType,
+  readonly string[]
+> = {
+  TravelDocument: [
+    "dob",
+    "passport_number",
+    "document_number",
+    "issue_date",
+    "expiry_date",
+  ],
+  WorkAuthorization: ["dob", "employer_name", "position"],
+  ProfessionalSkills: ["dob", "certification_number"],
+  HealthRecord: [
+    "dob",
+    "health_record_id",
+    "blood_type",
+    "vaccination_status",
+    "allergies",
+  ],
+  EducationCredential: ["dob", "graduation_year"],
+};
+
+export function getDisclosableClaims(
+  type: string,
+  config: AppConfig = getConfig(),
+): readonly string[] {
+  return (
+    config.disclosableClaims[type] ??
+    DEFAULT_DISCLOSABLE_CLAIMS[type as CredentialType] ??
+    []
+  );
+}
+
+/**
+ * The disclosure frame for an SD-JWT VC of `type`: which subject claims are
+ * issued as disclosures rather than in the signed payload. Claims the
+ * subject does not have are left out.
+ */
+export function buildDisclosureFrame(
+  type: string,
+  credentialSubject: CredentialSubject,
+  config: AppConfig = getConfig(),
+): { credentialSubject: { _sd: string[] } } {
+  return {
+    credentialSubject: {
+      _sd: getDisclosableClaims(type, config).filter(
+        (claim) => credentialSubject[claim] !== undefined,
+      ),
+    },
+  };
+}
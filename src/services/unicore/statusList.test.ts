@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getConfig, saveSettings } from "../config/configService";
+import {
+  fetchStatusList,
+  setStatusIndices,
+} from "../identity/credentialStatus";
+import {
+  applyStatusAction,
+  buildStatusListCredential,
+  loadStatusLists,
+  mergePublishedStatus,
+  publishStatusLists,
+  saveStatusLists,
+  statusListUrl,
+  type StatusListRecord,
+} from "./statusList";
+
+const TYPE = "WorkAuthorization";
+
+/** A status list host that serves what was PUT to it. */
+function fakeHost() {
+  const stored = new Map<string, string>();
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === "PUT") {
+        stored.set(url, String(init.body));
+        return new Response("", { status: 204 });
+      }
+      const body = stored.get(url);
+      return body === undefined
+        ? new Response("Not Found", { status: 404 })
+        : new Response(body, {
+            headers: { "Content-Type": "application/json" },
+          });
+    }),
+  );
+  return stored;
+}
+
+const record = (patch: Partial<StatusListRecord>): StatusListRecord => ({
+  type: TYPE,
+  allocated: [],
+  revoked: [],
+  suspended: [],
+  updatedAt: new Date().toISOString(),
+  ...patch,
+});
+
+const published = async (purpose: "revocation" | "suspension") =>
+  setStatusIndices(
+    await fetchStatusList(statusListUrl(TYPE, purpose)!, purpose),
+  );
+
+describe("mergePublishedStatus", () => {
+  it("keeps published revocations and foreign suspensions only", () => {
+    const merged = mergePublishedStatus(
+      record({ allocated: [1, 2], revoked: [1], suspended: [] }),
+      { revocation: [1, 9], suspension: [2, 8] },
+    );
+
+    expect(merged.revoked).toEqual([1, 9]);
+    // 2 is ours and was reinstated here; 8 was suspended elsewhere.
+    expect(merged.suspended).toEqual([8]);
+  });
+});
+
+describe("publishStatusLists", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    saveSettings({
+      ...getConfig(),
+      statusListBaseUrl: "https://status.example",
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("publishes the local lists when nothing is published yet", async () => {
+    fakeHost();
+    saveStatusLists({ [TYPE]: record({ allocated: [3], revoked: [3] }) });
+
+    await publishStatusLists(TYPE);
+
+    expect(await published("revocation")).toEqual([3]);
+    expect(await published("suspension")).toEqual([]);
+    expect(loadStatusLists()[TYPE].publishedAt).toBeDefined();
+  });
+
+  it("keeps revocations published from another browser", async () => {
+    const host = fakeHost();
+    const elsewhere = record({ allocated: [7], revoked: [7] });
+    for (const purpose of ["revocation", "suspension"] as const) {
+      const credential = await buildStatusListCredential(elsewhere, purpose);
+      host.set(credential.id as string, JSON.stringify(credential));
+    }
+    saveStatusLists({
+      [TYPE]: applyStatusAction(
+        { [TYPE]: record({ allocated: [3] }) },
+        TYPE,
+        3,
+        "revoke",
+      )[TYPE],
+    });
+
+    await publishStatusLists(TYPE);
+
+    expect(await published("revocation")).toEqual([3, 7]);
+    expect(loadStatusLists()[TYPE].revoked).toEqual([3, 7]);
+  });
+});
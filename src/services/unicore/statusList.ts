@@ -0,0 +1,277 @@
+import { getConfig, type AppConfig } from "../config/configService";
+import {
+  MIN_STATUS_LIST_BITS,
+  STATUS_LIST_CREDENTIAL_TYPE,
+  STATUS_LIST_ENTRY_TYPE,
+  STATUS_LIST_TYPE,
+  encodeStatusList,
+  fetchStatusList,
+  setStatusIndices,
+  type CredentialStatusEntry,
+  type StatusPurpose,
+} from "../identity/credentialStatus";
+import { UniCoreClientError } from "./errors";
+import { request, type CallOptions } from "./http";
+
+/*
+ * Issuer side of credential status: one Bitstring Status List per credential
+ * type and purpose, kept in local storage and published to
+ * `statusListBaseUrl` so verifiers can fetch it. Each issued credential gets
+ * a random index into its type's lists; the same index is used for
+ * revocation and suspension.
+ */
+
+export const STATUS_LISTS_STORAGE_KEY = "unicore-status-lists";
+
+export const STATUS_PURPOSES: readonly StatusPurpose[] = [
+  "revocation",
+  "suspension",
+];
+
+export type CredentialStatusValue = "active" | "suspended" | "revoked";
+
+/** Revoking is final; a suspension can be lifted with `reinstate`. */
+export type StatusAction = "revoke" | "suspend" | "reinstate";
+
+export interface StatusListRecord {
+  type: string;
+  /** Indices handed out; never reused, even for failed issuance. */
+  allocated: number[];
+  revoked: number[];
+  suspended: number[];
+  updatedAt: string;
+  /** When the lists were last published; older than `updatedAt` if stale. */
+  publishedAt?: string;
+}
+
+export type StatusLists = Record<string, StatusListRecord>;
+
+/** `{statusListBaseUrl}/{type}/{purpose}`, or undefined when not configured. */
+export function statusListUrl(
+  type: string,
+  purpose: StatusPurpose,
+  config: AppConfig = getConfig(),
+): string | undefined {
+  return config.statusListBaseUrl
+    ? `${config.statusListBaseUrl}/${encodeURIComponent(type)}/${purpose}`
+    : undefined;
+}
+
+export function loadStatusLists(): StatusLists {
+  try {
+    const stored = localStorage.getItem(STATUS_LISTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to load status lists:", error);
+    return {};
+  }
+}
+
+export function saveStatusLists(lists: StatusLists) {
+  localStorage.setItem(STATUS_LISTS_STORAGE_KEY, JSON.stringify(lists));
+}
+
+const emptyRecord = (type: string): StatusListRecord => ({
+  type,
+  allocated: [],
+  revoked: [],
+  suspended: [],
+  updatedAt: new Date().toISOString(),
+});
+
+/** A random index not yet handed out, so indices do not reveal issue order. */
+function pickIndex(allocated: Set<number>): number {
+  if (allocated.size >= MIN_STATUS_LIST_BITS) {
+    throw new Error("The status list is full");
+  }
+  const random = new Uint32Array(1);
+  for (;;) {
+    crypto.getRandomValues(random);
+    const index = random[0] % MIN_STATUS_LIST_BITS;
+    if (!allocated.has(index)) {
+      return index;
+    }
+  }
+}
+
+/**
+ * Reserves a status index for a new credential of `type` and returns its
+ * revocation and suspension entries, or undefined when no
+ * `statusListBaseUrl` is configured.
+ */
+export function allocateCredentialStatus(
+  type: string,
+  config: AppConfig = getConfig(),
+): CredentialStatusEntry[] | undefined {
+  if (!config.statusListBaseUrl) {
+    return undefined;
+  }
+  const lists = loadStatusLists();
+  const record = lists[type] ?? emptyRecord(type);
+  const index = pickIndex(new Set(record.allocated));
+  lists[type] = { ...record, allocated: [...record.allocated, index] };
+  saveStatusLists(lists);
+
+  return STATUS_PURPOSES.map((statusPurpose) => {
+    const url = statusListUrl(type, statusPurpose, config) as string;
+    return {
+      id: `${url}#${index}`,
+      type: STATUS_LIST_ENTRY_TYPE,
+      statusPurpose,
+      statusListIndex: String(index),
+      statusListCredential: url,
+    };
+  });
+}
+
+/** The index a credential's status entries point at. */
+export function statusIndexOf(
+  entries: CredentialStatusEntry[] | undefined,
+): number | undefined {
+  const index = Number(entries?.[0]?.statusListIndex);
+  return Number.isInteger(index) ? index : undefined;
+}
+
+export function getCredentialStatus(
+  lists: StatusLists,
+  type: string,
+  index: number,
+): CredentialStatusValue {
+  const record = lists[type];
+  if (record?.revoked.includes(index)) return "revoked";
+  if (record?.suspended.includes(index)) return "suspended";
+  return "active";
+}
+
+/**
+ * Applies `action` to the credential at `index` of `type`'s lists and
+ * returns the updated lists. Throws when the credential is already revoked.
+ */
+export function applyStatusAction(
+  lists: StatusLists,
+  type: string,
+  index: number,
+  action: StatusAction,
+): StatusLists {
+  const record = lists[type] ?? emptyRecord(type);
+  if (record.revoked.includes(index)) {
+    throw new Error("The credential is revoked; revocation cannot be undone");
+  }
+  const suspended = record.suspended.filter((value) => value !== index);
+  const updated: StatusListRecord = {
+    ...record,
+    revoked: action === "revoke" ? [...record.revoked, index] : record.revoked,
+    suspended: action === "suspend" ? [...suspended, index] : suspended,
+    updatedAt: new Date().toISOString(),
+  };
+  return { ...lists, [type]: updated };
+}
+
+/**
+ * The status list credential for one purpose of `record`. It is not signed:
+ * the agent offers no endpoint to sign arbitrary credentials, so verifiers
+ * trust it by where it is published and flag their check as unauthenticated.
+ */
+export async function buildStatusListCredential(
+  record: StatusListRecord,
+  purpose: StatusPurpose,
+  config: AppConfig = getConfig(),
+): Promise<Record<string, unknown>> {
+  const url = statusListUrl(record.type, purpose, config);
+  if (!url) {
+    throw new Error("Set a status list URL in the settings first");
+  }
+  return {
+    "@context": ["https://www.w3.org/ns/credentials/v2"],
+    id: url,
+    type: ["VerifiableCredential", STATUS_LIST_CREDENTIAL_TYPE],
+    issuer: config.agentUrl,
+    validFrom: record.updatedAt,
+    credentialSubject: {
+      id: `${url}#list`,
+      type: STATUS_LIST_TYPE,
+      statusPurpose: purpose,
+      encodedList: await encodeStatusList(
+        purpose === "revocation" ? record.revoked : record.suspended,
+      ),
+    },
+  };
+}
+
+/** Indices set in the list published at `url`; none if nothing is there yet. */
+async function fetchPublishedIndices(
+  url: string,
+  purpose: StatusPurpose,
+  options: CallOptions,
+): Promise<number[]> {
+  try {
+    return setStatusIndices(await fetchStatusList(url, purpose, options));
+  } catch (error) {
+    if (error instanceof UniCoreClientError && error.status === 404) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+const union = (...lists: number[][]) => [...new Set(lists.flat())];
+
+/**
+ * Folds the published lists into `record`, so publishing never undoes a
+ * change made elsewhere: published revocations are kept, as revoking is
+ * final, and so are suspensions of indices this browser did not hand out.
+ * Suspensions of its own indices follow `record`, so a reinstatement sticks.
+ */
+export function mergePublishedStatus(
+  record: StatusListRecord,
+  published: Record<StatusPurpose, number[]>,
+): StatusListRecord {
+  const own = new Set(record.allocated);
+  return {
+    ...record,
+    revoked: union(record.revoked, published.revocation),
+    suspended: union(
+      record.suspended,
+      published.suspension.filter((index) => !own.has(index)),
+    ),
+  };
+}
+
+/**
+ * Uploads both status lists of `type` with a PUT to their URLs and records
+ * the time. The published lists are fetched and merged in first, and
+ * revocations found there are kept locally too. The host at
+ * `statusListBaseUrl` must serve the lists and accept the upload.
+ */
+export async function publishStatusLists(
+  type: string,
+  options: CallOptions = {},
+): Promise<StatusListRecord> {
+  const local = loadStatusLists()[type] ?? emptyRecord(type);
+  const published = {} as Record<StatusPurpose, number[]>;
+  for (const purpose of STATUS_PURPOSES) {
+    const url = statusListUrl(type, purpose);
+    if (!url) {
+      throw new Error("Set a status list URL in the settings first");
+    }
+    published[purpose] = await fetchPublishedIndices(url, purpose, options);
+  }
+
+  const merged = mergePublishedStatus(local, published);
+  for (const purpose of STATUS_PURPOSES) {
+    const credential = await buildStatusListCredential(merged, purpose);
+    await request(
+      `publish ${purpose} list of ${type}`,
+      credential.id as string,
+      { ...options, method: "PUT", body: credential, responseType: "text" },
+    );
+  }
+
+  const record = {
+    ...local,
+    revoked: merged.revoked,
+    publishedAt: new Date().toISOString(),
+  };
+  saveStatusLists({ ...loadStatusLists(), [type]: record });
+  return record;
+}
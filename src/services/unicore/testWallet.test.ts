@@ -0,0 +1,186 @@
+import * as identity from "@iota/identity-wasm/node";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  base64UrlEncode,
+  base64UrlEncodeBytes,
+  decodeJwt,
+} from "../identity/jwt";
+import type { PresentationRequest } from "./presentationResponder";
+import { PRE_AUTHORIZED_GRANT_TYPE } from "./schemas";
+
+vi.mock("../../utils/wasm-loader", () => ({
+  initializeWasm: async () => identity,
+}));
+
+const AGENT = "https://agent.example";
+const OFFER_URL = `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(`${AGENT}/offers/1`)}`;
+const CONFIGURATION_ID = "WorkAuthorization";
+
+/** A `did:jwk` issuer standing in for the agent's signing key. */
+async function createIssuer() {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const { kty, crv, x } = await crypto.subtle.exportKey("jwk", pair.publicKey);
+  const did = `did:jwk:${base64UrlEncode(JSON.stringify({ kty, crv, x }))}`;
+  return {
+    did,
+    async sign(payload: Record<string, unknown>) {
+      const header = { alg: "EdDSA", typ: "JWT", kid: `${did}#0` };
+      const input = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+      const signature = await crypto.subtle.sign(
+        "Ed25519",
+        pair.privateKey,
+        new TextEncoder().encode(input),
+      );
+      return `${input}.${base64UrlEncodeBytes(new Uint8Array(signature))}`;
+    },
+  };
+}
+
+type Issuer = Awaited<ReturnType<typeof createIssuer>>;
+
+/** The key proof of a credential request. */
+const proofOf = (request: unknown) =>
+  decodeJwt((request as { proof: { jwt: string } }).proof.jwt);
+
+/** Answers the wallet's agent calls on a fresh module instance. */
+async function fakeAgent(issuer: Issuer) {
+  const { unicoreService } = await import("./unicoreService");
+  vi.spyOn(unicoreService, "resolveCredentialOffer").mockResolvedValue({
+    credential_issuer: AGENT,
+    credential_configuration_ids: [CONFIGURATION_ID],
+    grants: {
+      [PRE_AUTHORIZED_GRANT_TYPE]: { "pre-authorized_code": "code-1" },
+    },
+  });
+  vi.spyOn(unicoreService, "requestPreAuthorizedToken").mockResolvedValue({
+    access_token: "token-1",
+    token_type: "bearer",
+    c_nonce: "c-nonce-1",
+  });
+  vi.spyOn(unicoreService, "getOpenIdCredentialIssuer").mockResolvedValue({
+    credential_issuer: AGENT,
+    credential_endpoint: `${AGENT}/openid4vci/credential`,
+    credential_configurations_supported: {
+      [CONFIGURATION_ID]: {
+        format: "jwt_vc_json",
+        credential_definition: {
+          type: ["VerifiableCredential", CONFIGURATION_ID],
+        },
+      },
+    },
+  });
+  vi.spyOn(unicoreService, "issueCredentialViaOpenId4VCI").mockImplementation(
+    async (request) => {
+      const proof = proofOf(request);
+      const holder = String(proof.header.kid).split("#")[0];
+      const issuedAt = Math.floor(Date.now() / 1000);
+      return {
+        credential: await issuer.sign({
+          iss: issuer.did,
+          sub: holder,
+          iat: issuedAt,
+          nbf: issuedAt,
+          vc: {
+            "@context": ["https://www.w3.org/2018/credentials/v1"],
+            type: ["VerifiableCredential", CONFIGURATION_ID],
+            issuer: issuer.did,
+            credentialSubject: { id: holder, employer: "Acme" },
+          },
+        }),
+      };
+    },
+  );
+  const post = vi
+    .spyOn(unicoreService, "postAuthorizationResponse")
+    .mockResolvedValue({});
+  return { unicoreService, post };
+}
+
+/** A new tab or page load: every module starts over; local storage stays. */
+async function reload(issuer: Issuer) {
+  vi.resetModules();
+  const agent = await fakeAgent(issuer);
+  return {
+    ...agent,
+    wallet: await import("./testWallet"),
+    responder: await import("./presentationResponder"),
+    verifier: await import("../identity/presentationVerifier"),
+  };
+}
+
+const presentationRequest: PresentationRequest = {
+  authorizationUrl: `openid4vp://?client_id=${AGENT}`,
+  request: {
+    client_id: AGENT,
+    response_type: "vp_token",
+    response_mode: "direct_post",
+    response_uri: `${AGENT}/openid4vp/response`,
+    nonce: "vp-nonce-1",
+    state: "state-1",
+  },
+  query: {
+    language: "presentation_exchange",
+    definition: {
+      id: "work",
+      input_descriptors: [
+        {
+          id: "work",
+          constraints: { fields: [{ path: ["$.vc.type"] }] },
+        },
+      ],
+    },
+  },
+  descriptors: [],
+  required: ["work"],
+  responseUri: `${AGENT}/openid4vp/response`,
+};
+
+describe("test wallet", () => {
+  let issuer: Issuer;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    issuer = await createIssuer();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("redeems an offer with a proof signed by the holder key", async () => {
+    const { wallet, unicoreService } = await reload(issuer);
+    const received = await wallet.redeemOffer(OFFER_URL);
+
+    const [request] = vi.mocked(unicoreService.issueCredentialViaOpenId4VCI)
+      .mock.calls[0];
+    const proof = proofOf(request);
+    expect(proof.header.typ).toBe("openid4vci-proof+jwt");
+    expect(proof.payload).toMatchObject({ aud: AGENT, nonce: "c-nonce-1" });
+    expect(received.holderDid).toBe(String(proof.header.kid).split("#")[0]);
+    expect(received.types).toContain(CONFIGURATION_ID);
+    expect(received.claims).toMatchObject({ employer: "Acme" });
+  });
+
+  it("presents a credential received in another tab", async () => {
+    const receiving = await reload(issuer);
+    const received = await receiving.wallet.redeemOffer(OFFER_URL);
+
+    const presenting = await reload(issuer);
+    await presenting.responder.submitPresentation(presentationRequest, {
+      work: received,
+    });
+
+    const body = presenting.post.mock.calls[0][1] as URLSearchParams;
+    expect(body.get("state")).toBe("state-1");
+    const verification = await presenting.verifier.verifyVpToken(
+      body.get("vp_token"),
+      { nonce: "vp-nonce-1", audience: AGENT },
+    );
+    expect(verification.checks.filter((check) => !check.passed)).toEqual([]);
+    expect(verification.verified).toBe(true);
+    expect(verification.holder).toBe(received.holderDid);
+  });
+});
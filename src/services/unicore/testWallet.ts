@@ -0,0 +1,194 @@
+import { getTestHolder } from "../identity/testHolder";
+import { decodeJwt } from "../identity/jwt";
+import {
+  isSdJwt,
+  revealSdJwt,
+  sdJwtVcClaims,
+  type DisclosedClaim,
+} from "../identity/sdJwt";
+import type { CallOptions } from "./http";
+import { PRE_AUTHORIZED_GRANT_TYPE } from "./schemas";
+import { unicoreService } from "./unicoreService";
+
+const TEST_WALLET_STORAGE_KEY = "unicore-test-wallet";
+const PROOF_TYPE = "openid4vci-proof+jwt";
+
+/** Stages of redeeming an offer, reported as they start. */
+export type RedeemStep = "resolve" | "token" | "proof" | "credential";
+
+export const REDEEM_STEPS: readonly RedeemStep[] = [
+  "resolve",
+  "token",
+  "proof",
+  "credential",
+];
+
+/** A credential received by the built-in test wallet. */
+export interface WalletCredential {
+  id: string;
+  receivedAt: string;
+  offerUrl: string;
+  issuer?: string;
+  configurationId?: string;
+  format?: string;
+  holderDid: string;
+  types: string[];
+  claims: Record<string, unknown>;
+  /** As returned by the agent: a compact JWT, an SD-JWT or a JSON credential. */
+  credential: unknown;
+  /** For SD-JWTs: the payload with every disclosure applied. */
+  revealed?: Record<string, unknown>;
+  /** For SD-JWTs: the claims the holder can choose to reveal. */
+  disclosed?: DisclosedClaim[];
+}
+
+export interface RedeemOptions extends CallOptions {
+  /** PIN for offers whose pre-authorized grant requires one. */
+  txCode?: string;
+  onStep?: (step: RedeemStep) => void;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Reads types, subject claims and issuer from a JWT VC, a JSON credential or
+ * the revealed payload of an SD-JWT. An SD-JWT passed as is shows only the
+ * claims in its signed payload.
+ */
+export function describeCredential(
+  credential: unknown,
+): Pick<WalletCredential, "types" | "claims" | "issuer"> {
+  let document: Record<string, unknown> = {};
+  let issuer: unknown;
+  if (typeof credential === "string") {
+    const { payload } = decodeJwt(credential.split("~")[0]);
+    document = isRecord(payload.vc) ? payload.vc : payload;
+    issuer = payload.iss;
+  } else if (isRecord(credential)) {
+    document = isRecord(credential.vc) ? credential.vc : credential;
+    issuer = credential.iss;
+  }
+
+  issuer ??= isRecord(document.issuer) ? document.issuer.id : document.issuer;
+  const types = Array.isArray(document.type)
+    ? document.type.map(String)
+    : typeof document.vct === "string"
+      ? [document.vct]
+      : [];
+  return {
+    types,
+    claims: isRecord(document.credentialSubject)
+      ? document.credentialSubject
+      : typeof document.vct === "string"
+        ? sdJwtVcClaims(document)
+        : {},
+    issuer: typeof issuer === "string" ? issuer : undefined,
+  };
+}
+
+/**
+ * Redeems a pre-authorized offer like a holder wallet would: resolves the
+ * offer, trades the pre-authorized code for an access token, proves
+ * possession of the test holder key and requests the credential.
+ */
+export async function redeemOffer(
+  offerUrl: string,
+  options: RedeemOptions = {},
+): Promise<WalletCredential> {
+  const { txCode, onStep, ...callOptions } = options;
+
+  onStep?.("resolve");
+  const offer = await unicoreService.resolveCredentialOffer(
+    offerUrl,
+    callOptions,
+  );
+  const grant = offer.grants?.[PRE_AUTHORIZED_GRANT_TYPE];
+  if (!grant) {
+    throw new Error(
+      "The test wallet can only redeem offers with a pre-authorized code",
+    );
+  }
+  if (grant.tx_code && !txCode) {
+    throw new Error("This offer requires a PIN");
+  }
+
+  onStep?.("token");
+  const token = await unicoreService.requestPreAuthorizedToken(
+    grant["pre-authorized_code"],
+    grant.tx_code ? txCode : undefined,
+    callOptions,
+  );
+
+  onStep?.("proof");
+  const metadata = await unicoreService.getOpenIdCredentialIssuer(callOptions);
+  const configurationId =
+    offer.credential_configuration_ids?.[0] ??
+    Object.keys(metadata.credential_configurations_supported)[0];
+  const configuration =
+    metadata.credential_configurations_supported[configurationId];
+  if (!configuration) {
+    throw new Error(
+      `The agent does not advertise credential configuration ${configurationId}`,
+    );
+  }
+
+  const holder = await getTestHolder();
+  // `iss` is left out: the token was obtained with anonymous pre-authorized access.
+  const proof = await holder.signJwt(
+    {
+      aud: offer.credential_issuer,
+      iat: Math.floor(Date.now() / 1000),
+      ...(token.c_nonce && { nonce: token.c_nonce }),
+    },
+    PROOF_TYPE,
+  );
+
+  onStep?.("credential");
+  const response = await unicoreService.issueCredentialViaOpenId4VCI(
+    {
+      format: configuration.format,
+      credential_definition: configuration.credential_definition,
+      proof: { proof_type: "jwt", jwt: proof },
+    },
+    token.access_token,
+    callOptions,
+  );
+  if (response.credential == null) {
+    throw new Error(
+      "The agent returned no credential; deferred issuance is not supported",
+    );
+  }
+  const revealed = isSdJwt(response.credential)
+    ? await revealSdJwt(response.credential)
+    : undefined;
+
+  return {
+    id: crypto.randomUUID(),
+    receivedAt: new Date().toISOString(),
+    offerUrl,
+    configurationId,
+    format: configuration.format,
+    holderDid: holder.did,
+    credential: response.credential,
+    ...(revealed && {
+      revealed: revealed.payload,
+      disclosed: revealed.disclosed,
+    }),
+    ...describeCredential(revealed?.payload ?? response.credential),
+  };
+}
+
+export function loadWalletCredentials(): WalletCredential[] {
+  try {
+    const stored = localStorage.getItem(TEST_WALLET_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to load test wallet credentials:", error);
+    return [];
+  }
+}
+
+export function saveWalletCredentials(credentials: WalletCredential[]) {
+  localStorage.setItem(TEST_WALLET_STORAGE_KEY, JSON.stringify(credentials));
+}
@@ -0,0 +1,84 @@
+import { getConfig, type AppConfig } from "../config/configService";
+import type { CredentialType } from "./credentialSubject";
+import {
+  PRE_AUTHORIZED_GRANT_TYPE,
+  type CredentialOfferDraft,
+} from "./schemas";
+
+export type TxCodeInputMode = "numeric" | "text";
+
+/** How the PIN for a pre-authorized offer is generated and described. */
+export interface TxCodePolicy {
+  length: number;
+  inputMode: TxCodeInputMode;
+}
+
+/** A generated PIN together with the `tx_code` metadata sent to the agent. */
+export interface TxCode extends TxCodePolicy {
+  value: string;
+  description: string;
+}
+
+/** Used when a PIN is requested for a type whose policy is off. */
+export const DEFAULT_TX_CODE_POLICY: TxCodePolicy = {
+  length: 6,
+  inputMode: "numeric",
+};
+
+/**
+ * Types whose offers require a PIN unless `txCodes` in the config says
+ * otherwise; `false` turns the PIN off for a type.
+ */
+export const DEFAULT_TX_CODE_POLICIES: Record<
+  CredentialType,
+  TxCodePolicy | false
+> = {
+  TravelDocument: DEFAULT_TX_CODE_POLICY,
+  WorkAuthorization: false,
+  ProfessionalSkills: false,
+  HealthRecord: DEFAULT_TX_CODE_POLICY,
+  EducationCredential: false,
+};
+
+export function getTxCodePolicy(
+  type: string,
+  config: AppConfig = getConfig(),
+): TxCodePolicy | false {
+  return (
+    config.txCodes[type] ??
+    DEFAULT_TX_CODE_POLICIES[type as CredentialType] ??
+    false
+  );
+}
+
+const DIGITS = "0123456789";
+// No 0/O, 1/I/L or 5/S, which are easily confused when read out.
+const TEXT_ALPHABET = "ABCDEFGHJKMNPQRTUVWXYZ2346789";
+
+/** Uniformly random characters from `alphabet`, using rejection sampling. */
+function randomString(alphabet: string, length: number): string {
+  const limit = 256 - (256 % alphabet.length);
+  let result = "";
+  while (result.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < limit && result.length < length) {
+        result += alphabet[byte % alphabet.length];
+      }
+    }
+  }
+  return result;
+}
+
+export function generateTxCode(policy: TxCodePolicy): TxCode {
+  const numeric = policy.inputMode === "numeric";
+  return {
+    ...policy,
+    value: randomString(numeric ? DIGITS : TEXT_ALPHABET, policy.length),
+    description: `Enter the ${policy.length}-${numeric ? "digit" : "character"} PIN you received separately from this offer`,
+  };
+}
+
+/** True when the offer asks the wallet for a transaction code. */
+export function offerRequiresTxCode(offer: CredentialOfferDraft): boolean {
+  return offer.grants?.[PRE_AUTHORIZED_GRANT_TYPE]?.tx_code !== undefined;
+}
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { UniCoreContentTypeError } from "./errors";
+import { unicoreService } from "./unicoreService";
+
+const authRequest = {
+  response_type: "vp_token",
+  client_id: "https://verifier.example",
+  redirect_uri: "https://verifier.example/callback",
+  scope: "openid",
+  state: "state-1",
+};
+
+describe("createAuthorizationRequest", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reports a malformed JSON response as a content type error", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response('{"authorization_url": ', {
+            headers: { "Content-Type": "application/json" },
+          }),
+      ),
+    );
+
+    const created = unicoreService.createAuthorizationRequest(authRequest);
+
+    await expect(created).rejects.toBeInstanceOf(UniCoreContentTypeError);
+    await expect(created).rejects.toThrow(
+      "Failed to create authorization request: response is not valid JSON",
+    );
+  });
+});
@@ -1,13 +1,114 @@
-interface CredentialSubject {
+import type { z } from "zod";
+import {
+  getAgentBaseUrl,
+  getConfig,
+  subscribeConfig,
+} from "../config/configService";
+import type { CredentialStatusEntry } from "../identity/credentialStatus";
+import { base64UrlEncodeBytes, decodeJwt } from "../identity/jwt";
+import type { RevocationBitmapEntry } from "../identity/revocationBitmap";
+import { SD_JWT_FORMAT } from "../identity/sdJwt";
+import {
+  UniCoreClientError,
+  UniCoreContentTypeError,
+  UniCoreCorrelationError,
+  getErrorKind,
+  getErrorMessage,
+  type UniCoreErrorKind,
+} from "./errors";
+import { parseJson, request, sleep, validate, type CallOptions } from "./http";
+import { MetadataCache, type CacheOptions } from "./metadataCache";
+import { getOfferExpiry, getOfferLifetime } from "./offerExpiry";
+import type { ClaimConstraint } from "./presentationDefinition";
+import {
+  authorizationRequestListSchema,
+  authorizationRequestObjectSchema,
+  authorizationRequestRecordSchema,
+  authorizationUrlSchema,
+  createdAuthorizationRequestSchema,
+  credentialOfferDraftSchema,
+  credentialRecordSchema,
+  credentialResponseSchema,
+  didConfigurationSchema,
+  didDocumentSchema,
+  issuerMetadataSchema,
+  oauthServerMetadataSchema,
+  offerListSchema,
+  offerRecordSchema,
+  offerUrlSchema,
+  PRE_AUTHORIZED_GRANT_TYPE,
+  tokenResponseSchema,
+  type AuthorizationRequestObject,
+  type AuthorizationRequestRecord,
+  type CreatedAuthorizationRequest,
+  type CredentialOfferDraft,
+  type CredentialRecord,
+  type CredentialResponse,
+  type DidConfiguration,
+  type DidDocument,
+  type IssuerMetadata,
+  type OAuthServerMetadata,
+  type OfferRecord,
+  type DcqlQuery,
+  type PresentationDefinition,
+  type TokenResponse,
+} from "./schemas";
+import {
+  buildDisclosureFrame,
+  type IssuanceFormat,
+} from "./selectiveDisclosure";
+import { allocateRevocationBitmapStatus } from "./revocationBitmapStore";
+import { allocateCredentialStatus } from "./statusList";
+import {
+  DEFAULT_TX_CODE_POLICY,
+  generateTxCode,
+  getTxCodePolicy,
+  offerRequiresTxCode,
+  type TxCode,
+} from "./txCode";
+import {
+  buildVerificationQuery,
+  type VerificationQuery,
+} from "./verificationQuery";
+import {
+  buildWalletOfferUrl,
+  getWalletProfile,
+  needsResolvedOffer,
+  parseOfferUrl,
+  type WalletProfile,
+} from "./walletProfiles";
+
+/** The ID in an `.../authorization_requests/<id>` URL, if it is one. */
+function authorizationRequestIdFromUrl(url: string | null): string | null {
+  const match = url?.match(/authorization_requests\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/** 256 bits of randomness for `state` and `nonce`, which must not be guessable. */
+const randomToken = () =>
+  base64UrlEncodeBytes(crypto.getRandomValues(new Uint8Array(32)));
+
+export interface CredentialSubject {
   id?: string;
   [key: string]: unknown;
 }
 
-interface CredentialRequest {
+export interface CredentialRequest {
   type: string;
   credentialSubject: CredentialSubject;
   issuer?: string;
   expirationDate?: string;
+  /** Overrides the configured offer lifetime for this credential type. */
+  offerLifetimeMinutes?: number;
+  /** Wallet profile the offer URL is built for; defaults to the configured one. */
+  walletProfile?: string;
+  /** Overrides whether the type's PIN policy applies to this offer. */
+  requireTxCode?: boolean;
+  /**
+   * Format to issue in; picks a configuration of that format. Without it
+   * the configuration named after the type, or the first, is used.
+   */
+  format?: IssuanceFormat;
 }
 
 interface CredentialPayload {
@@ -16,16 +117,23 @@ interface CredentialPayload {
   expiresAt: string;
   credential: {
     credentialSubject: CredentialSubject;
+    credentialStatus?: Array<CredentialStatusEntry | RevocationBitmapEntry>;
   };
+  /** For SD-JWT configurations: the subject claims issued as disclosures. */
+  disclosureFrame?: ReturnType<typeof buildDisclosureFrame>;
 }
 
 interface OfferRequest {
   offerId: string;
+  /** Makes the pre-authorized grant require this PIN at the token endpoint. */
+  txCode?: Pick<TxCode, "value" | "length" | "inputMode" | "description">;
 }
 
-interface SendOfferRequest {
+export type DeliveryMethod = "email" | "sms" | "webhook";
+
+export interface SendOfferRequest {
   offerId: string;
-  method: "email" | "sms" | "webhook";
+  method: DeliveryMethod;
   recipient: string;
 }
 
@@ -34,387 +142,471 @@ interface AuthorizationRequest {
   client_id: string;
   redirect_uri: string;
   scope: string;
-  state?: string;
+  /** Random and unique; also how the created request is found again. */
+  state: string;
   nonce?: string;
-  presentation_definition?: unknown;
+  presentation_definition?: PresentationDefinition;
+  dcql_query?: DcqlQuery;
 }
 
-interface IssuanceResult {
+export interface IssuanceResult {
   success: boolean;
   credentialId?: string;
   offerId?: string;
+  /** Offer URL adapted to `walletProfile`. */
   offerUrl?: string;
+  /** Offer URL as returned by the agent, before any wallet adaptation. */
+  agentOfferUrl?: string;
+  walletProfile?: string;
+  configurationId?: string;
+  credentialFormat?: string;
+  /** Where the credential's revocation and suspension bits are published. */
+  credentialStatus?: CredentialStatusEntry[];
+  /** The credential's index in the issuer DID document's revocation bitmap. */
+  revocationBitmapStatus?: RevocationBitmapEntry;
+  /** PIN the wallet must enter; never part of the offer URL. */
+  txCode?: TxCode;
+  /** Problems that did not stop issuance but need the issuer's attention. */
+  warnings?: string[];
   qrCodeData?: string;
+  /** When the offer stops being redeemable (ISO 8601). */
+  offerExpiresAt?: string;
   credentialData?: unknown;
   error?: string;
+  errorKind?: UniCoreErrorKind;
+}
+
+export interface VerificationOptions extends CallOptions {
+  /** Wallet profile whose query language is used; defaults to the configured one. */
+  walletProfile?: string;
+}
+
+export interface PollOptions extends CallOptions {
+  /** Called with every record fetched, to follow progress before the result. */
+  onRecord?: (record: AuthorizationRequestRecord) => void;
 }
 
-interface VerificationResult {
+export interface VerificationResult {
   success: boolean;
+  /** The query the request was made with, for checking the response. */
+  query?: VerificationQuery;
   authorizationRequestId?: string;
   authorizationUrl?: string;
   qrCodeData?: string;
+  /** `state` the response must carry back; single use. */
+  state?: string;
+  /** `nonce` the VP must be signed over. */
+  nonce?: string;
+  /** `client_id` we sent, which the VP's `aud` must name. */
+  clientId?: string;
   status?: string;
   presentationData?: unknown;
+  presentationSubmission?: unknown;
   error?: string;
+  errorKind?: UniCoreErrorKind;
+}
+
+/** An offer resolved from the agent, or why it could not be. */
+interface ResolvedOffer {
+  offer?: CredentialOfferDraft;
+  error?: unknown;
+}
+
+interface HealthStatus {
+  api: boolean;
+  agent: boolean;
+  configurations?: IssuerMetadata | null;
+  error?: string;
+  errorKind?: UniCoreErrorKind;
 }
 
 class UniCoreService {
-  private baseUrl: string;
-  private issuerDid: string;
+  private metadataCache = new MetadataCache();
 
   constructor() {
-    const isLocalDev = window.location.hostname === "localhost";
-    this.baseUrl = isLocalDev
-      ? "/api"
-      : import.meta.env.VITE_SSI_AGENT_URL || "http://192.168.29.111:3033";
-    this.baseUrl = this.baseUrl.replace(/\/$/, "");
+    subscribeConfig(() => this.metadataCache.clear());
+  }
 
-    this.issuerDid = "http://192.168.29.111:3033/";
+  /** Resolved per call so Settings changes apply without a reload. */
+  private get baseUrl(): string {
+    return getAgentBaseUrl();
   }
 
-  async getDidConfiguration(): Promise<unknown> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/.well-known/did-configuration.json`,
-      );
-      if (!response.ok) {
-        throw new Error(`Failed to get DID configuration: ${response.status}`);
-      }
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get DID configuration:", error);
-      throw error;
-    }
+  /**
+   * Maps an absolute agent URL from metadata or an offer onto our own base
+   * URL, so the dev proxy avoids CORS.
+   */
+  private toAgentUrl(url: string): string {
+    const { pathname, search } = new URL(url);
+    return `${this.baseUrl}${pathname}${search}`;
   }
-  async getDidDocument(): Promise<unknown> {
-    try {
-      const response = await fetch(`${this.baseUrl}/.well-known/did.json`);
-      if (!response.ok) {
-        throw new Error(`Failed to get DID document: ${response.status}`);
-      }
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get DID document:", error);
-      throw error;
-    }
+
+  private getCachedMetadata<T>(
+    operation: string,
+    path: string,
+    schema: z.ZodType<T>,
+    options: CallOptions & CacheOptions,
+  ): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    return this.metadataCache.get(
+      url,
+      // The request may be shared, so only the cache applies `signal`.
+      (validators) =>
+        request(operation, url, {
+          ...options,
+          signal: undefined,
+          schema,
+          validators,
+        }),
+      options,
+    );
   }
-  async getOAuthAuthorizationServer(): Promise<unknown> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/.well-known/oauth-authorization-server`,
-      );
-      if (!response.ok) {
-        throw new Error(
-          `Failed to get OAuth authorization server: ${response.status}`,
-        );
-      }
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get OAuth authorization server:", error);
-      throw error;
-    }
+
+  /**
+   * Refetches the issuer metadata, OAuth server metadata and DID document,
+   * discarding cached copies. The DID document is optional on some agents.
+   */
+  async refreshMetadata(options: CallOptions = {}): Promise<void> {
+    const refresh = { ...options, forceRefresh: true };
+    await Promise.all([
+      this.getOpenIdCredentialIssuer(refresh),
+      this.getOAuthAuthorizationServer(refresh),
+      this.getDidDocument(refresh).catch((error) => {
+        console.warn("DID document not available:", error);
+      }),
+    ]);
   }
-  async getOpenIdCredentialIssuer(): Promise<unknown> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/.well-known/openid-credential-issuer`,
-      );
-      if (!response.ok) {
-        throw new Error(
-          `Failed to get OpenID credential issuer: ${response.status}`,
-        );
-      }
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get OpenID credential issuer:", error);
-      throw error;
+
+  async getDidConfiguration(
+    options: CallOptions = {},
+  ): Promise<DidConfiguration> {
+    const { data } = await request(
+      "get DID configuration",
+      `${this.baseUrl}/.well-known/did-configuration.json`,
+      { ...options, schema: didConfigurationSchema },
+    );
+    return data;
+  }
+  async getDidDocument(
+    options: CallOptions & CacheOptions = {},
+  ): Promise<DidDocument> {
+    return this.getCachedMetadata(
+      "get DID document",
+      "/.well-known/did.json",
+      didDocumentSchema,
+      options,
+    );
+  }
+  async getOAuthAuthorizationServer(
+    options: CallOptions & CacheOptions = {},
+  ): Promise<OAuthServerMetadata> {
+    return this.getCachedMetadata(
+      "get OAuth authorization server",
+      "/.well-known/oauth-authorization-server",
+      oauthServerMetadataSchema,
+      options,
+    );
+  }
+  async getOpenIdCredentialIssuer(
+    options: CallOptions & CacheOptions = {},
+  ): Promise<IssuerMetadata> {
+    return this.getCachedMetadata(
+      "get OpenID credential issuer",
+      "/.well-known/openid-credential-issuer",
+      issuerMetadataSchema,
+      options,
+    );
+  }
+  /** Exchanges a pre-authorized code, and its PIN if any, for an access token. */
+  async requestPreAuthorizedToken(
+    preAuthorizedCode: string,
+    txCode?: string,
+    options: CallOptions = {},
+  ): Promise<TokenResponse> {
+    const { token_endpoint } = await this.getOAuthAuthorizationServer(options);
+    const body = new URLSearchParams({
+      grant_type: PRE_AUTHORIZED_GRANT_TYPE,
+      "pre-authorized_code": preAuthorizedCode,
+    });
+    if (txCode) {
+      body.set("tx_code", txCode);
     }
+
+    const { data } = await request(
+      "request access token",
+      this.toAgentUrl(token_endpoint),
+      { ...options, method: "POST", body, schema: tokenResponseSchema },
+    );
+    return data;
   }
   async issueCredentialViaOpenId4VCI(
     credentialRequest: unknown,
-  ): Promise<unknown> {
-    try {
-      const response = await fetch(`${this.baseUrl}/openid4vci/credential`, {
+    accessToken?: string,
+    options: CallOptions = {},
+  ): Promise<CredentialResponse> {
+    const { data } = await request(
+      "issue credential via OpenID4VCI",
+      `${this.baseUrl}/openid4vci/credential`,
+      {
+        ...options,
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(credentialRequest),
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to issue credential via OpenID4VCI: ${response.status}`,
-        );
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to issue credential via OpenID4VCI:", error);
-      throw error;
-    }
+        body: credentialRequest,
+        headers: accessToken
+          ? { Authorization: `Bearer ${accessToken}` }
+          : undefined,
+        schema: credentialResponseSchema,
+      },
+    );
+    return data;
   }
 
   async createCredential(
     credentialPayload: CredentialPayload,
-  ): Promise<unknown> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v0/credentials`, {
+    options: CallOptions = {},
+  ): Promise<CredentialRecord> {
+    const { data } = await request(
+      "create credential",
+      `${this.baseUrl}/v0/credentials`,
+      {
+        ...options,
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(credentialPayload),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Failed to create credential: ${response.status} - ${errorText}`,
-        );
-      }
-
-      const result = await response.json();
-      return result;
-    } catch (error) {
-      console.error("Failed to create credential:", error);
-      throw error;
-    }
+        body: credentialPayload,
+        schema: credentialRecordSchema,
+      },
+    );
+    return data;
   }
-  async getCredential(credentialId: string): Promise<unknown> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/v0/credentials/${credentialId}`,
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to get credential: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get credential:", error);
-      throw error;
-    }
+  async getCredential(
+    credentialId: string,
+    options: CallOptions = {},
+  ): Promise<CredentialRecord> {
+    const { data } = await request(
+      "get credential",
+      `${this.baseUrl}/v0/credentials/${credentialId}`,
+      { ...options, schema: credentialRecordSchema },
+    );
+    return data;
   }
-  async getAllOffers(): Promise<unknown> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v0/offers`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to get offers: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get offers:", error);
-      throw error;
-    }
+  async getAllOffers(options: CallOptions = {}): Promise<OfferRecord[]> {
+    const { data } = await request("get offers", `${this.baseUrl}/v0/offers`, {
+      ...options,
+      schema: offerListSchema,
+    });
+    return data;
   }
-  async createOffer(offerRequest: OfferRequest): Promise<string> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v0/offers`, {
+  async createOffer(
+    offerRequest: OfferRequest,
+    options: CallOptions = {},
+  ): Promise<string> {
+    const { data } = await request(
+      "create offer",
+      `${this.baseUrl}/v0/offers`,
+      {
+        ...options,
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "text/plain",
-        },
-        body: JSON.stringify(offerRequest),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Failed to create offer: ${response.status} - ${errorText}`,
-        );
-      }
-
-      const offerUrl = await response.text();
-      return offerUrl;
-    } catch (error) {
-      console.error("Failed to create offer:", error);
-      throw error;
-    }
+        body: offerRequest,
+        responseType: "text",
+        schema: offerUrlSchema,
+      },
+    );
+    return data;
   }
-  async sendOffer(sendOfferRequest: SendOfferRequest): Promise<unknown> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v0/offers/send`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(sendOfferRequest),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Failed to send offer: ${response.status} - ${errorText}`,
-        );
-      }
-
-      const result = await response.json();
-      return result;
-    } catch (error) {
-      console.error("Failed to send offer:", error);
-      throw error;
-    }
+  async sendOffer(
+    sendOfferRequest: SendOfferRequest,
+    options: CallOptions = {},
+  ): Promise<unknown> {
+    const { data } = await request(
+      "send offer",
+      `${this.baseUrl}/v0/offers/send`,
+      { ...options, method: "POST", body: sendOfferRequest },
+    );
+    return data;
   }
-  async getOffer(offerId: string): Promise<unknown> {
+  /**
+   * Withdraws an offer so it can no longer be redeemed. Resolves false when
+   * the agent no longer has it; other failures, including agents that do not
+   * support deletion (405), are thrown.
+   */
+  async deleteOffer(
+    offerId: string,
+    options: CallOptions = {},
+  ): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/v0/offers/${offerId}`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to get offer: ${response.status}`);
-      }
-
-      return await response.json();
+      await request(
+        "delete offer",
+        `${this.baseUrl}/v0/offers/${encodeURIComponent(offerId)}`,
+        { ...options, method: "DELETE", responseType: "text" },
+      );
+      return true;
     } catch (error) {
-      console.error("Failed to get offer:", error);
+      if (error instanceof UniCoreClientError && error.status === 404) {
+        return false;
+      }
       throw error;
     }
   }
+  async getOffer(
+    offerId: string,
+    options: CallOptions = {},
+  ): Promise<OfferRecord> {
+    const { data } = await request(
+      "get offer",
+      `${this.baseUrl}/v0/offers/${offerId}`,
+      { ...options, schema: offerRecordSchema },
+    );
+    return data;
+  }
 
-  async getAllAuthorizationRequests(): Promise<unknown> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v0/authorization_requests`);
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to get authorization requests: ${response.status}`,
-        );
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get authorization requests:", error);
-      throw error;
-    }
+  async getAllAuthorizationRequests(
+    options: CallOptions = {},
+  ): Promise<AuthorizationRequestRecord[]> {
+    const { data } = await request(
+      "get authorization requests",
+      `${this.baseUrl}/v0/authorization_requests`,
+      { ...options, schema: authorizationRequestListSchema },
+    );
+    return data;
   }
   async createAuthorizationRequest(
     authRequest: AuthorizationRequest,
-  ): Promise<unknown> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/v0/authorization_requests`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(authRequest),
-        },
+    options: CallOptions = {},
+  ): Promise<CreatedAuthorizationRequest> {
+    const { data, headers } = await request<string>(
+      "create authorization request",
+      `${this.baseUrl}/v0/authorization_requests`,
+      { ...options, method: "POST", body: authRequest, responseType: "text" },
+    );
+
+    const contentType = headers.get("content-type");
+    if (contentType?.includes("application/json")) {
+      return validate(
+        "create authorization request",
+        createdAuthorizationRequestSchema,
+        parseJson("create authorization request", data, contentType),
       );
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Failed to create authorization request: ${response.status} - ${errorText}`,
-        );
-      }
-
-      const locationHeader = response.headers.get("location");
-
-      const contentType = response.headers.get("content-type");
-      let result;
-
-      if (contentType?.includes("application/json")) {
-        result = await response.json();
-      } else {
-        const authorizationUrl = await response.text();
-
-        let requestId: string | null = null;
-
-        if (locationHeader) {
-          const locationMatch = locationHeader.match(
-            /authorization_requests\/([^/?]+)/,
-          );
-          if (locationMatch) {
-            requestId = locationMatch[1];
-          }
-        }
-
-        if (!requestId) {
-          try {
-            const urlMatch = authorizationUrl.match(/request_uri=([^&]+)/);
-            if (urlMatch) {
-              const requestUri = decodeURIComponent(urlMatch[1]);
-              const idMatch = requestUri.match(
-                /authorization_requests\/([^/?]+)/,
-              );
-              if (idMatch) {
-                requestId = idMatch[1];
-              } else {
-                console.warn("⚠️ Could not find request ID in URI");
-              }
-            } else {
-              console.warn("⚠️ Could not find request_uri parameter");
-            }
-          } catch (error) {
-            console.warn(
-              "Could not extract request ID from authorization URL:",
-              error,
-            );
-          }
-        }
+    const authorizationUrl = validate(
+      "create authorization request",
+      authorizationUrlSchema,
+      data,
+    );
+    const requestId =
+      authorizationRequestIdFromUrl(headers.get("location")) ??
+      authorizationRequestIdFromUrl(
+        new URLSearchParams(authorizationUrl.split("?")[1] ?? "").get(
+          "request_uri",
+        ),
+      ) ??
+      (await this.findAuthorizationRequestByState(authRequest.state, options));
+
+    return { authorization_url: authorizationUrl, id: requestId };
+  }
 
-        if (!requestId) {
-          console.warn("Could not extract ID, will fetch from list endpoint");
-          try {
-            const allRequests =
-              (await this.getAllAuthorizationRequests()) as Array<{
-                id: string;
-                created_at?: string;
-              }>;
-            if (allRequests && allRequests.length > 0) {
-              const sortedRequests = allRequests.sort((a, b) => {
-                const timeA = a.created_at
-                  ? new Date(a.created_at).getTime()
-                  : 0;
-                const timeB = b.created_at
-                  ? new Date(b.created_at).getTime()
-                  : 0;
-                return timeB - timeA;
-              });
-              requestId = sortedRequests[0].id;
-            }
-          } catch (error) {
-            console.error(
-              "Failed to fetch authorization requests list:",
-              error,
-            );
-          }
-        }
+  /**
+   * The ID of the one authorization request created with `state`. Our states
+   * are random, so anything but exactly one match means the request cannot be
+   * identified and a `UniCoreCorrelationError` is thrown.
+   */
+  private async findAuthorizationRequestByState(
+    state: string,
+    options: CallOptions,
+  ): Promise<string> {
+    const matches = (await this.getAllAuthorizationRequests(options)).filter(
+      (record) => record.state === state,
+    );
+    if (matches.length !== 1) {
+      throw new UniCoreCorrelationError(
+        matches.length === 0
+          ? "The agent created an authorization request but did not return its ID, and no request with our state is listed"
+          : `The agent lists ${matches.length} authorization requests with our state; refusing to pick one`,
+        state,
+      );
+    }
+    return matches[0].id;
+  }
 
-        result = {
-          authorization_url: authorizationUrl,
-          id: requestId || `auth-${Date.now()}`,
-        };
-      }
+  /**
+   * Loads the OpenID4VP request object behind a `request_uri`. Signed request
+   * objects are decoded without checking the signature.
+   */
+  async getAuthorizationRequestObject(
+    requestUri: string,
+    options: CallOptions = {},
+  ): Promise<AuthorizationRequestObject> {
+    const operation = "get authorization request object";
+    const { data, headers } = await request<string>(
+      operation,
+      this.toAgentUrl(requestUri),
+      {
+        ...options,
+        responseType: "text",
+        headers: {
+          Accept: "application/oauth-authz-req+jwt, application/json",
+        },
+      },
+    );
 
-      return result;
+    const body = data.trim();
+    let payload: unknown;
+    try {
+      payload = body.startsWith("{")
+        ? JSON.parse(body)
+        : decodeJwt(body).payload;
     } catch (error) {
-      console.error("Failed to create authorization request:", error);
-      throw error;
+      throw new UniCoreContentTypeError(
+        `Failed to ${operation}: ${getErrorMessage(error)}`,
+        "application/oauth-authz-req+jwt",
+        headers.get("content-type"),
+      );
     }
+    return validate(operation, authorizationRequestObjectSchema, payload);
+  }
+  /** Posts a wallet's `direct_post` authorization response. */
+  async postAuthorizationResponse(
+    responseUri: string,
+    response: URLSearchParams,
+    options: CallOptions = {},
+  ): Promise<unknown> {
+    const { data } = await request(
+      "post authorization response",
+      this.toAgentUrl(responseUri),
+      { ...options, method: "POST", body: response },
+    );
+    return data;
   }
 
-  async getAuthorizationRequest(requestId: string): Promise<unknown> {
+  async getAuthorizationRequest(
+    requestId: string,
+    options: CallOptions = {},
+  ): Promise<AuthorizationRequestRecord> {
+    const { data } = await request(
+      "get authorization request",
+      `${this.baseUrl}/v0/authorization_requests/${requestId}`,
+      { ...options, schema: authorizationRequestRecordSchema },
+    );
+    return data;
+  }
+  /**
+   * Removes an authorization request from the agent. Resolves false when the
+   * agent no longer has it; other failures, including agents that do not
+   * support deletion (405), are thrown.
+   */
+  async deleteAuthorizationRequest(
+    requestId: string,
+    options: CallOptions = {},
+  ): Promise<boolean> {
     try {
-      const response = await fetch(
-        `${this.baseUrl}/v0/authorization_requests/${requestId}`,
+      await request(
+        "delete authorization request",
+        `${this.baseUrl}/v0/authorization_requests/${encodeURIComponent(requestId)}`,
+        { ...options, method: "DELETE", responseType: "text" },
       );
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to get authorization request: ${response.status}`,
-        );
-      }
-
-      return await response.json();
+      return true;
     } catch (error) {
-      console.error("Failed to get authorization request:", error);
+      if (error instanceof UniCoreClientError && error.status === 404) {
+        return false;
+      }
       throw error;
     }
   }
@@ -422,22 +614,23 @@ class UniCoreService {
     requestId: string,
     maxAttempts: number = 60,
     intervalMs: number = 2000,
+    options: PollOptions = {},
   ): Promise<{
     success: boolean;
     status?: string;
     presentationData?: unknown;
+    /** The wallet's `presentation_submission`, when it sent one. */
+    presentationSubmission?: unknown;
     error?: string;
+    errorKind?: UniCoreErrorKind;
   }> {
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       try {
-        const authRequest = (await this.getAuthorizationRequest(requestId)) as {
-          id: string;
-          status?: string;
-          verifiable_presentation?: unknown;
-          response?: unknown;
-          vp_token?: unknown;
-          presentation_submission?: unknown;
-        };
+        const authRequest = await this.getAuthorizationRequest(
+          requestId,
+          options,
+        );
+        options.onRecord?.(authRequest);
 
         if (
           authRequest.vp_token !== null &&
@@ -447,6 +640,7 @@ class UniCoreService {
             success: true,
             status: "fulfilled",
             presentationData: authRequest.vp_token,
+            presentationSubmission: authRequest.presentation_submission,
           };
         }
 
@@ -471,18 +665,28 @@ class UniCoreService {
           };
         }
 
-        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+        await sleep(intervalMs, options.signal);
       } catch (error) {
+        if (options.signal?.aborted) {
+          return {
+            success: false,
+            status: "cancelled",
+            error: "Polling cancelled",
+            errorKind: "aborted",
+          };
+        }
+
         console.error(`Poll attempt ${attempt + 1} failed:`, error);
 
         if (attempt < maxAttempts - 1) {
-          await new Promise((resolve) => setTimeout(resolve, intervalMs));
+          await sleep(intervalMs, options.signal).catch(() => undefined);
           continue;
         }
 
         return {
           success: false,
-          error: error instanceof Error ? error.message : "Polling failed",
+          error: getErrorMessage(error, "Polling failed"),
+          errorKind: getErrorKind(error),
         };
       }
     }
@@ -496,180 +700,261 @@ class UniCoreService {
 
   private async getAvailableCredentialConfigurationId(
     credentialType?: string,
+    format?: IssuanceFormat,
+    options: CallOptions = {},
   ): Promise<string | null> {
-    try {
-      const issuerMetadata = (await this.getOpenIdCredentialIssuer()) as {
-        credential_configurations_supported?: Record<string, unknown>;
-      };
-
-      if (issuerMetadata?.credential_configurations_supported) {
-        const configIds = Object.keys(
-          issuerMetadata.credential_configurations_supported,
-        );
-        if (credentialType && configIds.includes(credentialType)) {
-          return credentialType;
-        }
+    const issuerMetadata = await this.getOpenIdCredentialIssuer(options);
+    const configurations = issuerMetadata.credential_configurations_supported;
+    const configIds = Object.keys(configurations);
+
+    if (format) {
+      // A wrong format would silently issue every claim in the clear, so
+      // there is no fallback to another format.
+      const candidates = configIds.filter(
+        (id) => configurations[id].format === format,
+      );
+      return (
+        candidates.find((id) => id === credentialType) ??
+        candidates.find((id) => {
+          const { credential_definition, vct } = configurations[id];
+          return (
+            !!credentialType &&
+            (!!credential_definition?.type?.includes(credentialType) ||
+              (typeof vct === "string" && vct.endsWith(credentialType)))
+          );
+        }) ??
+        null
+      );
+    }
 
-        if (configIds.length > 0) {
-          return configIds[0];
-        }
-      }
+    if (credentialType && configIds.includes(credentialType)) {
+      return credentialType;
+    }
 
-      console.warn("No credential configurations found in issuer metadata");
-      return null;
-    } catch (error) {
-      console.error("Failed to get credential configurations:", error);
-      return null;
+    if (configIds.length > 0) {
+      return configIds[0];
     }
+
+    console.warn("No credential configurations found in issuer metadata");
+    return null;
   }
 
   async issueCredential(
     credentialRequest: CredentialRequest,
+    options: CallOptions = {},
   ): Promise<IssuanceResult> {
     try {
-      const health = await this.healthCheck();
-      if (!health.api) {
-        return {
-          success: false,
-          error:
-            "UniCore service is not available. Please check the connection.",
-        };
-      }
-
       const configId = await this.getAvailableCredentialConfigurationId(
         credentialRequest.type,
+        credentialRequest.format,
+        options,
       );
       if (!configId) {
         return {
           success: false,
-          error:
-            "No credential configurations available in UniCore. Please configure credential types in UniCore first.",
+          error: credentialRequest.format
+            ? `UniCore has no ${credentialRequest.format} credential configuration for ${credentialRequest.type}. Add one to the agent or issue in another format.`
+            : "No credential configurations available in UniCore. Please configure credential types in UniCore first.",
         };
       }
+      const issuerMetadata = await this.getOpenIdCredentialIssuer(options);
+      const credentialFormat =
+        issuerMetadata.credential_configurations_supported[configId]?.format;
 
-      const offerId = `unicore-${credentialRequest.type.toLowerCase()}-${Date.now()}`;
+      // The random suffix keeps ids unique when offers are created concurrently.
+      const offerId = `unicore-${credentialRequest.type.toLowerCase()}-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
 
+      const offerExpiresAt = getOfferExpiry(
+        credentialRequest.offerLifetimeMinutes ??
+          getOfferLifetime(credentialRequest.type),
+      );
+      const credentialStatus = allocateCredentialStatus(credentialRequest.type);
+      const revocationBitmapStatus = allocateRevocationBitmapStatus();
       const credentialPayload = this.createCredentialPayload(
         offerId,
         credentialRequest,
         configId,
+        credentialFormat,
+        offerExpiresAt,
+        [
+          ...(credentialStatus ?? []),
+          ...(revocationBitmapStatus ? [revocationBitmapStatus] : []),
+        ],
       );
 
-      const credentialResult = await this.createCredential(credentialPayload);
-
-      const offerUrl = await this.createOffer({ offerId });
+      const credentialResult = await this.createCredential(
+        credentialPayload,
+        options,
+      );
 
-      const fixedOfferUrl = await this.ensureUniMeCompatibility(offerUrl);
+      const policy = getTxCodePolicy(credentialRequest.type);
+      const txCode =
+        (credentialRequest.requireTxCode ?? policy !== false)
+          ? generateTxCode(policy || DEFAULT_TX_CODE_POLICY)
+          : undefined;
+      const agentOfferUrl = await this.createOffer(
+        { offerId, txCode },
+        options,
+      );
+      const walletProfile =
+        credentialRequest.walletProfile ?? getConfig().walletProfile;
+      const profile = getWalletProfile(walletProfile);
+      // One fetch of the offer serves both the PIN check and the wallet profile.
+      const resolved =
+        txCode || needsResolvedOffer(profile)
+          ? await this.tryResolveOffer(agentOfferUrl, options)
+          : {};
+      const warnings = txCode ? this.checkTxCodeApplied(resolved) : [];
+      const walletOfferUrl = this.adaptWalletOffer(
+        profile,
+        agentOfferUrl,
+        configId,
+        resolved,
+      );
 
       return {
         success: true,
         credentialId: offerId,
         offerId: offerId,
-        offerUrl: fixedOfferUrl,
-        qrCodeData: fixedOfferUrl,
+        offerUrl: walletOfferUrl,
+        agentOfferUrl,
+        walletProfile,
+        configurationId: configId,
+        credentialFormat,
+        credentialStatus,
+        revocationBitmapStatus,
+        txCode,
+        warnings,
+        qrCodeData: walletOfferUrl,
+        offerExpiresAt,
         credentialData: credentialResult,
       };
     } catch (error) {
       console.error("Credential issuance flow failed:", error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
+        error: getErrorMessage(error),
+        errorKind: getErrorKind(error),
       };
     }
   }
 
+  /**
+   * Requests credentials of the given types. `specificFields` requires
+   * subject claims to equal the given values exactly. The request is written
+   * in the query language of the wallet profile.
+   */
   async createVerificationRequest(
     credentialTypes: string[],
     specificFields?: Record<string, unknown>,
+    options: VerificationOptions = {},
   ): Promise<VerificationResult> {
+    const { walletProfile, ...callOptions } = options;
+    const constraints = Object.entries(specificFields ?? {}).map(
+      ([claim, value]): ClaimConstraint => ({
+        claim,
+        operator: "equals",
+        value: String(value),
+      }),
+    );
     try {
-      const inputDescriptors = credentialTypes.map((type) => {
-        const fields: Array<{
-          path: string[];
-          filter?: {
-            type: string;
-            contains?: { const: string };
-            pattern?: string;
-          };
-        }> = [
-          {
-            path: ["$.type"],
-            filter: {
-              type: "array",
-              contains: { const: type },
-            },
-          },
-        ];
-
-        if (specificFields) {
-          Object.entries(specificFields).forEach(([fieldName, value]) => {
-            fields.push({
-              path: [`$.credentialSubject.${fieldName}`],
-              filter: {
-                type: "string",
-                pattern: String(value),
-              },
-            });
-          });
-        }
-
-        return {
-          id: type,
-          name: `${type} Credential`,
-          purpose: `Verify ${type} credential`,
-          constraints: {
-            fields,
-          },
-        };
-      });
-
+      const { queryLanguage } = getWalletProfile(
+        walletProfile ?? getConfig().walletProfile,
+      );
+      const query = buildVerificationQuery(
+        credentialTypes.map((type) => ({ type, constraints })),
+        queryLanguage,
+      );
+      return await this.createVerificationRequestForQuery(query, callOptions);
+    } catch (error) {
+      console.error("Verification flow failed:", error);
+      return {
+        success: false,
+        error: getErrorMessage(error),
+        errorKind: getErrorKind(error),
+      };
+    }
+  }
+  /** Requests a presentation matching a definition from `presentationDefinition`. */
+  async createVerificationRequestForDefinition(
+    presentationDefinition: PresentationDefinition,
+    options: CallOptions = {},
+  ): Promise<VerificationResult> {
+    return this.createVerificationRequestForQuery(
+      { language: "presentation_exchange", definition: presentationDefinition },
+      options,
+    );
+  }
+  /**
+   * Requests a presentation for a Presentation Exchange definition or a DCQL
+   * query, whichever `query` holds.
+   */
+  async createVerificationRequestForQuery(
+    query: VerificationQuery,
+    options: CallOptions = {},
+  ): Promise<VerificationResult> {
+    try {
+      const config = getConfig();
+      const state = randomToken();
+      const nonce = randomToken();
       const authRequest: AuthorizationRequest = {
         response_type: "vp_token",
-        client_id: this.issuerDid,
-        redirect_uri: `${this.baseUrl.replace("/api", "")}/callback`,
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
         scope: "openid",
-        state: `verify-${Date.now()}`,
-        nonce: `nonce-${Date.now()}`,
-        presentation_definition: {
-          id: `verification-${Date.now()}`,
-          input_descriptors: inputDescriptors,
-        },
+        state,
+        nonce,
+        ...(query.language === "dcql"
+          ? { dcql_query: query.query }
+          : { presentation_definition: query.definition }),
       };
 
-      const result = (await this.createAuthorizationRequest(authRequest)) as {
-        id: string;
-        authorization_url: string;
-      };
+      const result = await this.createAuthorizationRequest(
+        authRequest,
+        options,
+      );
 
       return {
         success: true,
+        query,
         authorizationRequestId: result.id,
         authorizationUrl: result.authorization_url,
         qrCodeData: result.authorization_url,
+        state,
+        nonce,
+        clientId: config.clientId,
       };
     } catch (error) {
       console.error("Verification flow failed:", error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
+        error: getErrorMessage(error),
+        errorKind: getErrorKind(error),
       };
     }
   }
   async createVerificationForCredential(
     credentialType: string,
     requiredFields?: Record<string, unknown>,
+    options: VerificationOptions = {},
   ): Promise<VerificationResult> {
-    return this.createVerificationRequest([credentialType], requiredFields);
+    return this.createVerificationRequest(
+      [credentialType],
+      requiredFields,
+      options,
+    );
   }
   async createVerificationAndWaitForPresentation(
     credentialTypes: string[],
     specificFields?: Record<string, unknown>,
     maxWaitTimeSeconds: number = 120,
+    options: VerificationOptions = {},
   ): Promise<VerificationResult> {
     try {
       const verificationResult = await this.createVerificationRequest(
         credentialTypes,
         specificFields,
+        options,
       );
 
       if (
@@ -684,6 +969,7 @@ class UniCoreService {
         verificationResult.authorizationRequestId,
         maxAttempts,
         2000,
+        options,
       );
 
       return {
@@ -691,138 +977,193 @@ class UniCoreService {
         success: pollResult.success,
         status: pollResult.status,
         presentationData: pollResult.presentationData,
+        presentationSubmission: pollResult.presentationSubmission,
         error: pollResult.error,
+        errorKind: pollResult.errorKind,
       };
     } catch (error) {
       console.error("Verification with polling failed:", error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
+        error: getErrorMessage(error),
+        errorKind: getErrorKind(error),
       };
     }
   }
 
+  /**
+   * Loads the offer behind an offer URL, whether it is embedded, a `data:`
+   * URL or a `credential_offer_uri` on the agent.
+   */
+  async resolveCredentialOffer(
+    offerUrl: string,
+    options: CallOptions = {},
+  ): Promise<CredentialOfferDraft> {
+    const operation = "resolve credential offer";
+    const { offer, offerUri } = parseOfferUrl(offerUrl);
+    if (offer !== undefined) {
+      return validate(operation, credentialOfferDraftSchema, offer);
+    }
+
+    const dataUrl = offerUri!.match(/^data:application\/json;base64,(.*)$/);
+    if (dataUrl) {
+      const bytes = Uint8Array.from(atob(dataUrl[1]), (c) => c.charCodeAt(0));
+      return validate(
+        operation,
+        credentialOfferDraftSchema,
+        JSON.parse(new TextDecoder().decode(bytes)),
+      );
+    }
+
+    const { data } = await request(operation, this.toAgentUrl(offerUri!), {
+      ...options,
+      schema: credentialOfferDraftSchema,
+    });
+    return data;
+  }
+
+  /** Resolves an offer, returning the error instead of throwing it. */
+  private async tryResolveOffer(
+    offerUrl: string,
+    options: CallOptions,
+  ): Promise<ResolvedOffer> {
+    try {
+      return { offer: await this.resolveCredentialOffer(offerUrl, options) };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      return { error };
+    }
+  }
+
+  /**
+   * The PIN only protects the offer if the agent put `tx_code` into the
+   * pre-authorized grant; an agent that ignores it would still hand out the
+   * credential without one.
+   */
+  private checkTxCodeApplied({ offer, error }: ResolvedOffer): string[] {
+    if (!offer) {
+      return [
+        `Could not confirm that the offer requires the PIN: ${getErrorMessage(error)}`,
+      ];
+    }
+    return offerRequiresTxCode(offer)
+      ? []
+      : [
+          "The agent did not add a transaction code to the offer, so it can be redeemed without the PIN.",
+        ];
+  }
+
+  /**
+   * Adapts an agent offer URL to a wallet profile. If the offer cannot be
+   * loaded the agent URL is returned under the profile's scheme, since a
+   * plain offer is still better than none.
+   */
+  async prepareWalletOffer(
+    offerUrl: string,
+    walletProfileId: string,
+    configurationId?: string,
+    options: CallOptions = {},
+  ): Promise<string> {
+    const profile = getWalletProfile(walletProfileId);
+    const resolved = needsResolvedOffer(profile)
+      ? await this.tryResolveOffer(offerUrl, options)
+      : {};
+    return this.adaptWalletOffer(profile, offerUrl, configurationId, resolved);
+  }
+
+  private adaptWalletOffer(
+    profile: WalletProfile,
+    offerUrl: string,
+    configurationId: string | undefined,
+    { offer, error }: ResolvedOffer,
+  ): string {
+    if (!needsResolvedOffer(profile)) {
+      return buildWalletOfferUrl(profile, { offerUrl });
+    }
+    if (!offer) {
+      console.error(`Failed to adapt offer for ${profile.name}:`, error);
+      return buildWalletOfferUrl(profile, { offerUrl });
+    }
+    return buildWalletOfferUrl(profile, { offerUrl, offer, configurationId });
+  }
+
   private createCredentialPayload(
     offerId: string,
     request: CredentialRequest,
     configId: string,
+    format: string | undefined,
+    expiresAt: string,
+    credentialStatus: Array<CredentialStatusEntry | RevocationBitmapEntry> = [],
   ): CredentialPayload {
     return {
       offerId: offerId,
       credentialConfigurationId: configId,
-      expiresAt: "never",
+      expiresAt,
       credential: {
         credentialSubject: {
           ...request.credentialSubject,
         },
+        ...(credentialStatus.length > 0 && { credentialStatus }),
       },
+      ...(format === SD_JWT_FORMAT && {
+        disclosureFrame: buildDisclosureFrame(
+          request.type,
+          request.credentialSubject,
+        ),
+      }),
     };
   }
-  private async ensureUniMeCompatibility(offerUrl: string): Promise<string> {
-    try {
-      const offerUriMatch = offerUrl.match(/credential_offer_uri=([^&]+)/);
-      if (!offerUriMatch) {
-        return offerUrl;
-      }
 
-      const offerUri = decodeURIComponent(offerUriMatch[1]);
-      const proxyUri = offerUri.replace(
-        "http://192.168.29.111:3033",
-        this.baseUrl,
-      );
-      const offerDataResponse = await fetch(proxyUri);
-      if (!offerDataResponse.ok) {
-        return offerUrl;
-      }
-
-      const offerData = await offerDataResponse.json();
-
-      const hasConfigIds =
-        offerData.credential_configuration_ids &&
-        offerData.credential_configuration_ids.length > 0;
-
-      if (hasConfigIds) {
-        return offerUrl;
-      }
-
-      const fixedOfferData = {
-        ...offerData,
-        credential_configuration_ids: ["VerifiableCredential"],
-      };
-
-      const fixedDataString = JSON.stringify(fixedOfferData);
-      const dataUrl = `data:application/json;base64,${btoa(fixedDataString)}`;
-      const fixedOfferUrl = `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(dataUrl)}`;
-
-      return fixedOfferUrl;
-    } catch (error) {
-      console.error("Failed to apply UniMe compatibility fix:", error);
-      return offerUrl;
-    }
+  async getCredentialConfigurations(
+    options: CallOptions & CacheOptions = {},
+  ): Promise<IssuerMetadata> {
+    return this.getOpenIdCredentialIssuer(options);
   }
-  async getCredentialConfigurations(): Promise<unknown> {
+  async getAvailableConfigurationIds(
+    options: CallOptions & CacheOptions = {},
+  ): Promise<string[]> {
     try {
-      const response = await fetch(
-        `${this.baseUrl}/.well-known/openid-credential-issuer`,
-      );
-      if (!response.ok) {
-        throw new Error(
-          `Failed to get credential configurations: ${response.status}`,
-        );
-      }
-      return await response.json();
-    } catch (error) {
-      console.error("Failed to get credential configurations:", error);
-      throw error;
-    }
-  }
-  async getAvailableConfigurationIds(): Promise<string[]> {
-    try {
-      const issuerMetadata = (await this.getOpenIdCredentialIssuer()) as {
-        credential_configurations_supported?: Record<string, unknown>;
-      };
-
-      if (issuerMetadata?.credential_configurations_supported) {
-        return Object.keys(issuerMetadata.credential_configurations_supported);
-      }
-
-      return [];
+      const issuerMetadata = await this.getOpenIdCredentialIssuer(options);
+      return Object.keys(issuerMetadata.credential_configurations_supported);
     } catch (error) {
       console.error("Failed to get configuration IDs:", error);
       return [];
     }
   }
-  async healthCheck() {
+  async healthCheck(options: CallOptions = {}): Promise<HealthStatus> {
     try {
-      const response = await fetch(`${this.baseUrl}/v0/credentials`, {
-        headers: { Accept: "application/json" },
-      });
-
-      const isHealthy = response.ok;
-
-      let configurations = null;
-      if (isHealthy) {
-        try {
-          configurations = await this.getCredentialConfigurations();
-        } catch (error) {
-          console.log("Could not fetch credential configurations:", error);
-        }
-      }
-
-      return {
-        api: isHealthy,
-        agent: isHealthy,
-        configurations,
-        error: isHealthy ? undefined : "UniCore service not reachable",
-      };
-    } catch {
+      await request(
+        "check UniCore health",
+        `${this.baseUrl}/v0/credentials`,
+        options,
+      );
+    } catch (error) {
+      const errorKind = getErrorKind(error);
       return {
         api: false,
         agent: false,
+        errorKind,
         error:
-          "UniCore service not reachable - ensure it's running on port 3033",
+          errorKind === "network" || errorKind === "timeout"
+            ? `UniCore service not reachable - ensure it's running at ${getConfig().agentUrl}`
+            : getErrorMessage(error, "UniCore service not reachable"),
       };
     }
+
+    let configurations: IssuerMetadata | null = null;
+    try {
+      configurations = await this.getCredentialConfigurations(options);
+    } catch (error) {
+      console.log("Could not fetch credential configurations:", error);
+    }
+
+    return {
+      api: true,
+      agent: true,
+      configurations,
+    };
   }
   async createMigrationIdentity(
     firstName: string,
@@ -830,6 +1171,7 @@ class UniCoreService {
     dateOfBirth: string,
     nationality: string,
     passportNumber?: string,
+    options: CallOptions = {},
   ): Promise<IssuanceResult> {
     const credentialRequest: CredentialRequest = {
       type: "MigrationIdentity",
@@ -842,7 +1184,7 @@ class UniCoreService {
       },
     };
 
-    return await this.issueCredential(credentialRequest);
+    return await this.issueCredential(credentialRequest, options);
   }
   async createWorkPermit(
     firstName: string,
@@ -850,6 +1192,7 @@ class UniCoreService {
     employerId: string,
     position: string,
     validUntil: string,
+    options: CallOptions = {},
   ): Promise<IssuanceResult> {
     const credentialRequest: CredentialRequest = {
       type: "WorkPermit",
@@ -863,10 +1206,10 @@ class UniCoreService {
       expirationDate: validUntil,
     };
 
-    return await this.issueCredential(credentialRequest);
+    return await this.issueCredential(credentialRequest, options);
   }
 
-  async testUniCoreFlow() {
+  async testUniCoreFlow(options: CallOptions = {}) {
     try {
       const issuanceResult = await this.createMigrationIdentity(
         "Alice",
@@ -874,15 +1217,18 @@ class UniCoreService {
         "1995-03-20",
         "US",
         "P123456789",
+        options,
       );
 
       if (!issuanceResult.success) {
         throw new Error(`Issuance failed: ${issuanceResult.error}`);
       }
 
-      const verificationResult = await this.createVerificationRequest([
-        "MigrationIdentity",
-      ]);
+      const verificationResult = await this.createVerificationRequest(
+        ["MigrationIdentity"],
+        undefined,
+        options,
+      );
 
       if (!verificationResult.success) {
         throw new Error(`Verification failed: ${verificationResult.error}`);
@@ -897,7 +1243,8 @@ class UniCoreService {
       console.error("UniCore flow test failed:", error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
+        error: getErrorMessage(error),
+        errorKind: getErrorKind(error),
       };
     }
   }
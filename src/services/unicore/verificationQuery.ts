@@ -0,0 +1,247 @@
+import { decodeJwt } from "../identity/jwt";
+import { buildDcqlQuery, dcqlToInputDescriptor } from "./dcql";
+import { getErrorMessage } from "./errors";
+import {
+  buildPresentationDefinition,
+  type DefinitionOptions,
+  type DescriptorSpec,
+} from "./presentationDefinition";
+import {
+  matchDescriptor,
+  revealedCredentialRoots,
+} from "./presentationExchange";
+import { evaluateSubmission } from "./presentationSubmission";
+import type {
+  DcqlQuery,
+  InputDescriptor,
+  PresentationDefinition,
+} from "./schemas";
+
+/*
+ * A verifier's request in either query language OpenID4VP supports, and the
+ * check of a wallet's `vp_token` against the query it answered.
+ */
+
+export type QueryLanguage = "presentation_exchange" | "dcql";
+
+export const QUERY_LANGUAGE_LABELS: Record<QueryLanguage, string> = {
+  presentation_exchange: "Presentation Exchange",
+  dcql: "DCQL",
+};
+
+export type VerificationQuery =
+  | { language: "presentation_exchange"; definition: PresentationDefinition }
+  | {
+      language: "dcql";
+      query: DcqlQuery;
+      /** Full rules per credential query ID; see `buildDcqlQuery`. */
+      rules?: Record<string, InputDescriptor>;
+      /** Rules the wallet is not told about but the response is held to. */
+      unenforced?: string[];
+    };
+
+/** Builds the request for `specs` in the given query language. */
+export function buildVerificationQuery(
+  specs: DescriptorSpec[],
+  language: QueryLanguage,
+  options: DefinitionOptions = {},
+): VerificationQuery {
+  if (language === "dcql") {
+    return { language, ...buildDcqlQuery(specs, options.now) };
+  }
+  return { language, definition: buildPresentationDefinition(specs, options) };
+}
+
+export interface QueryItemResult {
+  /** Input descriptor, credential query or credential set ID. */
+  id: string;
+  satisfied: boolean;
+  reason?: string;
+}
+
+export interface QueryEvaluation {
+  satisfied: boolean;
+  items: QueryItemResult[];
+  /** Set when the response could not be read at all. */
+  error?: string;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Agents may hand back a JSON `vp_token` as the string the wallet posted. */
+function parseVpToken(vpToken: unknown): unknown {
+  if (typeof vpToken !== "string" || !/^\s*[[{]/.test(vpToken)) {
+    return vpToken;
+  }
+  try {
+    return JSON.parse(vpToken);
+  } catch {
+    return vpToken;
+  }
+}
+
+/**
+ * The credentials one presentation carries. A JWT or JSON VP yields its
+ * `verifiableCredential`; anything else is taken as a bare credential.
+ */
+function presentedCredentials(presentation: unknown): unknown[] {
+  if (typeof presentation === "string") {
+    const { payload } = decodeJwt(presentation.split("~")[0]);
+    const vp = payload.vp as Record<string, unknown> | undefined;
+    return vp ? toArray(vp.verifiableCredential) : [presentation];
+  }
+  if (
+    presentation &&
+    typeof presentation === "object" &&
+    "verifiableCredential" in presentation
+  ) {
+    return toArray(presentation.verifiableCredential);
+  }
+  return [presentation];
+}
+
+async function anyCredentialMatches(
+  descriptor: InputDescriptor,
+  presentations: unknown[],
+): Promise<boolean> {
+  for (const credential of presentations.flatMap(presentedCredentials)) {
+    try {
+      const roots = await revealedCredentialRoots(credential);
+      if (matchDescriptor(descriptor, roots).matched) {
+        return true;
+      }
+    } catch (error) {
+      console.warn("Cannot read presented credential:", error);
+    }
+  }
+  return false;
+}
+
+/**
+ * Presentation Exchange responses are read through their
+ * `presentation_submission`, which says where each descriptor is answered.
+ */
+async function evaluateDefinition(
+  definition: PresentationDefinition,
+  vpToken: unknown,
+  submission: unknown,
+): Promise<QueryEvaluation> {
+  if (submission === null || submission === undefined) {
+    return {
+      satisfied: false,
+      items: [],
+      error: "The response has no presentation_submission",
+    };
+  }
+  const evaluation = await evaluateSubmission(definition, submission, vpToken);
+  const items: QueryItemResult[] = [
+    ...evaluation.errors.map((reason) => ({
+      id: "presentation_submission",
+      satisfied: false,
+      reason,
+    })),
+    ...evaluation.descriptors.map(({ id, satisfied, reason }) => ({
+      id,
+      satisfied,
+      ...(reason && { reason }),
+    })),
+  ];
+  return { satisfied: evaluation.satisfied, items };
+}
+
+async function evaluateDcql(
+  query: Extract<VerificationQuery, { language: "dcql" }>,
+  vpToken: unknown,
+): Promise<QueryEvaluation> {
+  if (!vpToken || typeof vpToken !== "object" || Array.isArray(vpToken)) {
+    return {
+      satisfied: false,
+      items: [],
+      error:
+        "A DCQL vp_token must be a JSON object keyed by credential query ID",
+    };
+  }
+  const response = vpToken as Record<string, unknown>;
+
+  const items: QueryItemResult[] = [];
+  for (const credentialQuery of query.query.credentials) {
+    const presentations = toArray(response[credentialQuery.id]);
+    if (presentations.length === 0) {
+      items.push({
+        id: credentialQuery.id,
+        satisfied: false,
+        reason: "Not presented",
+      });
+      continue;
+    }
+    const rule = query.rules?.[credentialQuery.id];
+    const descriptors = rule
+      ? [rule]
+      : (credentialQuery.claim_sets ?? [undefined]).map((claimSet) =>
+          dcqlToInputDescriptor(credentialQuery, claimSet),
+        );
+    let satisfied = false;
+    for (const descriptor of descriptors) {
+      satisfied ||= await anyCredentialMatches(descriptor, presentations);
+    }
+    items.push({
+      id: credentialQuery.id,
+      satisfied,
+      ...(!satisfied && {
+        reason: "The presented credential does not satisfy the query",
+      }),
+    });
+  }
+
+  const answered = new Set(
+    items.filter((item) => item.satisfied).map((item) => item.id),
+  );
+  const credentialSets = query.query.credential_sets;
+  if (!credentialSets) {
+    return { satisfied: answered.size === items.length, items };
+  }
+
+  // With credential sets, each required set needs one fully answered option.
+  let satisfied = true;
+  credentialSets.forEach((set, index) => {
+    const met = set.options.some((option) =>
+      option.every((id) => answered.has(id)),
+    );
+    if (!met && set.required !== false) {
+      satisfied = false;
+      items.push({
+        id: `credential_sets[${index}]`,
+        satisfied: false,
+        reason: `None of the options ${set.options.map((option) => option.join(" + ")).join(" / ")} was presented`,
+      });
+    }
+  });
+  return { satisfied, items };
+}
+
+/**
+ * Checks a wallet's `vp_token` against the query it answered. Presentation
+ * Exchange responses also need the `presentation_submission` sent with it.
+ * SD-JWT credentials are checked on the claims they disclose.
+ */
+export async function evaluatePresentation(
+  query: VerificationQuery,
+  vpToken: unknown,
+  submission?: unknown,
+): Promise<QueryEvaluation> {
+  try {
+    const parsed = parseVpToken(vpToken);
+    return query.language === "dcql"
+      ? await evaluateDcql(query, parsed)
+      : await evaluateDefinition(query.definition, parsed, submission);
+  } catch (error) {
+    return {
+      satisfied: false,
+      items: [],
+      error: getErrorMessage(error),
+    };
+  }
+}
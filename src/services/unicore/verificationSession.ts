@@ -0,0 +1,128 @@
+import {
+  verifyVpToken,
+  type PresentationVerification,
+} from "../identity/presentationVerifier";
+import type { CallOptions } from "./http";
+import type { AuthorizationRequestRecord } from "./schemas";
+import {
+  evaluatePresentation,
+  type QueryEvaluation,
+} from "./verificationQuery";
+import type { VerificationRequest } from "./verificationStore";
+
+/**
+ * Lifecycle of a verification session: the QR is shown (`waiting`), the
+ * wallet has fetched the request (`scanned`), a presentation arrived
+ * (`presented`) and was checked (`verified` or `failed`), unless the request
+ * ran out first (`expired`).
+ */
+export type VerificationStatus =
+  "waiting" | "scanned" | "presented" | "verified" | "failed" | "expired";
+
+/** The happy path, in order, for showing progress. */
+export const VERIFICATION_STEPS: readonly VerificationStatus[] = [
+  "waiting",
+  "scanned",
+  "presented",
+  "verified",
+];
+
+export const VERIFICATION_POLL_MS = 2000;
+
+/** Lifetimes, in minutes, offered when creating a request. */
+export const VERIFICATION_LIFETIME_PRESETS = [5, 10, 30, 60, 240] as const;
+
+export function isTerminalVerificationStatus(
+  status: VerificationStatus,
+): boolean {
+  return status === "verified" || status === "failed" || status === "expired";
+}
+
+/**
+ * Maps statuses stored before sessions were tracked: "active" requests are
+ * still waiting and "completed" ones got a presentation that was never
+ * checked.
+ */
+export function migrateVerificationStatus(status: string): VerificationStatus {
+  switch (status) {
+    case "waiting":
+    case "scanned":
+    case "presented":
+    case "verified":
+    case "failed":
+    case "expired":
+      return status;
+    case "completed":
+      return "presented";
+    default:
+      return "waiting";
+  }
+}
+
+/**
+ * Reads session progress from the agent record. A response means the wallet
+ * presented; any status past creation means it has at least fetched the
+ * request.
+ */
+export function deriveSessionStatus(
+  record: AuthorizationRequestRecord,
+): VerificationStatus {
+  const status = record.status?.toLowerCase() ?? "";
+
+  if (
+    record.vp_token != null ||
+    record.verifiable_presentation ||
+    record.response ||
+    /fulfil|complete|verified|response/.test(status)
+  ) {
+    return "presented";
+  }
+  if (/expire/.test(status)) {
+    return "expired";
+  }
+  if (/fail|error|reject/.test(status)) {
+    return "failed";
+  }
+  if (status && !/creat|pending|initial|active/.test(status)) {
+    return "scanned";
+  }
+  return "waiting";
+}
+
+export interface SessionOutcome {
+  status: "verified" | "failed";
+  verification: PresentationVerification;
+  evaluation: QueryEvaluation;
+}
+
+/**
+ * Checks a presentation received for `request`: signatures, times, holder
+ * binding, the nonce and audience we issued, and the query it answers. A
+ * request stored without its query cannot be checked and fails.
+ */
+export async function verifySessionPresentation(
+  request: VerificationRequest,
+  vpToken: unknown,
+  submission: unknown,
+  options: CallOptions = {},
+): Promise<SessionOutcome> {
+  const verification = await verifyVpToken(vpToken, {
+    ...options,
+    nonce: request.nonce,
+    audience: request.clientId,
+  });
+  const evaluation: QueryEvaluation = request.query
+    ? await evaluatePresentation(request.query, vpToken, submission)
+    : {
+        satisfied: false,
+        items: [],
+        error:
+          "The request was stored without its query, so the presentation cannot be checked against it",
+      };
+  const passed = verification.verified && evaluation.satisfied;
+  return {
+    status: passed ? "verified" : "failed",
+    verification,
+    evaluation,
+  };
+}
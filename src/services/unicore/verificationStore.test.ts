@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  loadVerifications,
+  redeemState,
+  saveVerifications,
+  type VerificationRequest,
+} from "./verificationStore";
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+const request = (patch: Partial<VerificationRequest>): VerificationRequest => ({
+  id: "request-1",
+  types: ["EducationCredential"],
+  authorizationUrl: "openid4vp://?request_uri=x",
+  timestamp: NOW.toISOString(),
+  status: "waiting",
+  state: "state-1",
+  expiresAt: "2026-01-01T12:05:00Z",
+  ...patch,
+});
+
+describe("redeemState", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("accepts a state once and records when", () => {
+    saveVerifications([request({})]);
+
+    expect(redeemState("state-1", NOW).stateUsedAt).toBe(NOW.toISOString());
+    expect(loadVerifications()[0].stateUsedAt).toBe(NOW.toISOString());
+  });
+
+  it("rejects a state that was already used", () => {
+    saveVerifications([request({})]);
+    redeemState("state-1", NOW);
+
+    expect(() => redeemState("state-1", NOW)).toThrow(/already used/);
+  });
+
+  it("rejects a state no request was made with", () => {
+    saveVerifications([request({})]);
+
+    expect(() => redeemState("state-2", NOW)).toThrow(/Unknown state/);
+    expect(loadVerifications()[0].stateUsedAt).toBeUndefined();
+  });
+
+  it("rejects the state of an expired request", () => {
+    saveVerifications([request({ expiresAt: "2026-01-01T11:59:59Z" })]);
+
+    expect(() => redeemState("state-1", NOW)).toThrow(/expired/);
+    expect(loadVerifications()[0].stateUsedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import type { PresentationVerification } from "../identity/presentationVerifier";
+import type { QueryEvaluation, VerificationQuery } from "./verificationQuery";
+import {
+  migrateVerificationStatus,
+  type VerificationStatus,
+} from "./verificationSession";
+
+export const VERIFICATIONS_STORAGE_KEY = "unicore-verifications";
+
+/** A verification request this app created, as kept in local storage. */
+export interface VerificationRequest {
+  id: string;
+  types: string[];
+  authorizationUrl: string;
+  timestamp: string;
+  status: VerificationStatus;
+  statusUpdatedAt?: string;
+  /** Why the session failed or expired. */
+  statusReason?: string;
+  /** What was asked for; absent on requests stored before queries were kept. */
+  query?: VerificationQuery;
+  /** The received presentation checked against `query`. */
+  evaluation?: QueryEvaluation;
+  /** Signature and binding checks of the received presentation. */
+  verification?: PresentationVerification;
+  /** Random `state` sent with the request; the response must return it. */
+  state?: string;
+  /** Random `nonce` the VP must be signed over. */
+  nonce?: string;
+  /** `client_id` sent with the request, expected as the VP's `aud`. */
+  clientId?: string;
+  /** When the request expires and `state` stops being accepted. */
+  expiresAt?: string;
+  /**
+   * Outcome of removing the request on the agent once it expired: deleted,
+   * already gone, or the agent cannot delete requests.
+   */
+  agentCleanup?: "deleted" | "gone" | "unsupported";
+  /** When a response with `state` was accepted; a state is used once. */
+  stateUsedAt?: string;
+}
+
+export function loadVerifications(): VerificationRequest[] {
+  try {
+    const stored = localStorage.getItem(VERIFICATIONS_STORAGE_KEY);
+    const requests: VerificationRequest[] = stored ? JSON.parse(stored) : [];
+    return requests.map((request) => ({
+      ...request,
+      status: migrateVerificationStatus(request.status),
+    }));
+  } catch (error) {
+    console.error("Failed to load verification requests:", error);
+    return [];
+  }
+}
+
+export function saveVerifications(requests: VerificationRequest[]) {
+  localStorage.setItem(VERIFICATIONS_STORAGE_KEY, JSON.stringify(requests));
+}
+
+/** Applies `update` to the stored request `id`, stamping the status time. */
+export function updateVerification(
+  id: string,
+  update: Partial<VerificationRequest>,
+) {
+  saveVerifications(
+    loadVerifications().map((request) =>
+      request.id === id ? applyVerificationUpdate(request, update) : request,
+    ),
+  );
+}
+
+export function applyVerificationUpdate(
+  request: VerificationRequest,
+  update: Partial<VerificationRequest>,
+): VerificationRequest {
+  return {
+    ...request,
+    ...update,
+    ...(update.status &&
+      update.status !== request.status && {
+        statusUpdatedAt: new Date().toISOString(),
+      }),
+  };
+}
+
+/**
+ * Accepts the `state` of a response and marks it used. Throws when no stored
+ * request has it, it was already used or it has expired, since any of these
+ * means the response may be replayed or injected.
+ */
+export function redeemState(
+  state: string,
+  now: Date = new Date(),
+): VerificationRequest {
+  const requests = loadVerifications();
+  const index = requests.findIndex((request) => request.state === state);
+  const request = requests[index];
+  if (!request) {
+    throw new Error("Unknown state; this response answers no request we made");
+  }
+  if (request.stateUsedAt) {
+    throw new Error(
+      `This state was already used at ${request.stateUsedAt}; the response may be replayed`,
+    );
+  }
+  if (request.expiresAt && new Date(request.expiresAt) <= now) {
+    throw new Error(`The request expired at ${request.expiresAt}`);
+  }
+
+  const redeemed = { ...request, stateUsedAt: now.toISOString() };
+  requests[index] = redeemed;
+  saveVerifications(requests);
+  return redeemed;
+}
@@ -0,0 +1,122 @@
+import { UniCoreClientError, UniCoreServerError } from "./errors";
+import type { CallOptions } from "./http";
+import { unicoreService } from "./unicoreService";
+import {
+  VERIFICATION_STEPS,
+  deriveSessionStatus,
+  isTerminalVerificationStatus,
+  type VerificationStatus,
+} from "./verificationSession";
+import type { VerificationRequest } from "./verificationStore";
+
+/*
+ * Background reconciliation of stored verification requests with the agent:
+ * open requests are moved on or expired, expired ones are deleted on the
+ * agent, and old finished ones leave the local history.
+ */
+
+export const VERIFICATION_SWEEP_MS = 60 * 1000;
+
+/** Finished requests stay in the history this long. */
+export const VERIFICATION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SweepResult {
+  updates: Map<string, Partial<VerificationRequest>>;
+  /** Requests to drop from the local history. */
+  removed: string[];
+}
+
+/** Progress only moves forward along the happy path. */
+const isAhead = (next: VerificationStatus, current: VerificationStatus) =>
+  VERIFICATION_STEPS.indexOf(next) > VERIFICATION_STEPS.indexOf(current);
+
+/**
+ * Deletes `id` on the agent. Agents without deletion (405, 501) are recorded
+ * so the request is not retried; other failures are left for the next sweep.
+ */
+async function cleanUpOnAgent(
+  id: string,
+  options: CallOptions,
+): Promise<VerificationRequest["agentCleanup"]> {
+  try {
+    return (await unicoreService.deleteAuthorizationRequest(id, options))
+      ? "deleted"
+      : "gone";
+  } catch (error) {
+    if (
+      (error instanceof UniCoreClientError && error.status === 405) ||
+      (error instanceof UniCoreServerError && error.status === 501)
+    ) {
+      return "unsupported";
+    }
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    console.warn(`Could not delete authorization request ${id}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Reconciles `requests` with the agent's authorization requests. Agent
+ * requests with no stored counterpart belong to someone else and are left
+ * alone.
+ */
+export async function sweepVerifications(
+  requests: VerificationRequest[],
+  options: CallOptions = {},
+  now: number = Date.now(),
+): Promise<SweepResult> {
+  const records = new Map(
+    (await unicoreService.getAllAuthorizationRequests(options)).map(
+      (record) => [record.id, record],
+    ),
+  );
+  const result: SweepResult = { updates: new Map(), removed: [] };
+
+  for (const request of requests) {
+    const record = records.get(request.id);
+    const update: Partial<VerificationRequest> = {};
+    let status = request.status;
+
+    if (!isTerminalVerificationStatus(status)) {
+      const derived = record && deriveSessionStatus(record);
+      if (request.expiresAt && Date.parse(request.expiresAt) <= now) {
+        status = "expired";
+        update.statusReason = "No presentation before the request expired";
+      } else if (!record) {
+        status = "expired";
+        update.statusReason = "The agent no longer has this request";
+      } else if (derived === "failed" || derived === "expired") {
+        status = derived;
+        update.statusReason = `Agent reports "${record.status}"`;
+      } else if (derived && isAhead(derived, status)) {
+        status = derived;
+      }
+      if (status !== request.status) {
+        update.status = status;
+      }
+    }
+
+    const finishedAt = Date.parse(request.statusUpdatedAt ?? request.timestamp);
+    const stale =
+      isTerminalVerificationStatus(status) &&
+      finishedAt < now - VERIFICATION_RETENTION_MS;
+
+    // Abandoned requests, and any leaving the history, are removed on the
+    // agent as well.
+    if ((status === "expired" || stale) && record && !request.agentCleanup) {
+      const cleanup = await cleanUpOnAgent(request.id, options);
+      if (cleanup) {
+        update.agentCleanup = cleanup;
+      }
+    }
+
+    if (stale && (!record || update.agentCleanup || request.agentCleanup)) {
+      result.removed.push(request.id);
+    } else if (Object.keys(update).length > 0) {
+      result.updates.set(request.id, update);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { CredentialOfferDraft } from "./schemas";
+import {
+  buildWalletOfferUrl,
+  getWalletProfile,
+  needsResolvedOffer,
+  parseOfferUrl,
+} from "./walletProfiles";
+
+const OFFER_URI = "https://agent.example/offers/abc123";
+const AGENT_OFFER_URL = `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(OFFER_URI)}`;
+const CONFIGURATION_ID = "WorkAuthorization_jwt_vc_json";
+
+const completeOffer: CredentialOfferDraft = {
+  credential_issuer: "https://agent.example",
+  credential_configuration_ids: [CONFIGURATION_ID],
+};
+const emptyIdsOffer: CredentialOfferDraft = {
+  credential_issuer: "https://agent.example",
+  credential_configuration_ids: [],
+};
+
+const byReference = (uri: string) =>
+  `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(uri)}`;
+const byValue = (offer: unknown) =>
+  `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`;
+const dataUrl = (offer: unknown) =>
+  `data:application/json;base64,${btoa(JSON.stringify(offer))}`;
+
+const repaired = {
+  ...emptyIdsOffer,
+  credential_configuration_ids: [CONFIGURATION_ID],
+};
+
+describe("buildWalletOfferUrl", () => {
+  it.each([
+    ["unime", completeOffer, byReference(OFFER_URI)],
+    ["unime", emptyIdsOffer, byReference(dataUrl(repaired))],
+    ["openid4vci", completeOffer, byReference(OFFER_URI)],
+    ["openid4vci", emptyIdsOffer, byReference(OFFER_URI)],
+    ["openid4vci-by-value", completeOffer, byValue(completeOffer)],
+    ["openid4vci-by-value", emptyIdsOffer, byValue(emptyIdsOffer)],
+    ["openid4vc-1.0", completeOffer, byReference(OFFER_URI)],
+    ["openid4vc-1.0", emptyIdsOffer, byReference(OFFER_URI)],
+  ])("%s builds the offer URL for %j", (profileId, offer, expected) => {
+    const url = buildWalletOfferUrl(getWalletProfile(profileId), {
+      offerUrl: AGENT_OFFER_URL,
+      offer,
+      configurationId: CONFIGURATION_ID,
+    });
+    expect(url).toBe(expected);
+  });
+
+  it.each(["unime", "openid4vci", "openid4vci-by-value", "openid4vc-1.0"])(
+    "%s keeps the offer reference when the offer is not resolved",
+    (profileId) => {
+      expect(
+        buildWalletOfferUrl(getWalletProfile(profileId), {
+          offerUrl: AGENT_OFFER_URL,
+        }),
+      ).toBe(byReference(OFFER_URI));
+    },
+  );
+
+  it("moves an offer passed by value into a data: reference for UniMe", () => {
+    const url = buildWalletOfferUrl(getWalletProfile("unime"), {
+      offerUrl: byValue(emptyIdsOffer),
+    });
+    expect(url).toBe(byReference(dataUrl(emptyIdsOffer)));
+  });
+});
+
+describe("needsResolvedOffer", () => {
+  it.each([
+    ["unime", true],
+    ["openid4vci", false],
+    ["openid4vci-by-value", true],
+    ["openid4vc-1.0", false],
+  ])("%s → %s", (profileId, expected) => {
+    expect(needsResolvedOffer(getWalletProfile(profileId))).toBe(expected);
+  });
+});
+
+describe("getWalletProfile", () => {
+  it("falls back to the generic profile for unknown IDs", () => {
+    expect(getWalletProfile("no-such-wallet").id).toBe("openid4vci");
+    expect(getWalletProfile(undefined).id).toBe("openid4vci");
+  });
+});
+
+describe("parseOfferUrl", () => {
+  it("reads an offer reference", () => {
+    expect(parseOfferUrl(AGENT_OFFER_URL)).toEqual({
+      scheme: "openid-credential-offer://",
+      offerUri: OFFER_URI,
+    });
+  });
+
+  it("reads an offer by value", () => {
+    expect(parseOfferUrl(byValue(completeOffer)).offer).toEqual(completeOffer);
+  });
+
+  it.each([
+    ["a URL without a scheme", "credential_offer_uri=x"],
+    ["a URL without an offer", "openid-credential-offer://?foo=bar"],
+    ["invalid offer JSON", "openid-credential-offer://?credential_offer=%7B"],
+  ])("rejects %s", (_, url) => {
+    expect(() => parseOfferUrl(url)).toThrow();
+  });
+});
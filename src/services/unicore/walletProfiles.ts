@@ -0,0 +1,230 @@
+import type { CredentialOfferDraft } from "./schemas";
+import type { QueryLanguage } from "./verificationQuery";
+
+/**
+ * How the offer reaches the wallet: embedded in the URL (`credential_offer`)
+ * or as a link the wallet fetches (`credential_offer_uri`).
+ */
+export type OfferTransport = "by-value" | "by-reference";
+
+/**
+ * Known wallet deviations from OpenID4VCI that a profile works around.
+ * - `fill-missing-configuration-ids`: the wallet rejects offers whose
+ *   `credential_configuration_ids` is empty, so the issued configuration is
+ *   filled in.
+ * - `data-url-offer-reference`: the wallet only accepts offers by reference,
+ *   so a repaired offer is passed as a base64 `data:` URL.
+ */
+export type WalletQuirk =
+  "fill-missing-configuration-ids" | "data-url-offer-reference";
+
+export interface WalletProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Offer URL scheme, including "://". */
+  scheme: string;
+  /** Credential formats the wallet can store. */
+  formats: readonly string[];
+  offerTransport: OfferTransport;
+  quirks: readonly WalletQuirk[];
+  /** How verification requests to this wallet are expressed. */
+  queryLanguage: QueryLanguage;
+}
+
+export const GENERIC_WALLET_PROFILE_ID = "openid4vci";
+export const DEFAULT_WALLET_PROFILE_ID = "unime";
+
+const OPENID4VCI_FORMATS = [
+  "jwt_vc_json",
+  "jwt_vc_json-ld",
+  "ldp_vc",
+  "vc+sd-jwt",
+  "dc+sd-jwt",
+];
+
+export const WALLET_PROFILES: readonly WalletProfile[] = [
+  {
+    id: "unime",
+    name: "UniMe",
+    description: "Impierce UniMe wallet",
+    scheme: "openid-credential-offer://",
+    formats: ["jwt_vc_json"],
+    offerTransport: "by-reference",
+    quirks: ["fill-missing-configuration-ids", "data-url-offer-reference"],
+    queryLanguage: "presentation_exchange",
+  },
+  {
+    id: GENERIC_WALLET_PROFILE_ID,
+    name: "Generic OpenID4VCI",
+    description: "Any wallet following OpenID4VCI; the agent offer unchanged",
+    scheme: "openid-credential-offer://",
+    formats: OPENID4VCI_FORMATS,
+    offerTransport: "by-reference",
+    quirks: [],
+    queryLanguage: "presentation_exchange",
+  },
+  {
+    id: "openid4vci-by-value",
+    name: "OpenID4VCI (offer by value)",
+    description:
+      "Embeds the offer in the QR code for wallets that cannot reach the agent's offer endpoint",
+    scheme: "openid-credential-offer://",
+    formats: OPENID4VCI_FORMATS,
+    offerTransport: "by-value",
+    quirks: [],
+    queryLanguage: "presentation_exchange",
+  },
+  {
+    id: "openid4vc-1.0",
+    name: "OpenID4VC 1.0",
+    description:
+      "Wallets on the final OpenID4VCI and OpenID4VP 1.0 specs; verification requests use DCQL",
+    scheme: "openid-credential-offer://",
+    formats: OPENID4VCI_FORMATS,
+    offerTransport: "by-reference",
+    quirks: [],
+    queryLanguage: "dcql",
+  },
+];
+
+export function getWalletProfile(id: string | undefined): WalletProfile {
+  return (
+    WALLET_PROFILES.find((profile) => profile.id === id) ??
+    WALLET_PROFILES.find((profile) => profile.id === GENERIC_WALLET_PROFILE_ID)!
+  );
+}
+
+export interface ParsedOfferUrl {
+  scheme: string;
+  /** Raw `credential_offer` JSON for offers passed by value. */
+  offer?: unknown;
+  /** `credential_offer_uri` for offers passed by reference. */
+  offerUri?: string;
+}
+
+/** Splits an offer URL into its scheme and the offer or offer reference. */
+export function parseOfferUrl(offerUrl: string): ParsedOfferUrl {
+  const trimmed = offerUrl.trim();
+  const schemeEnd = trimmed.indexOf("://");
+  const queryStart = trimmed.indexOf("?");
+  if (schemeEnd < 0 || queryStart < 0) {
+    throw new Error("Not a credential offer URL");
+  }
+
+  const params = new URLSearchParams(trimmed.slice(queryStart + 1));
+  const scheme = trimmed.slice(0, schemeEnd + 3);
+  const offerUri = params.get("credential_offer_uri") ?? undefined;
+  const offerJson = params.get("credential_offer");
+
+  if (offerJson) {
+    try {
+      return { scheme, offer: JSON.parse(offerJson) };
+    } catch {
+      throw new Error("credential_offer is not valid JSON");
+    }
+  }
+  if (!offerUri) {
+    throw new Error(
+      "Offer URL has neither credential_offer nor credential_offer_uri",
+    );
+  }
+  return { scheme, offerUri };
+}
+
+/** True when the profile has to see the offer itself, not just its URL. */
+export function needsResolvedOffer(profile: WalletProfile): boolean {
+  return profile.offerTransport === "by-value" || profile.quirks.length > 0;
+}
+
+/**
+ * Applies the profile's quirks to the offer. `changed` tells whether the
+ * offer now differs from what the agent serves.
+ */
+export function applyQuirks(
+  profile: WalletProfile,
+  offer: CredentialOfferDraft,
+  configurationId?: string,
+): { offer: CredentialOfferDraft; changed: boolean } {
+  if (
+    profile.quirks.includes("fill-missing-configuration-ids") &&
+    !offer.credential_configuration_ids?.length &&
+    configurationId
+  ) {
+    return {
+      offer: { ...offer, credential_configuration_ids: [configurationId] },
+      changed: true,
+    };
+  }
+  return { offer, changed: false };
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export interface WalletOfferSource {
+  /** Offer URL as returned by the agent. */
+  offerUrl: string;
+  /** The resolved offer; required when `needsResolvedOffer` is true. */
+  offer?: CredentialOfferDraft;
+  /** Configuration the credential was issued under. */
+  configurationId?: string;
+}
+
+/**
+ * Builds the URL to put in the QR code for the given wallet. Pure: the agent
+ * offer must already be resolved when the profile needs it. Without it the
+ * original offer reference is kept under the profile's scheme.
+ */
+export function buildWalletOfferUrl(
+  profile: WalletProfile,
+  source: WalletOfferSource,
+): string {
+  const parsed = parseOfferUrl(source.offerUrl);
+  const byValue = (offer: unknown) =>
+    `${profile.scheme}?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`;
+  const byReference = (uri: string) =>
+    `${profile.scheme}?credential_offer_uri=${encodeURIComponent(uri)}`;
+
+  const resolved = source.offer ?? parsed.offer;
+  if (!resolved) {
+    return byReference(parsed.offerUri!);
+  }
+
+  const { offer, changed } = applyQuirks(
+    profile,
+    resolved as CredentialOfferDraft,
+    source.configurationId,
+  );
+
+  if (profile.offerTransport === "by-value") {
+    return byValue(offer);
+  }
+  if (!changed && parsed.offerUri) {
+    return byReference(parsed.offerUri);
+  }
+  if (profile.quirks.includes("data-url-offer-reference")) {
+    return byReference(
+      `data:application/json;base64,${toBase64(JSON.stringify(offer))}`,
+    );
+  }
+  // A repaired offer has no URL of its own, so it has to travel by value.
+  return byValue(offer);
+}
+
+/** Explains why the wallet may not accept a credential of `format`. */
+export function getFormatWarning(
+  profile: WalletProfile,
+  format: string | undefined,
+): string | null {
+  if (!format || profile.formats.includes(format)) {
+    return null;
+  }
+  return `${profile.name} does not list support for ${format} credentials`;
+}
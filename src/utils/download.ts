@@ -0,0 +1,13 @@
+/** Saves `content` as a file through a temporary object URL. */
+export function downloadFile(
+  fileName: string,
+  content: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
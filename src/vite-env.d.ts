@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_UNICORE_ENVIRONMENT?: string;
+  readonly VITE_SSI_AGENT_URL?: string;
+  readonly VITE_UNICORE_CLIENT_ID?: string;
+  readonly VITE_UNICORE_REDIRECT_URI?: string;
+  readonly VITE_UNICORE_PROXY_TARGET?: string;
+  readonly VITE_IOTA_NODE_URL?: string;
+  readonly VITE_STATUS_LIST_BASE_URL?: string;
+  readonly VITE_REVOCATION_BITMAP_DID?: string;
+}
@@ -1,94 +1,136 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest" />
+import { existsSync, readFileSync } from "node:fs";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import wasm from "vite-plugin-wasm";
 import topLevelAwait from "vite-plugin-top-level-await";
 
-export default defineConfig({
-  plugins: [
-    react(),
-    wasm(),
-    topLevelAwait({
-      promiseExportName: "__tla",
-      promiseImportName: (i) => `__tla_${i}`,
-    }),
-  ],
-  define: {
-    "import.meta.env.VITE_UNICORE_API_URL": JSON.stringify(
-      process.env.VITE_UNICORE_API_URL,
-    ),
-  },
-  server: {
-    headers: {
-      "Cross-Origin-Opener-Policy": "same-origin",
-      "Cross-Origin-Embedder-Policy": "require-corp",
-    },
-    fs: {
-      allow: [".."],
+const DEFAULT_AGENT_URL = "http://localhost:3033";
+const RUNTIME_CONFIG_PATH = "public/config.json";
+
+/**
+ * The `/api` proxy target is fixed at dev server start. It follows the same
+ * sources as the in-app config: `public/config.json`, then env variables.
+ */
+function resolveProxyTarget(env: Record<string, string>): string {
+  let runtimeConfig: { proxyTarget?: string; agentUrl?: string } = {};
+  if (existsSync(RUNTIME_CONFIG_PATH)) {
+    try {
+      runtimeConfig = JSON.parse(readFileSync(RUNTIME_CONFIG_PATH, "utf-8"));
+    } catch (error) {
+      console.warn(`Ignoring invalid ${RUNTIME_CONFIG_PATH}:`, error);
+    }
+  }
+
+  const target =
+    runtimeConfig.proxyTarget ||
+    env.VITE_UNICORE_PROXY_TARGET ||
+    runtimeConfig.agentUrl ||
+    env.VITE_SSI_AGENT_URL ||
+    DEFAULT_AGENT_URL;
+
+  if (!/^https?:\/\/[^\s/]+/.test(target)) {
+    throw new Error(`Invalid UniCore proxy target: ${target}`);
+  }
+  return target.replace(/\/$/, "");
+}
+
+export default defineConfig(({ mode }) => {
+  const proxyTarget = resolveProxyTarget(loadEnv(mode, process.cwd(), ""));
+
+  return {
+    plugins: [
+      react(),
+      wasm(),
+      topLevelAwait({
+        promiseExportName: "__tla",
+        promiseImportName: (i) => `__tla_${i}`,
+      }),
+    ],
+    define: {
+      "import.meta.env.VITE_UNICORE_API_URL": JSON.stringify(
+        process.env.VITE_UNICORE_API_URL,
+      ),
+      "import.meta.env.VITE_UNICORE_PROXY_TARGET": JSON.stringify(proxyTarget),
     },
-    proxy: {
-      "/api/fixed-offer": {
-        target: "http://localhost:5173",
-        changeOrigin: false,
-        configure: (proxy, options) => {
-          proxy.on("proxyReq", (proxyReq, req, res) => {
-            const offerId = req.url?.split("/").pop();
+    server: {
+      headers: {
+        "Cross-Origin-Opener-Policy": "same-origin",
+        "Cross-Origin-Embedder-Policy": "require-corp",
+      },
+      fs: {
+        allow: [".."],
+      },
+      proxy: {
+        "/api/fixed-offer": {
+          target: "http://localhost:5173",
+          changeOrigin: false,
+          configure: (proxy, options) => {
+            proxy.on("proxyReq", (proxyReq, req, res) => {
+              const offerId = req.url?.split("/").pop();
 
-            const fixedOffers = (global as unknown).fixedOffers || {};
-            const fixedData = fixedOffers[offerId || ""];
+              const fixedOffers = (global as unknown).fixedOffers || {};
+              const fixedData = fixedOffers[offerId || ""];
 
-            if (fixedData) {
-              res.writeHead(200, {
-                "Content-Type": "application/json",
-                "Access-Control-Allow-Origin": "*",
-                "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-                "Access-Control-Allow-Headers": "Content-Type",
-              });
-              res.end(JSON.stringify(fixedData));
-              return;
-            }
+              if (fixedData) {
+                res.writeHead(200, {
+                  "Content-Type": "application/json",
+                  "Access-Control-Allow-Origin": "*",
+                  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+                  "Access-Control-Allow-Headers": "Content-Type",
+                });
+                res.end(JSON.stringify(fixedData));
+                return;
+              }
 
-            res.writeHead(404, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "Fixed offer not found" }));
-          });
+              res.writeHead(404, { "Content-Type": "application/json" });
+              res.end(JSON.stringify({ error: "Fixed offer not found" }));
+            });
+          },
         },
-      },
-      "/api": {
-        target: "http://192.168.29.111:3033",
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api/, ""),
-        configure: (proxy) => {
-          proxy.on("error", (err) => {
-            console.log("Proxy error:", err);
-          });
-          proxy.on("proxyReq", (proxyReq, req) => {
-            console.log("Proxying request:", req.method, req.url);
-          });
-          proxy.on("proxyRes", (proxyRes, req) => {
-            console.log("Proxy response:", proxyRes.statusCode, req.url);
-          });
+        "/api": {
+          target: proxyTarget,
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api/, ""),
+          configure: (proxy) => {
+            proxy.on("error", (err) => {
+              console.log("Proxy error:", err);
+            });
+            proxy.on("proxyReq", (proxyReq, req) => {
+              console.log("Proxying request:", req.method, req.url);
+            });
+            proxy.on("proxyRes", (proxyRes, req) => {
+              console.log("Proxy response:", proxyRes.statusCode, req.url);
+            });
+          },
         },
       },
     },
-  },
-  optimizeDeps: {
-    exclude: [
-      "@iota/sdk-wasm",
-      "@iota/identity-wasm",
-      "@iota/identity-wasm/web",
-    ],
-    esbuildOptions: {
+    optimizeDeps: {
+      exclude: [
+        "@iota/sdk-wasm",
+        "@iota/identity-wasm",
+        "@iota/identity-wasm/web",
+      ],
+      esbuildOptions: {
+        target: "esnext",
+      },
+    },
+    assetsInclude: ["**/*.wasm"],
+    worker: {
+      format: "es",
+      plugins: () => [wasm()],
+    },
+    build: {
       target: "esnext",
+      modulePreload: {
+        polyfill: false,
+      },
     },
-  },
-  assetsInclude: ["**/*.wasm"],
-  worker: {
-    format: "es",
-    plugins: () => [wasm()],
-  },
-  build: {
-    target: "esnext",
-    modulePreload: {
-      polyfill: false,
+    test: {
+      environment: "happy-dom",
+      // Load modules the Node way so the WASM packages' web builds stay out.
+      testTransformMode: { ssr: ["**/*"] },
     },
-  },
+  };
 });